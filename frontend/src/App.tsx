@@ -2,43 +2,132 @@ import { useState, useEffect } from 'react';
 import ChatInterface from './components/ChatInterface';
 import QuizMode from './components/QuizMode';
 import ProgressDashboard from './components/ProgressDashboard';
-import { MessageSquare, Trophy, BarChart3, Plus, Menu } from 'lucide-react';
-import { apiClient } from './api/client';
-
-type View = 'chat' | 'quiz' | 'progress';
-
-interface Session {
-    id: string;
-    topic: string;
-    duration: number;
-    difficulty: string;
-    startTime: number;
-    status: string;
-}
+import AuthScreen from './components/AuthScreen';
+import SessionSummaryView from './components/SessionSummaryView';
+import FlashcardsView from './components/FlashcardsView';
+import SessionHistory from './components/SessionHistory';
+import SearchBox from './components/SearchBox';
+import ExportMenu from './components/ExportMenu';
+import type { ExportFormatLabels } from './components/ExportMenu';
+import TutorModePicker from './components/TutorModePicker';
+import { MessageSquare, Trophy, Layers, BarChart3, Plus, Menu, LogOut, Pause, Play } from 'lucide-react';
+import { apiClient, activeMinutes, DEFAULT_TUTOR_MODE } from './api/client';
+import type { AuthUser, Difficulty, ExportFormat, SearchResult, StudySession, TutorMode } from './api/client';
+
+type View = 'chat' | 'quiz' | 'flashcards' | 'progress';
+
+// Minutes the sidebar's extend button adds to a session
+const EXTEND_MINUTES = 15;
+
+const SESSION_EXPORT_LABELS: ExportFormatLabels<ExportFormat> = {
+    md: { label: 'Markdown', description: 'Notes for any Markdown editor' },
+    html: { label: 'Printable page', description: 'Open in a browser and print or save as PDF' },
+    json: { label: 'JSON', description: 'Everything, for other tools' },
+};
 
 function App() {
+    const [user, setUser] = useState<AuthUser | null>(null);
+    const [checkingAuth, setCheckingAuth] = useState(apiClient.isSignedIn());
+
+    useEffect(() => {
+        // An expired token anywhere in the app sends the user back to sign in
+        apiClient.onUnauthorized(() => setUser(null));
+
+        if (apiClient.isSignedIn()) {
+            apiClient.getCurrentUser()
+                .then(setUser)
+                .catch(error => console.error('Failed to restore sign-in:', error))
+                .finally(() => setCheckingAuth(false));
+        }
+
+        return () => apiClient.onUnauthorized(null);
+    }, []);
+
+    const signOut = () => {
+        apiClient.signOut();
+        setUser(null);
+    };
+
+    if (checkingAuth) {
+        return (
+            <div className="flex h-screen items-center justify-center bg-white dark:bg-gray-900">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+            </div>
+        );
+    }
+
+    if (!user) {
+        return <AuthScreen onAuthenticated={setUser} />;
+    }
+
+    // Keyed so nothing from one account's view survives into another's
+    return <StudyApp key={user.id} user={user} onSignOut={signOut} />;
+}
+
+function StudyApp({ user, onSignOut }: { user: AuthUser; onSignOut: () => void }) {
     const [view, setView] = useState<View>('chat');
-    const [currentSession, setCurrentSession] = useState<Session | null>(null);
-    const [userId] = useState('demo-user');
+    const [currentSession, setCurrentSession] = useState<StudySession | null>(null);
+    const [finishedSessionId, setFinishedSessionId] = useState<string | null>(null);
+    // A completed session reopened from the history, shown read-only
+    const [pastSession, setPastSession] = useState<StudySession | null>(null);
+    const [focus, setFocus] = useState<{ sessionId: string; messageId: number } | null>(null); // message opened from search
     const [sidebarOpen, setSidebarOpen] = useState(true);
+    const [now, setNow] = useState(Date.now());
 
     useEffect(() => {
         loadCurrentSession();
+        syncTimeZone();
     }, []);
 
+    // Keep the session's active time current, and pick up the server ending
+    // it on its own (planned duration reached, or idle for too long)
+    useEffect(() => {
+        setNow(Date.now());
+        if (!currentSession) return;
+
+        const timer = setInterval(async () => {
+            setNow(Date.now());
+            try {
+                const session = await apiClient.getCurrentSession();
+                if (session?.id !== currentSession.id) {
+                    setFinishedSessionId(currentSession.id);
+                }
+                setCurrentSession(session);
+            } catch (error) {
+                console.error('Failed to load session:', error);
+            }
+        }, 30000);
+        return () => clearInterval(timer);
+    }, [currentSession?.id, currentSession?.status]);
+
+    // Streaks count calendar days where the user is
+    const syncTimeZone = async () => {
+        try {
+            const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+            const settings = await apiClient.getSettings();
+            if (timeZone && settings.timeZone !== timeZone) {
+                await apiClient.updateSettings({ timeZone });
+            }
+        } catch (error) {
+            console.error('Failed to sync time zone:', error);
+        }
+    };
+
     const loadCurrentSession = async () => {
         try {
-            const session = await apiClient.getCurrentSession(userId);
+            const session = await apiClient.getCurrentSession();
             setCurrentSession(session);
         } catch (error) {
             console.error('Failed to load session:', error);
         }
     };
 
-    const startNewSession = async (topic: string, duration: number, difficulty: string) => {
+    const startNewSession = async (topic: string, duration: number, difficulty: Difficulty, mode?: TutorMode) => {
         try {
-            const session = await apiClient.startStudySession(topic, duration, difficulty, userId);
+            const session = await apiClient.startStudySession(topic, duration, difficulty, mode);
             setCurrentSession(session);
+            setFinishedSessionId(null);
+            setPastSession(null);
             setView('chat');
         } catch (error) {
             console.error('Failed to start session:', error);
@@ -49,13 +138,76 @@ function App() {
     const completeSession = async () => {
         if (!currentSession) return;
         try {
-            await apiClient.completeStudySession(currentSession.id, userId);
+            await apiClient.completeStudySession(currentSession.id);
+            setFinishedSessionId(currentSession.id);
             setCurrentSession(null);
+            setView('chat');
         } catch (error) {
             console.error('Failed to complete session:', error);
         }
     };
 
+    const togglePause = async () => {
+        if (!currentSession) return;
+        try {
+            const session = currentSession.status === 'paused'
+                ? await apiClient.resumeStudySession(currentSession.id)
+                : await apiClient.pauseStudySession(currentSession.id);
+            setCurrentSession(session);
+        } catch (error) {
+            console.error('Failed to pause or resume session:', error);
+        }
+    };
+
+    const extendSession = async () => {
+        if (!currentSession) return;
+        try {
+            setCurrentSession(await apiClient.extendStudySession(currentSession.id, EXTEND_MINUTES));
+        } catch (error) {
+            console.error('Failed to extend session:', error);
+        }
+    };
+
+    // Completed sessions open read-only; an unfinished one is continued,
+    // resuming it if it was paused
+    const openSession = async (session: StudySession) => {
+        setView('chat');
+        setFinishedSessionId(null);
+
+        if (session.status === 'completed') {
+            setPastSession(session);
+            return;
+        }
+
+        setPastSession(null);
+        try {
+            setCurrentSession(session.status === 'paused'
+                ? await apiClient.resumeStudySession(session.id)
+                : session);
+        } catch (error) {
+            console.error('Failed to continue session:', error);
+        }
+    };
+
+    // Open a search result's session, scrolled to the message when it is one
+    const openSearchResult = async (result: SearchResult) => {
+        if (!result.sessionId) return;
+
+        try {
+            const session = await apiClient.getStudySession(result.sessionId);
+            setFocus(result.messageId !== undefined ? { sessionId: session.id, messageId: result.messageId } : null);
+            await openSession(session);
+        } catch (error) {
+            console.error('Failed to open search result:', error);
+        }
+    };
+
+    // The session the header names, and the one Export saves
+    const shownSessionId = pastSession?.id ?? currentSession?.id ?? finishedSessionId;
+
+    // The message to scroll to, if it belongs to the chat being shown
+    const focusIn = (sessionId: string) => focus?.sessionId === sessionId ? focus.messageId : undefined;
+
     return (
         <div className="flex h-screen bg-white dark:bg-gray-900">
             {/* Sidebar - ChatGPT style */}
@@ -64,6 +216,8 @@ function App() {
                     <button
                         onClick={() => {
                             setCurrentSession(null);
+                            setFinishedSessionId(null);
+                            setPastSession(null);
                             setView('chat');
                         }}
                         className="w-full flex items-center gap-3 px-3 py-2.5 rounded-lg hover:bg-gray-800 transition-colors"
@@ -75,7 +229,10 @@ function App() {
 
                 <nav className="flex-1 p-2 space-y-1 overflow-y-auto">
                     <button
-                        onClick={() => setView('chat')}
+                        onClick={() => {
+                            setPastSession(null);
+                            setView('chat');
+                        }}
                         className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg transition-colors ${
                             view === 'chat' ? 'bg-gray-800' : 'hover:bg-gray-800'
                         }`}
@@ -92,6 +249,15 @@ function App() {
                         <Trophy className="w-4 h-4" />
                         <span className="text-sm">Take Quiz</span>
                     </button>
+                    <button
+                        onClick={() => setView('flashcards')}
+                        className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg transition-colors ${
+                            view === 'flashcards' ? 'bg-gray-800' : 'hover:bg-gray-800'
+                        }`}
+                    >
+                        <Layers className="w-4 h-4" />
+                        <span className="text-sm">Flashcards</span>
+                    </button>
                     <button
                         onClick={() => setView('progress')}
                         className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg transition-colors ${
@@ -101,21 +267,67 @@ function App() {
                         <BarChart3 className="w-4 h-4" />
                         <span className="text-sm">My Progress</span>
                     </button>
+
+                    <SearchBox onSelect={openSearchResult} />
+
+                    <SessionHistory
+                        selectedId={pastSession?.id ?? currentSession?.id ?? null}
+                        refreshKey={`${currentSession?.id}:${currentSession?.status}`}
+                        onSelect={({ session }) => {
+                            setFocus(null);
+                            openSession(session);
+                        }}
+                    />
                 </nav>
 
                 {currentSession && (
                     <div className="p-3 border-t border-gray-800">
-                        <div className="text-xs text-gray-400 mb-2">Current Session</div>
+                        <div className="text-xs text-gray-400 mb-2">
+                            {currentSession.status === 'paused' ? 'Session Paused' : 'Current Session'}
+                        </div>
                         <div className="text-sm font-medium mb-1">{currentSession.topic}</div>
-                        <div className="text-xs text-gray-400 mb-3">{currentSession.duration} minutes</div>
-                        <button
-                            onClick={completeSession}
-                            className="w-full px-3 py-2 bg-green-600 hover:bg-green-700 rounded-lg text-sm font-medium transition-colors"
-                        >
-                            Complete Session
-                        </button>
+                        <div className="text-xs text-gray-400 mb-3">
+                            {Math.floor(activeMinutes(currentSession.activeIntervals ?? [], now))} of {currentSession.duration} minutes
+                        </div>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={togglePause}
+                                title={currentSession.status === 'paused' ? 'Resume session' : 'Pause session'}
+                                className="px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors"
+                            >
+                                {currentSession.status === 'paused' ? (
+                                    <Play className="w-4 h-4" />
+                                ) : (
+                                    <Pause className="w-4 h-4" />
+                                )}
+                            </button>
+                            <button
+                                onClick={extendSession}
+                                title={`Add ${EXTEND_MINUTES} minutes`}
+                                className="px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm transition-colors"
+                            >
+                                +{EXTEND_MINUTES}
+                            </button>
+                            <button
+                                onClick={completeSession}
+                                className="flex-1 px-3 py-2 bg-green-600 hover:bg-green-700 rounded-lg text-sm font-medium transition-colors"
+                            >
+                                Complete Session
+                            </button>
+                        </div>
                     </div>
                 )}
+
+                <div className="p-3 border-t border-gray-800 flex items-center justify-between gap-2">
+                    <span className="text-sm text-gray-400 truncate" title={user.email}>{user.email}</span>
+                    <button
+                        onClick={onSignOut}
+                        title="Sign out"
+                        className="p-2 rounded-lg hover:bg-gray-800 transition-colors"
+                    >
+                        <LogOut className="w-4 h-4" />
+                    </button>
+                </div>
             </aside>
 
             {/* Main Content */}
@@ -129,20 +341,39 @@ function App() {
                         <Menu className="w-5 h-5" />
                     </button>
                     <h1 className="text-lg font-semibold text-gray-900 dark:text-white">
-                        {currentSession ? currentSession.topic : 'AI Study Buddy'}
+                        {pastSession?.topic ?? currentSession?.topic ?? 'AI Study Buddy'}
                     </h1>
+                    {shownSessionId && (
+                        <div className="ml-auto">
+                            <ExportMenu
+                                formats={SESSION_EXPORT_LABELS}
+                                subject="session"
+                                onExport={format => apiClient.exportSession(shownSessionId, format)}
+                            />
+                        </div>
+                    )}
                 </header>
 
                 {/* Content area */}
                 <main className="flex-1 overflow-hidden">
-                    {!currentSession && view === 'chat' ? (
+                    {view === 'chat' && pastSession ? (
+                        <ChatInterface key={pastSession.id} sessionId={pastSession.id} focusMessageId={focusIn(pastSession.id)} readOnly />
+                    ) : !currentSession && view === 'chat' && finishedSessionId ? (
+                        <SessionSummaryView sessionId={finishedSessionId} onClose={() => setFinishedSessionId(null)} />
+                    ) : !currentSession && view === 'chat' ? (
                         <WelcomeScreen onStart={startNewSession} />
                     ) : view === 'chat' && currentSession ? (
-                        <ChatInterface sessionId={currentSession.id} userId={userId} />
+                        <ChatInterface sessionId={currentSession.id} mode={currentSession.mode} focusMessageId={focusIn(currentSession.id)} />
                     ) : view === 'quiz' ? (
-                        <QuizMode userId={userId} />
+                        <QuizMode sessionId={currentSession?.id} />
+                    ) : view === 'flashcards' ? (
+                        <FlashcardsView
+                            key={shownSessionId ?? 'all'}
+                            sessionId={shownSessionId ?? undefined}
+                            topic={pastSession?.topic ?? currentSession?.topic}
+                        />
                     ) : (
-                        <ProgressDashboard userId={userId} />
+                        <ProgressDashboard />
                     )}
                 </main>
             </div>
@@ -150,10 +381,11 @@ function App() {
     );
 }
 
-function WelcomeScreen({ onStart }: { onStart: (topic: string, duration: number, difficulty: string) => void }) {
+function WelcomeScreen({ onStart }: { onStart: (topic: string, duration: number, difficulty: Difficulty, mode?: TutorMode) => void }) {
     const [topic, setTopic] = useState('');
     const [duration, setDuration] = useState(30);
-    const [difficulty, setDifficulty] = useState('intermediate');
+    const [difficulty, setDifficulty] = useState<Difficulty>('intermediate');
+    const [mode, setMode] = useState<TutorMode>(DEFAULT_TUTOR_MODE);
     const [showForm, setShowForm] = useState(false);
 
     const quickTopics = [
@@ -172,7 +404,7 @@ function WelcomeScreen({ onStart }: { onStart: (topic: string, duration: number,
     const handleCustomStart = (e: React.FormEvent) => {
         e.preventDefault();
         if (topic.trim()) {
-            onStart(topic, duration, difficulty);
+            onStart(topic, duration, difficulty, mode);
         }
     };
 
@@ -230,7 +462,7 @@ function WelcomeScreen({ onStart }: { onStart: (topic: string, duration: number,
                                     </label>
                                     <select
                                         value={difficulty}
-                                        onChange={(e) => setDifficulty(e.target.value)}
+                                        onChange={(e) => setDifficulty(e.target.value as Difficulty)}
                                         className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
                                     >
                                         <option value="beginner">Beginner</option>
@@ -240,6 +472,17 @@ function WelcomeScreen({ onStart }: { onStart: (topic: string, duration: number,
                                 </div>
                             </div>
 
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                                    Tutor mode
+                                </label>
+                                <TutorModePicker
+                                    value={mode}
+                                    onChange={setMode}
+                                    className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+                                />
+                            </div>
+
                             <button
                                 type="submit"
                                 className="w-full px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors"
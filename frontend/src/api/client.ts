@@ -1,119 +1,260 @@
-const API_URL = import.meta?.env?.VITE_API_URL || 'http://localhost:8787';
-
-interface ChatMessage {
-    role: 'user' | 'assistant';
-    content: string;
-    timestamp: number;
-}
-
-interface StudySession {
-    id: string;
-    topic: string;
-    duration: number;
-    difficulty: string;
-    startTime: number;
-    status: string;
-}
-
-interface Quiz {
-    quizId: string;
-    questions: Question[];
-    totalPoints: number;
-}
+import { apiContract } from '../../../src/shared/api';
+import type { ApiQuery, ApiRequest, ApiResponse, ErrorResponse, JsonRouteName, ListSessionsResponse, StreamRouteName } from '../../../src/shared/api';
+import type {
+    AuthUser,
+    CardFileFormat,
+    ChatMessage,
+    Difficulty,
+    ExportFormat,
+    Flashcard,
+    FlashcardRating,
+    GradedQuizResult,
+    ProgressData,
+    PublicQuiz,
+    QuizExportFormat,
+    QuizGenerationStatus,
+    QuizResult,
+    SearchResult,
+    SpacedRepetitionItem,
+    StudySession,
+    TopicProgress,
+    TutorMode,
+    UserSettings,
+} from '../../../src/shared/models';
+import { QUIZ_SUBMISSION_VERSION } from '../../../src/shared/quizSubmission';
+import { readSSE } from '../../../src/shared/sse';
+import type { QuizSubmission } from '../../../src/shared/quizSubmission';
+import { validate } from '../../../src/shared/validation';
+import type { FieldError, Validator } from '../../../src/shared/validation';
 
-interface Question {
-    id: string;
-    question: string;
-    type: string;
-    options?: string[];
-    correctAnswer: string;
-    explanation: string;
-    points: number;
-}
+const API_URL = import.meta?.env?.VITE_API_URL || 'http://localhost:8787';
 
-interface QuizResult {
-    score: number;
-    maxScore: number;
-    percentage: number;
-    answers: Record<string, string>;
-}
+const POLL_INITIAL_DELAY_MS = 1000;
+const POLL_MAX_DELAY_MS = 5000;
+const QUIZ_POLL_TIMEOUT_MS = 90000;
+const SUMMARY_POLL_TIMEOUT_MS = 60000;
 
-interface ProgressData {
-    totalStudyTime: number;
-    totalSessions: number;
-    totalQuizzes: number;
-    averageScore: number;
-    currentStreak: number;
-    longestStreak: number;
-    topicsStudied: TopicProgress[];
-    recentActivity: ActivityRecord[];
-}
+export class APIError extends Error {
+    status: number;
+    fieldErrors: FieldError[];
 
-interface TopicProgress {
-    topic: string;
-    masteryLevel: number;
-    timeSpent: number;
-    sessionsCount: number;
-    quizAverage: number;
-    lastStudied: number;
+    constructor(message: string, status: number, fieldErrors: FieldError[]) {
+        super(message);
+        this.name = 'APIError';
+        this.status = status;
+        this.fieldErrors = fieldErrors;
+    }
 }
 
-interface ActivityRecord {
-    type: 'session' | 'quiz';
-    topic: string;
-    timestamp: number;
-    duration?: number;
-    score?: number;
-}
+const TOKEN_STORAGE_KEY = 'studyBuddyToken';
 
 class APIClient {
     private baseUrl: string;
+    private token: string | null;
+    private unauthorizedListener: (() => void) | null = null;
 
     constructor(baseUrl: string) {
         this.baseUrl = baseUrl;
+        this.token = localStorage.getItem(TOKEN_STORAGE_KEY);
+    }
+
+    isSignedIn(): boolean {
+        return this.token !== null;
+    }
+
+    // Called when the worker rejects the stored token (expired or revoked)
+    onUnauthorized(listener: (() => void) | null): void {
+        this.unauthorizedListener = listener;
+    }
+
+    private setToken(token: string | null): void {
+        this.token = token;
+        if (token) {
+            localStorage.setItem(TOKEN_STORAGE_KEY, token);
+        } else {
+            localStorage.removeItem(TOKEN_STORAGE_KEY);
+        }
+    }
+
+    private headers(): Record<string, string> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+        };
+        if (this.token) {
+            headers.Authorization = `Bearer ${this.token}`;
+        }
+        return headers;
     }
 
-    private async request<T>(
-        endpoint: string,
-        options: RequestInit = {}
-    ): Promise<T> {
-        const url = `${this.baseUrl}${endpoint}`;
+    // Every call goes through the shared contract: the route fixes the method,
+    // path, request body type and the validator the response must pass
+    private async request<N extends JsonRouteName>(
+        route: N,
+        options: { params?: Record<string, string>; query?: Record<string, string>; body?: ApiRequest<N> } = {}
+    ): Promise<ApiResponse<N>> {
+        const contract = apiContract[route];
+        const path = contract.path.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(options.params?.[name] ?? ''));
+        const query = options.query ? `?${new URLSearchParams(options.query)}` : '';
 
-        const response = await fetch(url, {
-            ...options,
-            headers: {
-                'Content-Type': 'application/json',
-                ...options.headers,
-            },
+        const response = await fetch(`${this.baseUrl}${path}${query}`, {
+            method: contract.method,
+            headers: this.headers(),
+            body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
         });
 
         if (!response.ok) {
-            throw new Error(`API Error: ${response.statusText}`);
+            throw await this.toAPIError(response);
         }
 
-        return response.json();
+        const validator = contract.response as Validator<ApiResponse<N>>;
+        const result = validate(validator, await response.json());
+        if (!result.ok) {
+            console.error(`Response from ${contract.path} does not match the API contract:`, result.errors);
+            throw new APIError(`Unexpected response from ${contract.path}`, response.status, result.errors);
+        }
+
+        return result.value;
+    }
+
+    private async toAPIError(response: Response): Promise<APIError> {
+        if (response.status === 401 && this.token) {
+            this.setToken(null);
+            this.unauthorizedListener?.();
+        }
+
+        const body = await response.json().catch(() => null) as ErrorResponse | null;
+        return new APIError(
+            body?.error || `API Error: ${response.statusText}`,
+            response.status,
+            body?.fieldErrors ?? []
+        );
+    }
+
+    // Auth endpoints
+    async signUp(email: string, password: string): Promise<AuthUser> {
+        const data = await this.request('signUp', {
+            body: { email, password },
+        });
+        this.setToken(data.token);
+        return data.user;
+    }
+
+    async signIn(email: string, password: string): Promise<AuthUser> {
+        const data = await this.request('signIn', {
+            body: { email, password },
+        });
+        this.setToken(data.token);
+        return data.user;
+    }
+
+    signOut(): void {
+        this.setToken(null);
+    }
+
+    async getCurrentUser(): Promise<AuthUser> {
+        const data = await this.request('currentUser');
+        return data.user;
     }
 
     // Chat endpoints
     async sendChatMessage(
         message: string,
         sessionId: string,
-        userId: string
+        mode?: TutorMode
     ): Promise<string> {
-        const data = await this.request<{ response: string }>('/api/chat', {
-            method: 'POST',
-            body: JSON.stringify({ message, sessionId, userId }),
+        const data = await this.request('chat', {
+            body: { message, sessionId, mode },
         });
         return data.response;
     }
 
-    async getChatHistory(
+    // Streams the reply token by token and resolves with the full text. Aborting
+    // the signal stops the stream; the worker keeps the partial reply.
+    // `editOf` rewrites an earlier question of the conversation, branching from it
+    async streamChatMessage(
+        message: string,
+        sessionId: string,
+        onToken: (content: string) => void,
+        options: { signal?: AbortSignal; mode?: TutorMode; editOf?: number } = {}
+    ): Promise<string> {
+        const { signal, mode, editOf } = options;
+        return this.stream('chatStream', { message, sessionId, mode, editOf }, onToken, signal);
+    }
+
+    // A new reply to the last question; the previous one stays as a variant
+    async regenerateReply(
         sessionId: string,
-        userId: string
+        onToken: (content: string) => void,
+        options: { signal?: AbortSignal; mode?: TutorMode } = {}
+    ): Promise<string> {
+        const { signal, mode } = options;
+        return this.stream('chatRegenerate', { sessionId, mode }, onToken, signal);
+    }
+
+    // Show the branch through one version of a turn; returns the history as now shown
+    async switchChatBranch(
+        sessionId: string,
+        messageId: number
     ): Promise<ChatMessage[]> {
-        const data = await this.request<{ history: ChatMessage[] }>(
-            `/api/chat/history?sessionId=${sessionId}&userId=${userId}`
-        );
+        const data = await this.request('chatBranch', {
+            body: { sessionId, messageId },
+        });
+        return data.history;
+    }
+
+    // Reply tokens are passed to onToken as they arrive; resolves with the whole reply
+    private async stream<N extends StreamRouteName>(
+        route: N,
+        body: ApiRequest<N>,
+        onToken: (content: string) => void,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const contract = apiContract[route];
+
+        const response = await fetch(`${this.baseUrl}${contract.path}`, {
+            method: contract.method,
+            headers: this.headers(),
+            body: JSON.stringify(body),
+            signal,
+        });
+
+        if (!response.ok) {
+            throw await this.toAPIError(response);
+        }
+
+        if (!response.body) {
+            throw new APIError('Streaming is not supported by this browser', response.status, []);
+        }
+
+        let content = '';
+
+        for await (const data of readSSE(response.body)) {
+            const result = validate(contract.event, JSON.parse(data));
+            if (!result.ok) {
+                throw new APIError(`Unexpected event from ${contract.path}`, response.status, result.errors);
+            }
+
+            const chunk = result.value;
+            if (chunk.error) {
+                throw new APIError(chunk.error, response.status, []);
+            }
+            if (chunk.done) {
+                break;
+            }
+
+            content += chunk.content;
+            onToken(chunk.content);
+        }
+
+        return content;
+    }
+
+    async getChatHistory(
+        sessionId: string
+    ): Promise<ChatMessage[]> {
+        const data = await this.request('chatHistory', {
+            query: { sessionId },
+        });
         return data.history;
     }
 
@@ -121,106 +262,346 @@ class APIClient {
     async startStudySession(
         topic: string,
         duration: number,
-        difficulty: string,
-        userId: string
+        difficulty: Difficulty,
+        mode?: TutorMode
     ): Promise<StudySession> {
-        const data = await this.request<{ session: StudySession }>('/api/study/start', {
-            method: 'POST',
-            body: JSON.stringify({ topic, duration, difficulty, userId }),
+        const data = await this.request('startStudy', {
+            body: { topic, duration, difficulty, mode },
         });
         return data.session;
     }
 
-    async getCurrentSession(userId: string): Promise<StudySession | null> {
-        const data = await this.request<{ session: StudySession | null }>(
-            `/api/study/current?userId=${userId}`
-        );
+    async getCurrentSession(): Promise<StudySession | null> {
+        const data = await this.request('currentSession');
+        return data.session;
+    }
+
+    async completeStudySession(sessionId: string): Promise<void> {
+        await this.request('completeStudy', {
+            body: { sessionId },
+        });
+    }
+
+    // Past and current sessions, newest first; pass nextCursor back to get the next page
+    async listSessions(filters: ApiQuery<'listSessions'> = {}): Promise<ListSessionsResponse> {
+        const query: Record<string, string> = {};
+        for (const [key, value] of Object.entries(filters)) {
+            if (value !== undefined) {
+                query[key] = String(value);
+            }
+        }
+
+        return this.request('listSessions', { query });
+    }
+
+    async getStudySession(sessionId: string): Promise<StudySession> {
+        const data = await this.request('studySession', {
+            params: { sessionId },
+        });
+        return data.session;
+    }
+
+    // Poll a completed session with exponential backoff until its summary is written
+    async waitForSessionSummary(sessionId: string): Promise<StudySession> {
+        const deadline = Date.now() + SUMMARY_POLL_TIMEOUT_MS;
+        let delay = POLL_INITIAL_DELAY_MS;
+
+        while (Date.now() < deadline) {
+            const session = await this.getStudySession(sessionId);
+
+            if (session.summary) {
+                return session;
+            }
+
+            await new Promise(resolve => setTimeout(resolve, delay));
+            delay = Math.min(delay * 1.5, POLL_MAX_DELAY_MS);
+        }
+
+        throw new Error('Timed out waiting for the session summary');
+    }
+
+    // Messages, session summaries and quiz explanations matching `q`, best first
+    async search(q: string, limit?: number): Promise<SearchResult[]> {
+        const query: Record<string, string> = { q };
+        if (limit !== undefined) {
+            query.limit = String(limit);
+        }
+
+        const data = await this.request('search', { query });
+        return data.results;
+    }
+
+    // A session as a file to save: Markdown, a printable HTML page or JSON
+    async exportSession(sessionId: string, format: ExportFormat): Promise<{ fileName: string; blob: Blob }> {
+        const path = apiContract.exportSession.path.replace(':sessionId', encodeURIComponent(sessionId));
+        const response = await fetch(`${this.baseUrl}${path}?${new URLSearchParams({ format })}`, {
+            headers: this.headers(),
+        });
+
+        if (!response.ok) {
+            throw await this.toAPIError(response);
+        }
+
+        const disposition = response.headers.get('Content-Disposition') ?? '';
+        return {
+            fileName: disposition.match(/filename="([^"]+)"/)?.[1] ?? `session.${format}`,
+            blob: await response.blob(),
+        };
+    }
+
+    async pauseStudySession(sessionId: string): Promise<StudySession> {
+        const data = await this.request('pauseStudy', {
+            body: { sessionId },
+        });
         return data.session;
     }
 
-    async completeStudySession(sessionId: string, userId: string): Promise<void> {
-        await this.request('/api/study/complete', {
-            method: 'POST',
-            body: JSON.stringify({ sessionId, userId }),
+    async resumeStudySession(sessionId: string): Promise<StudySession> {
+        const data = await this.request('resumeStudy', {
+            body: { sessionId },
         });
+        return data.session;
+    }
+
+    async extendStudySession(sessionId: string, minutes: number): Promise<StudySession> {
+        const data = await this.request('extendStudy', {
+            body: { sessionId, minutes },
+        });
+        return data.session;
     }
 
     // Quiz endpoints
     async generateQuiz(
         topic: string,
         questionCount: number,
-        difficulty: string,
-        userId: string
-    ): Promise<Quiz> {
-        // Note: In production, you'd want to poll for workflow completion
-        // For now, we'll simulate with a delay
-        await this.request<{ workflowId: string }>('/api/quiz/generate', {
-            method: 'POST',
-            body: JSON.stringify({ topic, questionCount, difficulty, userId }),
-        });
-// Wait a bit for workflow to complete (simplified)
-        await new Promise(resolve => setTimeout(resolve, 3000));
-
-        // Return mock data for now - in production, fetch from workflow result
-        return {
-            quizId: `quiz_${Date.now()}`,
-            questions: this.generateMockQuestions(topic, questionCount),
-            totalPoints: questionCount * 10,
-        };
+        difficulty: Difficulty,
+        sessionId?: string
+    ): Promise<PublicQuiz> {
+        const status = await this.request('generateQuiz', {
+            body: { topic, questionCount, difficulty, sessionId },
+        });
+
+        // The worker generates the quiz inline when it could not start the workflow
+        if (status.quiz) {
+            return status.quiz;
+        }
+
+        if (!status.workflowId) {
+            throw new Error(status.error || 'Quiz generation failed');
+        }
+
+        return this.waitForQuiz(status.workflowId);
+    }
+
+    async getQuizGenerationStatus(workflowId: string): Promise<QuizGenerationStatus> {
+        return this.request('quizStatus', {
+            params: { workflowId },
+        });
+    }
+
+    // Poll the generation workflow with exponential backoff until it settles
+    private async waitForQuiz(workflowId: string): Promise<PublicQuiz> {
+        const deadline = Date.now() + QUIZ_POLL_TIMEOUT_MS;
+        let delay = POLL_INITIAL_DELAY_MS;
+
+        while (Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, delay));
+
+            const status = await this.getQuizGenerationStatus(workflowId);
+
+            if (status.status === 'completed' && status.quiz) {
+                return status.quiz;
+            }
+
+            if (status.status === 'failed') {
+                throw new Error(status.error || 'Quiz generation failed');
+            }
+
+            delay = Math.min(delay * 1.5, POLL_MAX_DELAY_MS);
+        }
+
+        throw new Error('Timed out waiting for quiz generation');
     }
 
     async submitQuiz(
         quizId: string,
         answers: Record<string, string>,
-        userId: string
-    ): Promise<QuizResult> {
-        const data = await this.request<QuizResult>('/api/quiz/submit', {
-            method: 'POST',
-            body: JSON.stringify({ quizId, answers, userId }),
+        timeSpent?: number
+    ): Promise<GradedQuizResult> {
+        const submission: QuizSubmission = {
+            version: QUIZ_SUBMISSION_VERSION,
+            quizId,
+            answers: Object.entries(answers).map(([questionId, answer]) => ({ questionId, answer })),
+            timeSpent,
+        };
+
+        return this.request('submitQuiz', { body: submission });
+    }
+
+    // A quiz with its answer key as a file to save: a QTI 2.1 package, Moodle GIFT or JSON
+    async exportQuiz(quizId: string, format: QuizExportFormat): Promise<{ fileName: string; blob: Blob }> {
+        const path = apiContract.exportQuiz.path.replace(':quizId', encodeURIComponent(quizId));
+        const response = await fetch(`${this.baseUrl}${path}?${new URLSearchParams({ format })}`, {
+            headers: this.headers(),
         });
-        return data;
+
+        if (!response.ok) {
+            throw await this.toAPIError(response);
+        }
+
+        const disposition = response.headers.get('Content-Disposition') ?? '';
+        return {
+            fileName: disposition.match(/filename="([^"]+)"/)?.[1] ?? `quiz.${format === 'qti' ? 'zip' : format === 'gift' ? 'txt' : 'json'}`,
+            blob: await response.blob(),
+        };
     }
 
-    async getQuizResults(userId: string): Promise<QuizResult[]> {
-        const data = await this.request<{ results: QuizResult[] }>(
-            `/api/quiz/results?userId=${userId}`
-        );
+    async getQuizResults(): Promise<QuizResult[]> {
+        const data = await this.request('quizResults');
         return data.results;
     }
 
+    // Flashcard endpoints
+    // Soonest due first; `due` keeps only the cards due now
+    async listFlashcards(filters: { topic?: string; due?: boolean } = {}): Promise<Flashcard[]> {
+        const query: Record<string, string> = {};
+        if (filters.topic !== undefined) {
+            query.topic = filters.topic;
+        }
+        if (filters.due !== undefined) {
+            query.due = String(filters.due);
+        }
+
+        const data = await this.request('listFlashcards', { query });
+        return data.cards;
+    }
+
+    async createFlashcard(front: string, back: string, topic: string): Promise<Flashcard> {
+        const data = await this.request('createFlashcard', {
+            body: { front, back, topic },
+        });
+        return data.card;
+    }
+
+    // Draft new cards from a session's chat or from quiz questions answered wrong
+    async generateFlashcards(request: ApiRequest<'generateFlashcards'>): Promise<Flashcard[]> {
+        const data = await this.request('generateFlashcards', {
+            body: request,
+        });
+        return data.cards;
+    }
+
+    async updateFlashcard(cardId: string, changes: ApiRequest<'updateFlashcard'>): Promise<Flashcard> {
+        const data = await this.request('updateFlashcard', {
+            params: { cardId },
+            body: changes,
+        });
+        return data.card;
+    }
+
+    async deleteFlashcard(cardId: string): Promise<void> {
+        await this.request('deleteFlashcard', {
+            params: { cardId },
+        });
+    }
+
+    async reviewFlashcard(cardId: string, rating: FlashcardRating): Promise<Flashcard> {
+        const data = await this.request('reviewFlashcard', {
+            params: { cardId },
+            body: { rating },
+        });
+        return data.card;
+    }
+
+    // The deck and/or the questions of submitted quizzes as a file to save: Anki notes or CSV
+    async exportFlashcards(
+        format: CardFileFormat,
+        include: NonNullable<ApiQuery<'exportFlashcards'>['include']> = 'all'
+    ): Promise<{ fileName: string; blob: Blob }> {
+        const response = await fetch(`${this.baseUrl}${apiContract.exportFlashcards.path}?${new URLSearchParams({ format, include })}`, {
+            headers: this.headers(),
+        });
+
+        if (!response.ok) {
+            throw await this.toAPIError(response);
+        }
+
+        const disposition = response.headers.get('Content-Disposition') ?? '';
+        return {
+            fileName: disposition.match(/filename="([^"]+)"/)?.[1] ?? `flashcards.${format === 'anki' ? 'txt' : 'csv'}`,
+            blob: await response.blob(),
+        };
+    }
+
+    // Add an Anki or CSV file's cards to the deck; a dry run only reports what would be created or skipped
+    async importFlashcards(request: ApiRequest<'importFlashcards'>): Promise<ApiResponse<'importFlashcards'>> {
+        return this.request('importFlashcards', {
+            body: request,
+        });
+    }
+
     // Progress endpoints
-    async getProgress(userId: string): Promise<ProgressData> {
-        const data = await this.request<{ progress: ProgressData }>(
-            `/api/progress?userId=${userId}`
-        );
+    async getProgress(): Promise<ProgressData> {
+        const data = await this.request('progress');
         return data.progress;
     }
 
-    async getTopicProgress(userId: string): Promise<TopicProgress[]> {
-        const data = await this.request<{ topics: TopicProgress[] }>(
-            `/api/progress/topics?userId=${userId}`
-        );
+    async getTopicProgress(): Promise<TopicProgress[]> {
+        const data = await this.request('topicProgress');
         return data.topics;
     }
 
-    // Helper method to generate mock questions (for demo purposes)
-    private generateMockQuestions(topic: string, count: number): Question[] {
-        const questions: Question[] = [];
+    // Review endpoints
+    async getDueReviews(): Promise<SpacedRepetitionItem[]> {
+        const data = await this.request('dueReviews');
+        return data.items;
+    }
 
-        for (let i = 0; i < count; i++) {
-            questions.push({
-                id: `q${i + 1}`,
-                question: `Question ${i + 1} about ${topic}?`,
-                type: i % 3 === 0 ? 'multiple-choice' : i % 3 === 1 ? 'true-false' : 'short-answer',
-                options: i % 3 === 0 ? ['Option A', 'Option B', 'Option C', 'Option D'] : undefined,
-                correctAnswer: i % 3 === 0 ? 'Option A' : i % 3 === 1 ? 'True' : 'Sample answer',
-                explanation: `This is the explanation for question ${i + 1}.`,
-                points: 10,
-            });
-        }
+    // Settings endpoints
+    async getSettings(): Promise<UserSettings> {
+        const data = await this.request('settings');
+        return data.settings;
+    }
 
-        return questions;
+    async updateSettings(updates: Partial<UserSettings>): Promise<UserSettings> {
+        const data = await this.request('updateSettings', {
+            body: updates,
+        });
+        return data.settings;
     }
 }
 
-export const apiClient = new APIClient(API_URL);
\ No newline at end of file
+export const apiClient = new APIClient(API_URL);
+
+export { CARD_FILE_FORMATS, DEFAULT_TUTOR_MODE, DIFFICULTIES, EXPORT_FORMATS, FLASHCARD_RATINGS, MAX_STREAK_FREEZE_DAYS, QUIZ_EXPORT_FORMATS, TUTOR_MODES } from '../../../src/shared/models';
+export { activeMinutes } from '../../../src/shared/sessionTime';
+
+export type {
+    ActivityRecord,
+    AuthUser,
+    CardFileFormat,
+    CardImportRow,
+    ChatMessage,
+    Difficulty,
+    ExportFormat,
+    Flashcard,
+    FlashcardRating,
+    GradedQuizResult,
+    LinkedQuiz,
+    ProgressData,
+    PublicQuiz,
+    PublicQuizQuestion,
+    QuizExportFormat,
+    QuizResult,
+    QuizReviewItem,
+    SearchResult,
+    SearchSnippetPart,
+    SessionEndReason,
+    SessionHistoryEntry,
+    SessionSummary,
+    SpacedRepetitionItem,
+    StudySession,
+    TopicProgress,
+    TutorMode,
+    UserSettings,
+} from '../../../src/shared/models';
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { apiClient, APIError } from '../api/client';
+import type { AuthUser } from '../api/client';
+
+interface AuthScreenProps {
+    onAuthenticated: (user: AuthUser) => void;
+}
+
+export default function AuthScreen({ onAuthenticated }: AuthScreenProps) {
+    const [mode, setMode] = useState<'signin' | 'signup'>('signin');
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState('');
+    const [loading, setLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setLoading(true);
+
+        try {
+            const user = mode === 'signin'
+                ? await apiClient.signIn(email, password)
+                : await apiClient.signUp(email, password);
+            onAuthenticated(user);
+        } catch (err) {
+            console.error('Authentication failed:', err);
+            setError(err instanceof APIError ? err.message : 'Something went wrong. Please try again.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const switchMode = () => {
+        setMode(mode === 'signin' ? 'signup' : 'signin');
+        setError('');
+    };
+
+    return (
+        <div className="h-screen flex items-center justify-center p-4 bg-white dark:bg-gray-900">
+            <div className="w-full max-w-md">
+                <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-2 text-center">
+                    AI Study Buddy
+                </h1>
+                <p className="text-gray-600 dark:text-gray-400 mb-8 text-center">
+                    {mode === 'signin' ? 'Sign in to continue studying' : 'Create an account to get started'}
+                </p>
+
+                <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 p-8">
+                    <form onSubmit={handleSubmit} className="space-y-6">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                                Email
+                            </label>
+                            <input
+                                type="email"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                autoComplete="email"
+                                className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                required
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                                Password
+                            </label>
+                            <input
+                                type="password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
+                                minLength={mode === 'signup' ? 8 : undefined}
+                                className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                required
+                            />
+                            {mode === 'signup' && (
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">At least 8 characters</p>
+                            )}
+                        </div>
+
+                        {error && (
+                            <p className="text-sm text-red-600">{error}</p>
+                        )}
+
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="w-full px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors disabled:bg-gray-400 flex items-center justify-center"
+                        >
+                            {loading ? (
+                                <Loader2 className="w-5 h-5 animate-spin" />
+                            ) : mode === 'signin' ? 'Sign In' : 'Create Account'}
+                        </button>
+                    </form>
+
+                    <button
+                        onClick={switchMode}
+                        className="mt-6 w-full text-sm text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100"
+                    >
+                        {mode === 'signin' ? "Don't have an account? Sign up" : 'Already have an account? Sign in'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
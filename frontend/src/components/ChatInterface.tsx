@@ -1,84 +1,200 @@
 import { useState, useEffect, useRef } from 'react';
-import { Send, Bot, User, Loader2 } from 'lucide-react';
-import ReactMarkdown from 'react-markdown';
-import { apiClient } from '../api/client';
-
-interface Message {
-    role: 'user' | 'assistant';
-    content: string;
-    timestamp: number;
-}
+import { Send, Square, Bot, User, Loader2, Pencil, RefreshCw, ChevronLeft, ChevronRight } from 'lucide-react';
+import Markdown from './Markdown';
+import { apiClient, DEFAULT_TUTOR_MODE } from '../api/client';
+import type { ChatMessage, TutorMode } from '../api/client';
+import TutorModePicker from './TutorModePicker';
+
+// How long a message opened from search stays highlighted
+const FOCUS_HIGHLIGHT_MS = 3000;
 
 interface ChatInterfaceProps {
     sessionId: string;
-    userId: string;
+    mode?: TutorMode; // the session's tutor mode when the chat opens
+    readOnly?: boolean; // a finished session: show the transcript without the input
+    focusMessageId?: number; // open the chat scrolled to this message, e.g. a search result
 }
 
-export default function ChatInterface({ sessionId, userId }: ChatInterfaceProps) {
-    const [messages, setMessages] = useState<Message[]>([]);
+export default function ChatInterface({ sessionId, mode: initialMode, readOnly = false, focusMessageId }: ChatInterfaceProps) {
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [mode, setMode] = useState<TutorMode>(initialMode ?? DEFAULT_TUTOR_MODE);
+    const [editing, setEditing] = useState<{ id: number; content: string } | null>(null);
     const [input, setInput] = useState('');
     const [loading, setLoading] = useState(false);
+    const [highlightedId, setHighlightedId] = useState<number | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const scrollTargetRef = useRef<number | null>(null); // message to scroll to instead of the bottom
 
     useEffect(() => {
-        loadChatHistory();
+        setEditing(null);
+        return () => abortRef.current?.abort();
     }, [sessionId]);
 
     useEffect(() => {
-        scrollToBottom();
+        loadChatHistory(focusMessageId);
+    }, [sessionId, focusMessageId]);
+
+    useEffect(() => {
+        if (highlightedId === null) return;
+        const timer = setTimeout(() => setHighlightedId(null), FOCUS_HIGHLIGHT_MS);
+        return () => clearTimeout(timer);
+    }, [highlightedId]);
+
+    useEffect(() => {
+        setMode(initialMode ?? DEFAULT_TUTOR_MODE);
+    }, [sessionId, initialMode]);
+
+    useEffect(() => {
+        const target = scrollTargetRef.current;
+        scrollTargetRef.current = null;
+
+        if (target !== null) {
+            document.getElementById(`message-${target}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        } else {
+            scrollToBottom();
+        }
     }, [messages]);
 
     const scrollToBottom = () => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     };
 
-    const loadChatHistory = async () => {
+    // With `focusId`, switch to the branch holding that message if it isn't
+    // the one shown, then scroll to it and highlight it
+    const loadChatHistory = async (focusId?: number) => {
         try {
-            const history = await apiClient.getChatHistory(sessionId, userId);
+            let history = await apiClient.getChatHistory(sessionId);
+            if (focusId !== undefined && !history.some(m => m.id === focusId)) {
+                history = await apiClient.switchChatBranch(sessionId, focusId);
+            }
+
+            if (focusId !== undefined) {
+                scrollTargetRef.current = focusId;
+                setHighlightedId(focusId);
+            }
             setMessages(history);
         } catch (error) {
             console.error('Failed to load chat history:', error);
         }
     };
 
+    /**
+     * Show `shown` plus a reply that fills in as tokens arrive. Once the reply
+     * is complete the history is reloaded, which brings the stored message ids
+     * and variants.
+     */
+    const streamReply = async (
+        shown: ChatMessage[],
+        request: (onToken: (token: string) => void, signal: AbortSignal) => Promise<string>
+    ) => {
+        setLoading(true);
+
+        // Placeholder reply that fills in as tokens arrive
+        const replyTimestamp = Date.now();
+        setMessages([...shown, { role: 'assistant', content: '', timestamp: replyTimestamp }]);
+
+        const updateReply = (update: (reply: ChatMessage) => ChatMessage) => {
+            setMessages(prev => prev.map(m =>
+                m.role === 'assistant' && m.timestamp === replyTimestamp ? update(m) : m
+            ));
+        };
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+        let completed = false;
+
+        try {
+            await request(
+                token => updateReply(reply => ({ ...reply, content: reply.content + token })),
+                controller.signal
+            );
+            completed = true;
+        } catch (error) {
+            if (controller.signal.aborted) {
+                updateReply(reply => ({ ...reply, interrupted: true }));
+            } else {
+                console.error('Failed to send message:', error);
+                updateReply(reply => ({
+                    ...reply,
+                    content: reply.content || 'Sorry, I encountered an error. Please try again.',
+                    interrupted: reply.content.length > 0,
+                }));
+            }
+        } finally {
+            abortRef.current = null;
+            // Drop the placeholder if nothing was generated before stopping
+            setMessages(prev => prev.filter(m =>
+                !(m.role === 'assistant' && m.timestamp === replyTimestamp && m.content === '')
+            ));
+            setLoading(false);
+        }
+
+        if (completed) {
+            await loadChatHistory();
+        }
+    };
+
     const sendMessage = async () => {
         if (!input.trim() || loading) return;
 
         const userMessage = input.trim();
         setInput('');
-        setLoading(true);
 
         // Add user message immediately
-        const newMessage: Message = {
+        const newMessage: ChatMessage = {
             role: 'user',
             content: userMessage,
             timestamp: Date.now(),
         };
-        setMessages(prev => [...prev, newMessage]);
 
+        await streamReply([...messages, newMessage], (onToken, signal) =>
+            apiClient.streamChatMessage(userMessage, sessionId, onToken, { signal, mode })
+        );
+    };
+
+    // Ask again for the last reply; the old one stays as a variant
+    const regenerate = async () => {
+        if (loading) return;
+
+        const lastQuestion = messages.map(m => m.role).lastIndexOf('user');
+        await streamReply(messages.slice(0, lastQuestion + 1), (onToken, signal) =>
+            apiClient.regenerateReply(sessionId, onToken, { signal, mode })
+        );
+    };
+
+    // Send a rewritten question in place of an earlier one, branching from there
+    const submitEdit = async () => {
+        if (!editing || !editing.content.trim() || loading) return;
+
+        const { id, content } = editing;
+        const index = messages.findIndex(m => m.id === id);
+        setEditing(null);
+
+        const edited: ChatMessage = { role: 'user', content: content.trim(), timestamp: Date.now() };
+        await streamReply([...messages.slice(0, index), edited], (onToken, signal) =>
+            apiClient.streamChatMessage(edited.content, sessionId, onToken, { signal, mode, editOf: id })
+        );
+    };
+
+    const startEdit = (message: ChatMessage) => {
+        if (message.id !== undefined) {
+            setEditing({ id: message.id, content: message.content });
+        }
+    };
+
+    const switchVariant = async (messageId: number) => {
         try {
-            const response = await apiClient.sendChatMessage(userMessage, sessionId, userId);
-
-            const aiMessage: Message = {
-                role: 'assistant',
-                content: response,
-                timestamp: Date.now(),
-            };
-            setMessages(prev => [...prev, aiMessage]);
+            setMessages(await apiClient.switchChatBranch(sessionId, messageId));
         } catch (error) {
-            console.error('Failed to send message:', error);
-
-            const errorMessage: Message = {
-                role: 'assistant',
-                content: 'Sorry, I encountered an error. Please try again.',
-                timestamp: Date.now(),
-            };
-            setMessages(prev => [...prev, errorMessage]);
-        } finally {
-            setLoading(false);
+            console.error('Failed to switch branch:', error);
         }
     };
 
+    const stopStreaming = () => {
+        abortRef.current?.abort();
+    };
+
     const handleKeyPress = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault();
@@ -89,16 +205,37 @@ export default function ChatInterface({ sessionId, userId }: ChatInterfaceProps)
     return (
         <div className="bg-white rounded-xl shadow-lg h-[calc(100vh-300px)] flex flex-col">
             {/* Chat Header */}
-            <div className="px-6 py-4 border-b border-gray-200">
-                <h2 className="text-lg font-semibold text-gray-900">Study Chat</h2>
-                <p className="text-sm text-gray-500 mt-1">
-                    Ask questions, request explanations, or discuss concepts
-                </p>
+            <div className="px-6 py-4 border-b border-gray-200 flex items-start justify-between gap-4">
+                <div>
+                    <h2 className="text-lg font-semibold text-gray-900">Study Chat</h2>
+                    <p className="text-sm text-gray-500 mt-1">
+                        {readOnly
+                            ? 'This session has ended; its conversation is read-only'
+                            : 'Ask questions, request explanations, or discuss concepts'}
+                    </p>
+                </div>
+                {!readOnly && (
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                        Tutor mode
+                        <TutorModePicker
+                            value={mode}
+                            onChange={setMode}
+                            disabled={loading}
+                            className="px-3 py-1.5 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-indigo-500"
+                        />
+                    </label>
+                )}
             </div>
 
             {/* Messages Area */}
             <div className="flex-1 overflow-y-auto p-6 space-y-4">
-                {messages.length === 0 && (
+                {messages.length === 0 && readOnly && (
+                    <div className="text-center py-12">
+                        <p className="text-gray-500 text-lg">No messages in this session</p>
+                    </div>
+                )}
+
+                {messages.length === 0 && !readOnly && (
                     <div className="text-center py-12">
                         <Bot className="w-16 h-16 text-gray-300 mx-auto mb-4" />
                         <p className="text-gray-500 text-lg">Start the conversation!</p>
@@ -111,6 +248,7 @@ export default function ChatInterface({ sessionId, userId }: ChatInterfaceProps)
                 {messages.map((message, index) => (
                     <div
                         key={index}
+                        id={message.id !== undefined ? `message-${message.id}` : undefined}
                         className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
                     >
                         <div
@@ -130,26 +268,87 @@ export default function ChatInterface({ sessionId, userId }: ChatInterfaceProps)
                                 )}
                             </div>
 
-                            <div
-                                className={`rounded-lg px-4 py-3 ${
-                                    message.role === 'user'
-                                        ? 'bg-indigo-600 text-white'
-                                        : 'bg-gray-100 text-gray-900'
-                                }`}
-                            >
-                                {message.role === 'assistant' ? (
-                                    <div className="prose prose-sm max-w-none">
-                                        <ReactMarkdown>{message.content}</ReactMarkdown>
+                            <div className={`flex flex-col ${message.role === 'user' ? 'items-end' : 'items-start'}`}>
+                                {editing && editing.id === message.id ? (
+                                    <div className="w-full min-w-[20rem] space-y-2">
+                                        <textarea
+                                            value={editing.content}
+                                            onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+                                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none"
+                                            rows={3}
+                                            autoFocus
+                                        />
+                                        <div className="flex justify-end gap-2">
+                                            <button
+                                                onClick={() => setEditing(null)}
+                                                className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900"
+                                            >
+                                                Cancel
+                                            </button>
+                                            <button
+                                                onClick={submitEdit}
+                                                disabled={!editing.content.trim()}
+                                                className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                                            >
+                                                Send
+                                            </button>
+                                        </div>
                                     </div>
                                 ) : (
-                                    <p className="whitespace-pre-wrap">{message.content}</p>
+                                    <div
+                                        className={`rounded-lg px-4 py-3 transition-shadow ${
+                                            message.role === 'user'
+                                                ? 'bg-indigo-600 text-white'
+                                                : 'bg-gray-100 text-gray-900'
+                                        } ${message.id === highlightedId ? 'ring-4 ring-yellow-300' : ''}`}
+                                    >
+                                        {message.role === 'assistant' ? (
+                                            <div>
+                                                <Markdown>{message.content}</Markdown>
+                                                {message.interrupted && (
+                                                    <p className="text-xs text-gray-500 italic">Response stopped</p>
+                                                )}
+                                            </div>
+                                        ) : (
+                                            <p className="whitespace-pre-wrap">{message.content}</p>
+                                        )}
+                                    </div>
                                 )}
+
+                                <div className="flex items-center gap-3 mt-1 text-xs text-gray-500">
+                                    {message.variants && message.id !== undefined && (
+                                        <VariantSwitcher
+                                            variants={message.variants}
+                                            current={message.id}
+                                            disabled={loading}
+                                            onSwitch={switchVariant}
+                                        />
+                                    )}
+                                    {!readOnly && !loading && !editing && message.role === 'user' && message.id !== undefined && (
+                                        <button
+                                            onClick={() => startEdit(message)}
+                                            title="Edit and resend this question"
+                                            className="flex items-center gap-1 hover:text-gray-800"
+                                        >
+                                            <Pencil className="w-3 h-3" /> Edit
+                                        </button>
+                                    )}
+                                    {!readOnly && !loading && message.role === 'assistant' && index === messages.length - 1 && (
+                                        <button
+                                            onClick={regenerate}
+                                            title="Get a different answer"
+                                            className="flex items-center gap-1 hover:text-gray-800"
+                                        >
+                                            <RefreshCw className="w-3 h-3" /> Regenerate
+                                        </button>
+                                    )}
+                                </div>
                             </div>
                         </div>
                     </div>
                 ))}
 
-                {loading && (
+                {loading && messages[messages.length - 1]?.content === '' && (
                     <div className="flex justify-start">
                         <div className="flex items-start space-x-3 max-w-3xl">
                             <div className="flex-shrink-0 w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center">
@@ -166,29 +365,73 @@ export default function ChatInterface({ sessionId, userId }: ChatInterfaceProps)
             </div>
 
             {/* Input Area */}
-            <div className="px-6 py-4 border-t border-gray-200">
-                <div className="flex space-x-3">
-    <textarea
-        value={input}
-        onChange={(e) => setInput(e.target.value)}
-        onKeyPress={handleKeyPress}
-        placeholder="Ask a question or request an explanation..."
-        className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none"
-        rows={2}
-        disabled={loading}
-    />
-                    <button
-                        onClick={sendMessage}
-                        disabled={!input.trim() || loading}
-                        className="px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
-                    >
-                        <Send className="w-5 h-5" />
-                    </button>
+            {!readOnly && (
+                <div className="px-6 py-4 border-t border-gray-200">
+                    <div className="flex space-x-3">
+        <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyPress={handleKeyPress}
+            placeholder="Ask a question or request an explanation..."
+            className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none"
+            rows={2}
+            disabled={loading}
+        />
+                        {loading ? (
+                            <button
+                                onClick={stopStreaming}
+                                title="Stop generating"
+                                className="px-6 py-3 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors"
+                            >
+                                <Square className="w-5 h-5" />
+                            </button>
+                        ) : (
+                            <button
+                                onClick={sendMessage}
+                                disabled={!input.trim()}
+                                className="px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+                            >
+                                <Send className="w-5 h-5" />
+                            </button>
+                        )}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">
+                        Press Enter to send, Shift+Enter for new line
+                    </p>
                 </div>
-                <p className="text-xs text-gray-500 mt-2">
-                    Press Enter to send, Shift+Enter for new line
-                </p>
-            </div>
+            )}
+        </div>
+    );
+}
+
+// "‹ 2 / 3 ›" for flipping between versions of a turn
+function VariantSwitcher({ variants, current, disabled, onSwitch }: {
+    variants: number[];
+    current: number;
+    disabled: boolean;
+    onSwitch: (messageId: number) => void;
+}) {
+    const index = variants.indexOf(current);
+
+    return (
+        <div className="flex items-center gap-1">
+            <button
+                onClick={() => onSwitch(variants[index - 1])}
+                disabled={disabled || index <= 0}
+                title="Previous version"
+                className="hover:text-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+                <ChevronLeft className="w-3 h-3" />
+            </button>
+            <span>{index + 1} / {variants.length}</span>
+            <button
+                onClick={() => onSwitch(variants[index + 1])}
+                disabled={disabled || index >= variants.length - 1}
+                title="Next version"
+                className="hover:text-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+                <ChevronRight className="w-3 h-3" />
+            </button>
         </div>
     );
-}
\ No newline at end of file
+}
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+
+export type ExportFormatLabels<F extends string> = Record<F, { label: string; description: string }>;
+
+interface ExportMenuProps<F extends string> {
+    formats: ExportFormatLabels<F>; // menu entries, in order
+    subject: string; // what is exported, for the error message
+    onExport: (format: F) => Promise<{ fileName: string; blob: Blob }>;
+}
+
+/** Export button with a menu of file formats; the chosen file downloads straight away */
+export default function ExportMenu<F extends string>({ formats, subject, onExport }: ExportMenuProps<F>) {
+    const [open, setOpen] = useState(false);
+    const [exporting, setExporting] = useState<F | null>(null);
+
+    const download = async (format: F) => {
+        setOpen(false);
+        setExporting(format);
+        try {
+            const { fileName, blob } = await onExport(format);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = fileName;
+            link.click();
+            setTimeout(() => URL.revokeObjectURL(url), 0);
+        } catch (error) {
+            console.error(`Failed to export ${subject}:`, error);
+            alert(`Failed to export ${subject}. Please try again.`);
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setOpen(!open)}
+                disabled={exporting !== null}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors disabled:opacity-60"
+            >
+                {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                Export
+            </button>
+
+            {open && (
+                <>
+                    {/* Clicking anywhere else closes the menu */}
+                    <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+                    <div className="absolute right-0 mt-2 w-64 z-20 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg py-1">
+                        {(Object.keys(formats) as F[]).map(format => (
+                            <button
+                                key={format}
+                                onClick={() => download(format)}
+                                className="w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700"
+                            >
+                                <div className="text-sm text-gray-900 dark:text-white">{formats[format].label}</div>
+                                <div className="text-xs text-gray-500 dark:text-gray-400">{formats[format].description}</div>
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
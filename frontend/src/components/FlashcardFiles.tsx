@@ -0,0 +1,248 @@
+import { useState, useRef } from 'react';
+import { Download, Loader2, Upload } from 'lucide-react';
+import { apiClient, APIError, CARD_FILE_FORMATS } from '../api/client';
+import type { CardFileFormat, CardImportRow } from '../api/client';
+
+const FORMAT_LABELS: Record<CardFileFormat, { label: string; description: string }> = {
+    anki: { label: 'Anki', description: 'Notes for File > Import in Anki, topics as tags' },
+    csv: { label: 'CSV', description: 'Front, back, topic and tags columns' },
+};
+
+interface ImportFile {
+    name: string;
+    format: CardFileFormat;
+    content: string;
+}
+
+interface ImportPreview {
+    created: number;
+    skipped: number;
+    rows: CardImportRow[];
+}
+
+interface FlashcardFilesProps {
+    topic: string; // suggested for rows of an imported file that name none
+    onImported: () => void;
+}
+
+/**
+ * Export and Import buttons for the deck. An export holds the cards and the
+ * questions of submitted quizzes; an import is previewed first, with a
+ * chance to file the file's topics under other names.
+ */
+export default function FlashcardFiles({ topic, onImported }: FlashcardFilesProps) {
+    const [menuOpen, setMenuOpen] = useState(false);
+    const [exporting, setExporting] = useState<CardFileFormat | null>(null);
+    const [file, setFile] = useState<ImportFile | null>(null);
+    const [defaultTopic, setDefaultTopic] = useState(topic);
+    const [topicMap, setTopicMap] = useState<Record<string, string>>({});
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
+    const [stale, setStale] = useState(false); // topics changed since the preview
+    const [busy, setBusy] = useState(false);
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    const download = async (format: CardFileFormat) => {
+        setMenuOpen(false);
+        setExporting(format);
+        try {
+            const { fileName, blob } = await apiClient.exportFlashcards(format);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = fileName;
+            link.click();
+            setTimeout(() => URL.revokeObjectURL(url), 0);
+        } catch (error) {
+            console.error('Failed to export flashcards:', error);
+            alert('Failed to export flashcards. Please try again.');
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    const runImport = async (target: ImportFile, dryRun: boolean, map = topicMap) => {
+        setBusy(true);
+        try {
+            const result = await apiClient.importFlashcards({
+                format: target.format,
+                content: target.content,
+                topic: defaultTopic.trim() || undefined,
+                topicMap: Object.fromEntries(
+                    Object.entries(map).filter(([from, to]) => to.trim() && to.trim() !== from)
+                ),
+                dryRun,
+            });
+
+            if (dryRun) {
+                setPreview(result);
+                setStale(false);
+            } else {
+                closeImport();
+                alert(`Imported ${result.created} ${result.created === 1 ? 'card' : 'cards'}`);
+                onImported();
+            }
+        } catch (error) {
+            console.error('Failed to import flashcards:', error);
+            alert(error instanceof APIError ? error.message : 'Failed to import flashcards. Please try again.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const chooseFile = async (chosen: File | undefined) => {
+        if (!chosen) return;
+
+        const target: ImportFile = {
+            name: chosen.name,
+            format: chosen.name.toLowerCase().endsWith('.csv') ? 'csv' : 'anki',
+            content: await chosen.text(),
+        };
+        setFile(target);
+        setTopicMap({});
+        setPreview(null);
+        await runImport(target, true, {});
+    };
+
+    const closeImport = () => {
+        setFile(null);
+        setPreview(null);
+        if (fileInput.current) {
+            fileInput.current.value = '';
+        }
+    };
+
+    const fileTopics = preview
+        ? [...new Set(preview.rows.flatMap(row => row.fileTopic ? [row.fileTopic] : []))]
+        : [];
+    const hasUntopicedRows = preview?.rows.some(row => !row.fileTopic) ?? false;
+
+    return (
+        <>
+            <div className="relative">
+                <button
+                    onClick={() => setMenuOpen(!menuOpen)}
+                    disabled={exporting !== null}
+                    className="flex items-center gap-2 px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                >
+                    {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                    Export
+                </button>
+
+                {menuOpen && (
+                    <>
+                        {/* Clicking anywhere else closes the menu */}
+                        <div className="fixed inset-0 z-10" onClick={() => setMenuOpen(false)} />
+                        <div className="absolute left-0 mt-2 w-72 z-20 bg-white border border-gray-200 rounded-lg shadow-lg py-1">
+                            {CARD_FILE_FORMATS.map(format => (
+                                <button
+                                    key={format}
+                                    onClick={() => download(format)}
+                                    className="w-full text-left px-4 py-2 hover:bg-gray-100"
+                                >
+                                    <div className="text-sm text-gray-900">{FORMAT_LABELS[format].label}</div>
+                                    <div className="text-xs text-gray-500">{FORMAT_LABELS[format].description}</div>
+                                </button>
+                            ))}
+                        </div>
+                    </>
+                )}
+            </div>
+
+            <button
+                onClick={() => fileInput.current?.click()}
+                disabled={busy}
+                title="Add cards from an Anki text export or a CSV file"
+                className="flex items-center gap-2 px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+                {busy && !preview ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                Import
+            </button>
+            <input
+                ref={fileInput}
+                type="file"
+                accept=".txt,.tsv,.csv,text/plain,text/csv,text/tab-separated-values"
+                onChange={(e) => chooseFile(e.target.files?.[0])}
+                className="hidden"
+            />
+
+            {file && preview && (
+                <div className="w-full border border-gray-200 rounded-lg p-4 space-y-4">
+                    <div className="flex justify-between items-baseline gap-4">
+                        <h3 className="font-medium text-gray-900 truncate">Import {file.name}</h3>
+                        <span className="text-sm text-gray-600 whitespace-nowrap">
+                            {preview.created} to add, {preview.skipped} to skip
+                        </span>
+                    </div>
+
+                    {(fileTopics.length > 0 || hasUntopicedRows) && (
+                        <div className="space-y-2">
+                            <div className="text-xs font-medium text-gray-500 uppercase">Topics</div>
+                            {fileTopics.map(fileTopic => (
+                                <label key={fileTopic} className="flex items-center gap-3 text-sm">
+                                    <span className="w-1/3 truncate text-gray-700">{fileTopic}</span>
+                                    <span className="text-gray-400">→</span>
+                                    <input
+                                        type="text"
+                                        value={topicMap[fileTopic] ?? fileTopic}
+                                        onChange={(e) => {
+                                            setTopicMap({ ...topicMap, [fileTopic]: e.target.value });
+                                            setStale(true);
+                                        }}
+                                        className="flex-1 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                    />
+                                </label>
+                            ))}
+                            {hasUntopicedRows && (
+                                <label className="flex items-center gap-3 text-sm">
+                                    <span className="w-1/3 text-gray-500 italic">Rows without a topic</span>
+                                    <span className="text-gray-400">→</span>
+                                    <input
+                                        type="text"
+                                        value={defaultTopic}
+                                        onChange={(e) => {
+                                            setDefaultTopic(e.target.value);
+                                            setStale(true);
+                                        }}
+                                        placeholder="Topic"
+                                        className="flex-1 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                    />
+                                </label>
+                            )}
+                        </div>
+                    )}
+
+                    <div className="max-h-64 overflow-y-auto border-t border-gray-100">
+                        <table className="w-full text-sm">
+                            <tbody>
+                                {preview.rows.map(row => (
+                                    <tr key={row.line} className="border-b border-gray-100">
+                                        <td className="py-1.5 pr-3 text-xs text-gray-400 align-top">{row.line}</td>
+                                        <td className="py-1.5 pr-3 text-gray-800 max-w-xs truncate">{row.front || <em className="text-gray-400">empty</em>}</td>
+                                        <td className="py-1.5 pr-3 text-gray-500 whitespace-nowrap">{row.topic}</td>
+                                        <td className={`py-1.5 whitespace-nowrap ${row.action === 'create' ? 'text-green-700' : 'text-gray-500'}`}>
+                                            {row.action === 'create' ? 'Add' : `Skip: ${row.reason}`}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                        <button onClick={closeImport} className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900">
+                            Cancel
+                        </button>
+                        <button
+                            onClick={() => runImport(file, stale)}
+                            disabled={busy || (!stale && preview.created === 0)}
+                            className="flex items-center gap-2 px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                        >
+                            {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+                            {stale ? 'Update preview' : `Add ${preview.created} ${preview.created === 1 ? 'card' : 'cards'}`}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,367 @@
+import { useState, useEffect } from 'react';
+import { Layers, Loader2, MessageSquare, Pencil, Plus, Trash2, XCircle } from 'lucide-react';
+import Markdown from './Markdown';
+import FlashcardFiles from './FlashcardFiles';
+import { apiClient, FLASHCARD_RATINGS } from '../api/client';
+import type { Flashcard, FlashcardRating } from '../api/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RATING_STYLES: Record<FlashcardRating, { label: string; className: string }> = {
+    again: { label: 'Again', className: 'bg-red-600 hover:bg-red-700' },
+    hard: { label: 'Hard', className: 'bg-amber-500 hover:bg-amber-600' },
+    good: { label: 'Good', className: 'bg-green-600 hover:bg-green-700' },
+    easy: { label: 'Easy', className: 'bg-indigo-600 hover:bg-indigo-700' },
+};
+
+const SOURCE_LABELS: Record<Flashcard['source'], string> = {
+    chat: 'From chat',
+    quiz: 'From a quiz mistake',
+    manual: 'Written by you',
+    import: 'Imported',
+};
+
+interface CardFields {
+    front: string;
+    back: string;
+    topic: string;
+}
+
+interface FlashcardsViewProps {
+    sessionId?: string; // the session being shown; new cards can be drawn from it
+    topic?: string; // its topic, suggested for new cards
+}
+
+export default function FlashcardsView({ sessionId, topic = '' }: FlashcardsViewProps) {
+    const [cards, setCards] = useState<Flashcard[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [queue, setQueue] = useState<Flashcard[] | null>(null); // cards left in the review under way
+    const [flipped, setFlipped] = useState(false);
+    const [rating, setRating] = useState(false);
+    const [generating, setGenerating] = useState<'chat' | 'quiz' | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [editing, setEditing] = useState<{ id: string | null; fields: CardFields } | null>(null); // id null for a new card
+
+    useEffect(() => {
+        loadCards();
+    }, []);
+
+    const loadCards = async () => {
+        try {
+            setCards(await apiClient.listFlashcards());
+        } catch (error) {
+            console.error('Failed to load flashcards:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const now = Date.now();
+    const dueCards = cards.filter(card => card.nextReview <= now);
+
+    const startReview = () => {
+        setQueue(dueCards);
+        setFlipped(false);
+    };
+
+    // Cards marked "again" come back at the end of this review as well as tomorrow
+    const rate = async (value: FlashcardRating) => {
+        if (!queue || rating) return;
+
+        const [card, ...rest] = queue;
+        setRating(true);
+        try {
+            const reviewed = await apiClient.reviewFlashcard(card.id, value);
+            setCards(prev => prev.map(c => c.id === reviewed.id ? reviewed : c));
+            setQueue(value === 'again' ? [...rest, reviewed] : rest);
+            setFlipped(false);
+        } catch (error) {
+            console.error('Failed to save review:', error);
+            alert('Failed to save your answer. Please try again.');
+        } finally {
+            setRating(false);
+        }
+    };
+
+    const generate = async (from: 'chat' | 'quiz') => {
+        setGenerating(from);
+        setNotice(null);
+        try {
+            const created = await apiClient.generateFlashcards({ from, sessionId });
+            setNotice(created.length > 0
+                ? `Added ${created.length} ${created.length === 1 ? 'card' : 'cards'}`
+                : 'Nothing new to make cards from yet');
+            await loadCards();
+        } catch (error) {
+            console.error('Failed to generate flashcards:', error);
+            alert('Failed to generate flashcards. Please try again.');
+        } finally {
+            setGenerating(null);
+        }
+    };
+
+    const saveCard = async (id: string | null, fields: CardFields) => {
+        try {
+            if (id) {
+                const updated = await apiClient.updateFlashcard(id, fields);
+                setCards(prev => prev.map(c => c.id === id ? updated : c));
+            } else {
+                const created = await apiClient.createFlashcard(fields.front, fields.back, fields.topic);
+                setCards(prev => [created, ...prev]);
+            }
+            setEditing(null);
+        } catch (error) {
+            console.error('Failed to save flashcard:', error);
+            alert('Failed to save the card. Please try again.');
+        }
+    };
+
+    const deleteCard = async (card: Flashcard) => {
+        if (!confirm('Delete this flashcard?')) return;
+
+        try {
+            await apiClient.deleteFlashcard(card.id);
+            setCards(prev => prev.filter(c => c.id !== card.id));
+        } catch (error) {
+            console.error('Failed to delete flashcard:', error);
+        }
+    };
+
+    if (queue) {
+        const card = queue[0];
+
+        return (
+            <div className="max-w-3xl mx-auto p-6">
+                <div className="flex justify-between items-center mb-4 text-sm text-gray-600">
+                    <span>{queue.length} left in this review</span>
+                    <button onClick={() => setQueue(null)} className="hover:text-gray-900">
+                        End review
+                    </button>
+                </div>
+
+                {card ? (
+                    <div className="bg-white rounded-xl shadow-lg p-8">
+                        <div className="text-xs text-gray-500 mb-4">{card.topic}</div>
+                        <div className="text-lg text-gray-900 mb-6">
+                            <Markdown>{card.front}</Markdown>
+                        </div>
+
+                        {flipped ? (
+                            <>
+                                <div className="border-t border-gray-200 pt-6 mb-8 text-gray-800">
+                                    <Markdown>{card.back}</Markdown>
+                                </div>
+                                <div className="grid grid-cols-4 gap-3">
+                                    {FLASHCARD_RATINGS.map(value => (
+                                        <button
+                                            key={value}
+                                            onClick={() => rate(value)}
+                                            disabled={rating}
+                                            className={`px-4 py-3 text-white rounded-lg font-medium transition-colors disabled:opacity-60 ${RATING_STYLES[value].className}`}
+                                        >
+                                            {RATING_STYLES[value].label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </>
+                        ) : (
+                            <button
+                                onClick={() => setFlipped(true)}
+                                className="w-full px-6 py-4 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors"
+                            >
+                                Show answer
+                            </button>
+                        )}
+                    </div>
+                ) : (
+                    <div className="bg-white rounded-xl shadow-lg p-8 text-center">
+                        <Layers className="w-12 h-12 text-indigo-600 mx-auto mb-4" />
+                        <p className="text-lg font-medium text-gray-900 mb-6">Review finished</p>
+                        <button
+                            onClick={() => setQueue(null)}
+                            className="px-6 py-3 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors"
+                        >
+                            Back to cards
+                        </button>
+                    </div>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div className="max-w-4xl mx-auto p-6 space-y-6 overflow-y-auto h-full">
+            <div className="bg-white rounded-xl shadow-lg p-6">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                    <div>
+                        <h2 className="text-xl font-semibold text-gray-900">Flashcards</h2>
+                        <p className="text-sm text-gray-500 mt-1">
+                            {dueCards.length} of {cards.length} {cards.length === 1 ? 'card' : 'cards'} due for review
+                        </p>
+                    </div>
+                    <button
+                        onClick={startReview}
+                        disabled={dueCards.length === 0}
+                        className="px-6 py-3 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+                    >
+                        Review due cards
+                    </button>
+                </div>
+
+                <div className="flex flex-wrap gap-3 mt-6">
+                    <button
+                        onClick={() => generate('chat')}
+                        disabled={!sessionId || generating !== null}
+                        title={sessionId ? 'Draw cards from what was explained in this session' : 'Open a session to draw cards from its chat'}
+                        className="flex items-center gap-2 px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {generating === 'chat' ? <Loader2 className="w-4 h-4 animate-spin" /> : <MessageSquare className="w-4 h-4" />}
+                        From this chat
+                    </button>
+                    <button
+                        onClick={() => generate('quiz')}
+                        disabled={generating !== null}
+                        title={sessionId ? "Cards for the questions you missed in this session's quizzes" : 'Cards for quiz questions you missed'}
+                        className="flex items-center gap-2 px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {generating === 'quiz' ? <Loader2 className="w-4 h-4 animate-spin" /> : <XCircle className="w-4 h-4" />}
+                        From quiz mistakes
+                    </button>
+                    <button
+                        onClick={() => setEditing({ id: null, fields: { front: '', back: '', topic } })}
+                        className="flex items-center gap-2 px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                        <Plus className="w-4 h-4" />
+                        New card
+                    </button>
+                    <FlashcardFiles topic={topic} onImported={loadCards} />
+                </div>
+                {notice && <p className="text-sm text-gray-600 mt-3">{notice}</p>}
+            </div>
+
+            {editing && editing.id === null && (
+                <CardForm
+                    initial={editing.fields}
+                    onSave={fields => saveCard(null, fields)}
+                    onCancel={() => setEditing(null)}
+                />
+            )}
+
+            {loading ? (
+                <div className="flex justify-center py-12">
+                    <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+                </div>
+            ) : cards.length === 0 ? (
+                <div className="text-center py-12 text-gray-500">
+                    No flashcards yet. Draw some from a chat or your quiz mistakes, or write your own.
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {cards.map(card => editing && editing.id === card.id ? (
+                        <CardForm
+                            key={card.id}
+                            initial={editing.fields}
+                            onSave={fields => saveCard(card.id, fields)}
+                            onCancel={() => setEditing(null)}
+                        />
+                    ) : (
+                        <div key={card.id} className="bg-white rounded-lg shadow p-4 flex gap-4">
+                            <div className="flex-1 min-w-0">
+                                <div className="text-gray-900">
+                                    <Markdown>{card.front}</Markdown>
+                                </div>
+                                <div className="text-sm text-gray-600 mt-1">
+                                    <Markdown>{card.back}</Markdown>
+                                </div>
+                                <div className="text-xs text-gray-400 mt-2">
+                                    {card.topic} · {SOURCE_LABELS[card.source]} · {dueLabel(card.nextReview, now)}
+                                </div>
+                            </div>
+                            <div className="flex items-start gap-1">
+                                <button
+                                    onClick={() => setEditing({ id: card.id, fields: { front: card.front, back: card.back, topic: card.topic } })}
+                                    title="Edit card"
+                                    className="p-2 text-gray-400 hover:text-gray-700"
+                                >
+                                    <Pencil className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => deleteCard(card)}
+                                    title="Delete card"
+                                    className="p-2 text-gray-400 hover:text-red-600"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function dueLabel(nextReview: number, now: number): string {
+    if (nextReview <= now) {
+        return 'Due now';
+    }
+    const days = Math.ceil((nextReview - now) / DAY_MS);
+    return days === 1 ? 'Due tomorrow' : `Due in ${days} days`;
+}
+
+// Front, back and topic of a new or edited card
+function CardForm({ initial, onSave, onCancel }: {
+    initial: CardFields;
+    onSave: (fields: CardFields) => Promise<void>;
+    onCancel: () => void;
+}) {
+    const [fields, setFields] = useState(initial);
+    const [saving, setSaving] = useState(false);
+    const complete = fields.front.trim() && fields.back.trim() && fields.topic.trim();
+
+    const save = async () => {
+        if (!complete || saving) return;
+        setSaving(true);
+        await onSave({ front: fields.front.trim(), back: fields.back.trim(), topic: fields.topic.trim() });
+        setSaving(false);
+    };
+
+    return (
+        <div className="bg-white rounded-lg shadow p-4 space-y-3">
+            <textarea
+                value={fields.front}
+                onChange={(e) => setFields({ ...fields, front: e.target.value })}
+                placeholder="Front: a question or prompt"
+                rows={2}
+                autoFocus
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none"
+            />
+            <textarea
+                value={fields.back}
+                onChange={(e) => setFields({ ...fields, back: e.target.value })}
+                placeholder="Back: the answer"
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none"
+            />
+            <input
+                type="text"
+                value={fields.topic}
+                onChange={(e) => setFields({ ...fields, topic: e.target.value })}
+                placeholder="Topic"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+            <div className="flex justify-end gap-2">
+                <button onClick={onCancel} className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900">
+                    Cancel
+                </button>
+                <button
+                    onClick={save}
+                    disabled={!complete || saving}
+                    className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                >
+                    Save
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,108 @@
+import { useRef, useState } from 'react';
+import type { ComponentPropsWithoutRef } from 'react';
+import { Check, Copy } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import type { Components, Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github-dark.css';
+
+// The default schema, plus the classes remark-math marks formulas with.
+// Sanitizing runs before KaTeX and highlighting, so only the model's text is
+// filtered and not the markup those generate.
+const sanitizeSchema = {
+    ...defaultSchema,
+    attributes: {
+        ...defaultSchema.attributes,
+        code: [['className', /^language-./, 'math-inline', 'math-display']],
+    },
+};
+
+const remarkPlugins: Options['remarkPlugins'] = [remarkGfm, remarkMath];
+const rehypePlugins: Options['rehypePlugins'] = [[rehypeSanitize, sanitizeSchema], rehypeKatex, rehypeHighlight];
+
+/**
+ * Rewrite LaTeX's \( \) and \[ \] delimiters, which models often use, as
+ * the $ and $$ remark-math understands. Code is left alone.
+ */
+function normalizeMath(text: string): string {
+    return text
+        .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+        .map((part, index) => index % 2 === 1 ? part : part
+            .replace(/\\\[([\s\S]+?)\\\]/g, (_, math: string) => `\n$$\n${math.trim()}\n$$\n`)
+            .replace(/\\\((.+?)\\\)/g, (_, math: string) => `$${math.trim()}$`))
+        .join('');
+}
+
+// Fenced code with a button that copies it
+function CodeBlock({ className, children }: ComponentPropsWithoutRef<'pre'>) {
+    const preRef = useRef<HTMLPreElement>(null);
+    const [copied, setCopied] = useState(false);
+
+    const copy = async () => {
+        try {
+            await navigator.clipboard.writeText(preRef.current?.textContent ?? '');
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (error) {
+            console.error('Failed to copy code:', error);
+        }
+    };
+
+    return (
+        <div className="relative group">
+            <pre ref={preRef} className={className}>{children}</pre>
+            <button
+                onClick={copy}
+                title={copied ? 'Copied' : 'Copy code'}
+                className="absolute top-2 right-2 p-1.5 rounded-md bg-white/10 text-gray-300 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-white/20 transition-opacity"
+            >
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            </button>
+        </div>
+    );
+}
+
+const blockComponents: Components = {
+    pre: CodeBlock,
+    a: ({ href, title, children }) => (
+        <a href={href} title={title} target="_blank" rel="noopener noreferrer">{children}</a>
+    ),
+};
+
+// Short texts such as answer options: no paragraph margins
+const inlineComponents: Components = {
+    ...blockComponents,
+    p: ({ children }) => <>{children}</>,
+};
+
+interface MarkdownProps {
+    children: string;
+    inline?: boolean; // render a short text without paragraph spacing
+    className?: string;
+}
+
+/**
+ * Model-written text (tutor replies, quiz questions and explanations) as
+ * Markdown with tables, math and highlighted code. Raw HTML is never
+ * rendered.
+ */
+export default function Markdown({ children, inline = false, className = '' }: MarkdownProps) {
+    const Wrapper = inline ? 'span' : 'div';
+
+    return (
+        <Wrapper className={['prose prose-sm max-w-none', className].filter(Boolean).join(' ')}>
+            <ReactMarkdown
+                remarkPlugins={remarkPlugins}
+                rehypePlugins={rehypePlugins}
+                components={inline ? inlineComponents : blockComponents}
+            >
+                {normalizeMath(children)}
+            </ReactMarkdown>
+        </Wrapper>
+    );
+}
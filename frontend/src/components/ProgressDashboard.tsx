@@ -1,54 +1,31 @@
 import { useState, useEffect } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { TrendingUp, Clock, Target, Award } from 'lucide-react';
-import { apiClient } from '../api/client';
-
-interface ProgressData {
-    totalStudyTime: number;
-    totalSessions: number;
-    totalQuizzes: number;
-    averageScore: number;
-    currentStreak: number;
-    longestStreak: number;
-    topicsStudied: TopicProgress[];
-    recentActivity: ActivityRecord[];
-}
-
-interface TopicProgress {
-    topic: string;
-    masteryLevel: number;
-    timeSpent: number;
-    sessionsCount: number;
-    quizAverage: number;
-    lastStudied: number;
-}
-
-interface ActivityRecord {
-    type: 'session' | 'quiz';
-    topic: string;
-    timestamp: number;
-    duration?: number;
-    score?: number;
-}
-
-interface ProgressDashboardProps {
-    userId: string;
-}
+import { TrendingUp, Clock, Target, Award, RotateCcw } from 'lucide-react';
+import { apiClient, MAX_STREAK_FREEZE_DAYS } from '../api/client';
+import type { ProgressData, SpacedRepetitionItem, UserSettings } from '../api/client';
 
 const COLORS = ['#4F46E5', '#7C3AED', '#EC4899', '#F59E0B', '#10B981'];
 
-export default function ProgressDashboard({ userId }: ProgressDashboardProps) {
+export default function ProgressDashboard() {
     const [progress, setProgress] = useState<ProgressData | null>(null);
+    const [dueReviews, setDueReviews] = useState<SpacedRepetitionItem[]>([]);
+    const [settings, setSettings] = useState<UserSettings | null>(null);
     const [loading, setLoading] = useState(true);
 
     useEffect(() => {
         loadProgress();
-    }, [userId]);
+    }, []);
 
     const loadProgress = async () => {
         try {
-            const data = await apiClient.getProgress(userId);
+            const [data, due, userSettings] = await Promise.all([
+                apiClient.getProgress(),
+                apiClient.getDueReviews(),
+                apiClient.getSettings(),
+            ]);
             setProgress(data);
+            setDueReviews(due);
+            setSettings(userSettings);
         } catch (error) {
             console.error('Failed to load progress:', error);
         } finally {
@@ -56,6 +33,16 @@ export default function ProgressDashboard({ userId }: ProgressDashboardProps) {
         }
     };
 
+    const updateStreakFreeze = async (streakFreezeDays: number) => {
+        try {
+            setSettings(await apiClient.updateSettings({ streakFreezeDays }));
+            // Streaks are recomputed with the new allowance
+            setProgress(await apiClient.getProgress());
+        } catch (error) {
+            console.error('Failed to update streak freeze:', error);
+        }
+    };
+
     if (loading) {
         return (
             <div className="flex items-center justify-center py-12">
@@ -144,11 +131,58 @@ export default function ProgressDashboard({ userId }: ProgressDashboardProps) {
                         <p className="text-sm opacity-90 mt-1">
                             Longest streak: {progress.longestStreak} days
                         </p>
+                        {settings && (
+                            <div className="flex items-center space-x-2 text-sm opacity-90 mt-3">
+                                <label htmlFor="streak-freeze">Streak freeze:</label>
+                                <select
+                                    id="streak-freeze"
+                                    value={settings.streakFreezeDays}
+                                    onChange={(e) => updateStreakFreeze(Number(e.target.value))}
+                                    className="bg-white/20 rounded px-2 py-1 text-white"
+                                >
+                                    {Array.from({ length: MAX_STREAK_FREEZE_DAYS + 1 }, (_, days) => (
+                                        <option key={days} value={days} className="text-gray-900">
+                                            {days === 0 ? 'Off' : `${days} missed day${days === 1 ? '' : 's'}`}
+                                        </option>
+                                    ))}
+                                </select>
+                                <span>• Days counted in {settings.timeZone}</span>
+                            </div>
+                        )}
                     </div>
                     <div className="text-6xl">🔥</div>
                 </div>
             </div>
 
+            {/* Due Reviews */}
+            <div className="bg-white rounded-xl shadow-lg p-6">
+                <div className="flex items-center space-x-2 mb-4">
+                    <RotateCcw className="w-5 h-5 text-indigo-600" />
+                    <h3 className="text-lg font-bold text-gray-900">Due for Review Today</h3>
+                </div>
+                {dueReviews.length > 0 ? (
+                    <div className="space-y-3">
+                        {dueReviews.map(item => (
+                            <div key={item.topic} className="flex items-center justify-between py-3 border-b border-gray-100 last:border-0">
+                                <div>
+                                    <p className="text-sm font-medium text-gray-900">{item.topic}</p>
+                                    <p className="text-xs text-gray-500">
+                                        {item.repetitions > 0
+                                            ? `Reviewed ${item.repetitions} time${item.repetitions === 1 ? '' : 's'} in a row • every ${item.interval} day${item.interval === 1 ? '' : 's'}`
+                                            : 'Needs relearning'}
+                                    </p>
+                                </div>
+                                <span className="text-xs text-gray-500">
+                                    Due {new Date(item.nextReview).toLocaleDateString()}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-gray-500 text-center py-4">Nothing to review today</p>
+                )}
+            </div>
+
             {/* Charts Row */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 {/* Mastery Levels */}
@@ -228,6 +262,9 @@ export default function ProgressDashboard({ userId }: ProgressDashboardProps) {
                                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                                     Last Studied
                                 </th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Next Review
+                                </th>
                             </tr>
                             </thead>
                             <tbody className="bg-white divide-y divide-gray-200">
@@ -259,6 +296,9 @@ export default function ProgressDashboard({ userId }: ProgressDashboardProps) {
                                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                                         {new Date(topic.lastStudied).toLocaleDateString()}
                                     </td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                        {topic.nextReview ? new Date(topic.nextReview).toLocaleDateString() : '-'}
+                                    </td>
                                 </tr>
                             ))}
                             </tbody>
@@ -1,48 +1,43 @@
 import { useState } from 'react';
 import { Trophy, CheckCircle, XCircle, Loader2 } from 'lucide-react';
-import { apiClient } from '../api/client';
+import { apiClient, DIFFICULTIES } from '../api/client';
+import type { Difficulty, GradedQuizResult, PublicQuizQuestion, QuizExportFormat } from '../api/client';
+import Markdown from './Markdown';
+import ExportMenu from './ExportMenu';
+import type { ExportFormatLabels } from './ExportMenu';
 
-interface Question {
-    id: string;
-    question: string;
-    type: string;
-    options?: string[];
-    correctAnswer: string;
-    explanation: string;
-    points: number;
-}
-
-interface QuizResult {
-    score: number;
-    maxScore: number;
-    percentage: number;
-    answers: Record<string, string>;
-}
+const QUIZ_EXPORT_LABELS: ExportFormatLabels<QuizExportFormat> = {
+    qti: { label: 'QTI 2.1 package', description: 'Zip for Canvas, Blackboard and other QTI importers' },
+    gift: { label: 'Moodle GIFT', description: 'Text for importing into a Moodle question bank' },
+    json: { label: 'JSON', description: 'Questions and answer key, for other tools' },
+};
 
 interface QuizModeProps {
-    userId: string;
+    sessionId?: string; // the session the quiz is taken in, if any
 }
 
-export default function QuizMode({ userId }: QuizModeProps) {
+export default function QuizMode({ sessionId }: QuizModeProps) {
     const [stage, setStage] = useState<'setup' | 'taking' | 'results'>('setup');
     const [topic, setTopic] = useState('');
     const [questionCount, setQuestionCount] = useState(5);
-    const [difficulty, setDifficulty] = useState('intermediate');
+    const [difficulty, setDifficulty] = useState<Difficulty>('intermediate');
     const [loading, setLoading] = useState(false);
-    const [questions, setQuestions] = useState<Question[]>([]);
+    const [questions, setQuestions] = useState<PublicQuizQuestion[]>([]);
     const [currentQuestion, setCurrentQuestion] = useState(0);
     const [answers, setAnswers] = useState<Record<string, string>>({});
-    const [result, setResult] = useState<QuizResult | null>(null);
+    const [result, setResult] = useState<GradedQuizResult | null>(null);
     const [quizId, setQuizId] = useState('');
+    const [startedAt, setStartedAt] = useState(0);
 
     const generateQuiz = async () => {
         if (!topic.trim()) return;
 
         setLoading(true);
         try {
-            const quiz = await apiClient.generateQuiz(topic, questionCount, difficulty, userId);
+            const quiz = await apiClient.generateQuiz(topic, questionCount, difficulty, sessionId);
             setQuestions(quiz.questions);
             setQuizId(quiz.quizId);
+            setStartedAt(Date.now());
             setStage('taking');
         } catch (error) {
             console.error('Failed to generate quiz:', error);
@@ -66,7 +61,8 @@ export default function QuizMode({ userId }: QuizModeProps) {
     const submitQuiz = async () => {
         setLoading(true);
         try {
-            const quizResult = await apiClient.submitQuiz(quizId, answers, userId);
+            const timeSpent = Math.round((Date.now() - startedAt) / 1000);
+            const quizResult = await apiClient.submitQuiz(quizId, answers, timeSpent);
             setResult(quizResult);
             setStage('results');
         } catch (error) {
@@ -135,7 +131,7 @@ export default function QuizMode({ userId }: QuizModeProps) {
                                 Difficulty Level
                             </label>
                             <div className="grid grid-cols-3 gap-3">
-                                {['beginner', 'intermediate', 'advanced'].map((level) => (
+                                {DIFFICULTIES.map((level) => (
                                     <button
                                         key={level}
                                         type="button"
@@ -195,9 +191,9 @@ export default function QuizMode({ userId }: QuizModeProps) {
 
                     {/* Question */}
                     <div className="mb-8">
-                        <h3 className="text-2xl font-bold text-gray-900 mb-4">
+                        <Markdown className="text-2xl font-bold text-gray-900 mb-4">
                             {question.question}
-                        </h3>
+                        </Markdown>
                         <span className="inline-block px-3 py-1 bg-indigo-100 text-indigo-700 rounded-full text-sm font-medium">
               {question.points} points
             </span>
@@ -212,7 +208,7 @@ export default function QuizMode({ userId }: QuizModeProps) {
                                     onClick={() => submitAnswer(option)}
                                     className="w-full px-6 py-4 text-left border-2 border-gray-300 rounded-lg hover:border-indigo-600 hover:bg-indigo-50 transition-colors"
                                 >
-                                    <span className="font-medium">{option}</span>
+                                    <Markdown inline className="font-medium">{option}</Markdown>
                                 </button>
                             ))
                         ) : question.type === 'true-false' ? (
@@ -311,39 +307,42 @@ export default function QuizMode({ userId }: QuizModeProps) {
                     {/* Question Review */}
                     <div className="space-y-4 mb-8">
                         <h3 className="text-xl font-bold text-gray-900 mb-4">Review</h3>
-                        {questions.map((q, _) => {
-                            const userAnswer = result.answers[q.id];
-                            const isCorrect = userAnswer?.toLowerCase() === q.correctAnswer.toLowerCase();
-
-                            return (
-                                <div
-                                    key={q.id}
-                                    className={`p-4 rounded-lg border-2 ${
-                                        isCorrect ? 'border-green-300 bg-green-50' : 'border-red-300 bg-red-50'
-                                    }`}
-                                >
-                                    <div className="flex items-start space-x-3">
-                                        {isCorrect ? (
-                                            <CheckCircle className="w-6 h-6 text-green-600 flex-shrink-0 mt-1" />
-                                        ) : (
-                                            <XCircle className="w-6 h-6 text-red-600 flex-shrink-0 mt-1" />
+                        {result.review.map((item) => (
+                            <div
+                                key={item.questionId}
+                                className={`p-4 rounded-lg border-2 ${
+                                    item.isCorrect ? 'border-green-300 bg-green-50' : 'border-red-300 bg-red-50'
+                                }`}
+                            >
+                                <div className="flex items-start space-x-3">
+                                    {item.isCorrect ? (
+                                        <CheckCircle className="w-6 h-6 text-green-600 flex-shrink-0 mt-1" />
+                                    ) : (
+                                        <XCircle className="w-6 h-6 text-red-600 flex-shrink-0 mt-1" />
+                                    )}
+                                    <div className="flex-1">
+                                        <Markdown className="font-medium text-gray-900 mb-2">{item.question}</Markdown>
+                                        <p className="text-sm text-gray-700">
+                                            <span className="font-medium">Your answer:</span> {item.answer || 'No answer'}
+                                        </p>
+                                        {!item.isCorrect && (
+                                            <p className="text-sm text-gray-700 mt-1">
+                                                <span className="font-medium">Correct answer:</span> <Markdown inline>{item.correctAnswer}</Markdown>
+                                            </p>
                                         )}
-                                        <div className="flex-1">
-                                            <p className="font-medium text-gray-900 mb-2">{q.question}</p>
-                                            <p className="text-sm text-gray-700">
-                                                <span className="font-medium">Your answer:</span> {userAnswer || 'No answer'}
+                                        {item.feedback && (
+                                            <p className="text-sm text-gray-700 mt-2">
+                                                <span className="font-medium">Feedback:</span> <Markdown inline>{item.feedback}</Markdown>
                                             </p>
-                                            {!isCorrect && (
-                                                <p className="text-sm text-gray-700 mt-1">
-                                                    <span className="font-medium">Correct answer:</span> {q.correctAnswer}
-                                                </p>
-                                            )}
-                                            <p className="text-sm text-gray-600 mt-2 italic">{q.explanation}</p>
-                                        </div>
+                                        )}
+                                        <Markdown className="text-sm text-gray-600 mt-2 italic">{item.explanation}</Markdown>
+                                        <p className="text-xs text-gray-500 mt-2">
+                                            {item.pointsEarned} / {item.points} points
+                                        </p>
                                     </div>
                                 </div>
-                            );
-                        })}
+                            </div>
+                        ))}
                     </div>
 
                     {/* Actions */}
@@ -354,6 +353,11 @@ export default function QuizMode({ userId }: QuizModeProps) {
                         >
                             Take Another Quiz
                         </button>
+                        <ExportMenu
+                            formats={QUIZ_EXPORT_LABELS}
+                            subject="quiz"
+                            onExport={format => apiClient.exportQuiz(quizId, format)}
+                        />
                     </div>
                 </div>
             </div>
@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Search, X } from 'lucide-react';
+import { apiClient, APIError } from '../api/client';
+import type { SearchResult } from '../api/client';
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const KIND_LABELS: Record<SearchResult['kind'], string> = {
+    message: 'Message',
+    summary: 'Summary',
+    quiz: 'Quiz',
+};
+
+interface SearchBoxProps {
+    onSelect: (result: SearchResult) => void;
+}
+
+/** Search box for the sidebar: finds messages, summaries and quizzes across all sessions */
+export default function SearchBox({ onSelect }: SearchBoxProps) {
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<SearchResult[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        const q = query.trim();
+        if (!q) {
+            setResults(null);
+            setError(null);
+            return;
+        }
+
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            setLoading(true);
+            try {
+                const found = await apiClient.search(q);
+                if (cancelled) return;
+                setResults(found);
+                setError(null);
+            } catch (err) {
+                if (cancelled) return;
+                console.error('Search failed:', err);
+                setError(err instanceof APIError ? err.message : 'Search failed');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        }, SEARCH_DEBOUNCE_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [query]);
+
+    return (
+        <div className="pt-4">
+            <div className="relative px-1">
+                <Search className="absolute left-3.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+                <input
+                    type="search"
+                    value={query}
+                    onChange={e => setQuery(e.target.value)}
+                    onKeyDown={e => e.key === 'Escape' && setQuery('')}
+                    placeholder="Search your sessions"
+                    maxLength={200}
+                    className="w-full pl-8 pr-8 py-2 bg-gray-900 border border-gray-800 rounded-lg text-sm placeholder-gray-500 focus:outline-none focus:border-gray-600"
+                />
+                {loading ? (
+                    <Loader2 className="absolute right-3.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500 animate-spin" />
+                ) : query && (
+                    <button
+                        onClick={() => setQuery('')}
+                        title="Clear search"
+                        className="absolute right-3 top-1/2 -translate-y-1/2 p-0.5 text-gray-500 hover:text-white"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                )}
+            </div>
+
+            {error && <div className="px-3 pt-2 text-xs text-red-400">{error}</div>}
+
+            {results && !error && (
+                <div className="pt-2">
+                    {results.length === 0 && (
+                        <div className="px-3 py-2 text-xs text-gray-400">No matches</div>
+                    )}
+                    {results.map((result, index) => (
+                        <button
+                            key={index}
+                            onClick={() => onSelect(result)}
+                            disabled={!result.sessionId}
+                            className="w-full text-left px-3 py-2 rounded-lg enabled:hover:bg-gray-800 transition-colors"
+                        >
+                            <div className="text-xs text-gray-400 truncate">
+                                {KIND_LABELS[result.kind]} · {result.topic} · {new Date(result.timestamp).toLocaleDateString()}
+                            </div>
+                            <div className="text-sm text-gray-200 line-clamp-3 break-words">
+                                {result.snippet.map((part, partIndex) => part.match ? (
+                                    <mark key={partIndex} className="bg-yellow-500/30 text-white rounded-sm">{part.text}</mark>
+                                ) : (
+                                    <span key={partIndex}>{part.text}</span>
+                                ))}
+                            </div>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
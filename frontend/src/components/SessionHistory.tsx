@@ -0,0 +1,82 @@
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { apiClient } from '../api/client';
+import type { SessionHistoryEntry } from '../api/client';
+
+interface SessionHistoryProps {
+    selectedId: string | null;
+    refreshKey: string; // reloads the first page whenever it changes
+    onSelect: (entry: SessionHistoryEntry) => void;
+}
+
+export default function SessionHistory({ selectedId, refreshKey, onSelect }: SessionHistoryProps) {
+    const [entries, setEntries] = useState<SessionHistoryEntry[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        apiClient.listSessions()
+            .then(page => {
+                if (cancelled) return;
+                setEntries(page.sessions);
+                setNextCursor(page.nextCursor);
+            })
+            .catch(error => console.error('Failed to load session history:', error));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [refreshKey]);
+
+    const loadMore = async () => {
+        if (!nextCursor || loading) return;
+        setLoading(true);
+        try {
+            const page = await apiClient.listSessions({ cursor: nextCursor });
+            setEntries(prev => [...prev, ...page.sessions]);
+            setNextCursor(page.nextCursor);
+        } catch (error) {
+            console.error('Failed to load session history:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    if (entries.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="pt-4">
+            <div className="px-3 pb-2 text-xs text-gray-400">History</div>
+            {entries.map(entry => (
+                <button
+                    key={entry.session.id}
+                    onClick={() => onSelect(entry)}
+                    className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                        entry.session.id === selectedId ? 'bg-gray-800' : 'hover:bg-gray-800'
+                    }`}
+                >
+                    <div className="text-sm truncate">{entry.session.topic}</div>
+                    <div className="text-xs text-gray-400">
+                        {new Date(entry.session.startTime).toLocaleDateString()}
+                        {entry.session.status !== 'completed' && ` · ${entry.session.status === 'paused' ? 'Paused' : 'In progress'}`}
+                        {` · ${Math.round(entry.activeMinutes)} min · ${entry.messageCount} messages`}
+                        {entry.quizzes.length > 0 && ` · ${entry.quizzes.length} ${entry.quizzes.length === 1 ? 'quiz' : 'quizzes'}`}
+                    </div>
+                </button>
+            ))}
+            {nextCursor && (
+                <button
+                    onClick={loadMore}
+                    disabled={loading}
+                    className="w-full flex justify-center px-3 py-2 text-xs text-gray-400 hover:text-white transition-colors"
+                >
+                    {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Load more'}
+                </button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,107 @@
+import { useState, useEffect } from 'react';
+import { CheckCircle, Loader2 } from 'lucide-react';
+import { apiClient, activeMinutes } from '../api/client';
+import type { SessionEndReason, StudySession } from '../api/client';
+
+interface SessionSummaryViewProps {
+    sessionId: string;
+    onClose: () => void;
+}
+
+const END_REASONS: Record<SessionEndReason, string> = {
+    manual: 'Completed',
+    timeout: 'Ended when its time was up',
+    idle: 'Ended after a stretch without activity',
+};
+
+export default function SessionSummaryView({ sessionId, onClose }: SessionSummaryViewProps) {
+    const [session, setSession] = useState<StudySession | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        let cancelled = false;
+
+        apiClient.waitForSessionSummary(sessionId)
+            .then(loaded => {
+                if (!cancelled) setSession(loaded);
+            })
+            .catch(err => {
+                console.error('Failed to load session summary:', err);
+                if (!cancelled) setError('The summary for this session isn\'t available yet.');
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [sessionId]);
+
+    if (error) {
+        return (
+            <div className="h-full flex flex-col items-center justify-center p-4 gap-4">
+                <p className="text-gray-600 dark:text-gray-400">{error}</p>
+                <button
+                    onClick={onClose}
+                    className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors"
+                >
+                    Start a new session
+                </button>
+            </div>
+        );
+    }
+
+    if (!session?.summary) {
+        return (
+            <div className="h-full flex flex-col items-center justify-center gap-3 text-gray-600 dark:text-gray-400">
+                <Loader2 className="w-8 h-8 animate-spin" />
+                <p>Summarizing your session...</p>
+            </div>
+        );
+    }
+
+    const { summary } = session;
+    const minutes = Math.round(activeMinutes(session.activeIntervals ?? [], session.endTime ?? Date.now()));
+
+    const sections = [
+        { title: 'Concepts covered', items: summary.conceptsCovered },
+        { title: 'Strengths', items: summary.strengths },
+        { title: 'Gaps to work on', items: summary.gaps },
+        { title: 'Next steps', items: summary.nextSteps },
+    ].filter(section => section.items.length > 0);
+
+    return (
+        <div className="h-full overflow-y-auto p-4">
+            <div className="max-w-2xl mx-auto py-8">
+                <div className="text-center mb-8">
+                    <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+                    <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Session Complete</h2>
+                    <p className="text-gray-600 dark:text-gray-400">
+                        {session.topic} · {minutes} minutes studied
+                        {session.endReason && ` · ${END_REASONS[session.endReason]}`}
+                    </p>
+                </div>
+
+                <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 p-8 space-y-6">
+                    <p className="text-gray-800 dark:text-gray-200">{summary.overview}</p>
+
+                    {sections.map(section => (
+                        <div key={section.title}>
+                            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">{section.title}</h3>
+                            <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                                {section.items.map((item, index) => (
+                                    <li key={index}>{item}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+
+                <button
+                    onClick={onClose}
+                    className="mt-6 w-full px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors"
+                >
+                    Start a new session
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,35 @@
+import { TUTOR_MODES } from '../api/client';
+import type { TutorMode } from '../api/client';
+
+const MODE_LABELS: Record<TutorMode, { label: string; description: string }> = {
+    standard: { label: 'Standard', description: 'Explanations, examples and check-in questions' },
+    socratic: { label: 'Socratic', description: 'Guiding questions instead of answers' },
+    eli5: { label: "Explain like I'm five", description: 'Plain words and everyday analogies' },
+    'worked-examples': { label: 'Worked examples', description: 'Step-by-step solutions, then one to try' },
+    'exam-drill': { label: 'Exam drill', description: 'Rapid-fire questions, graded as you go' },
+};
+
+interface TutorModePickerProps {
+    value: TutorMode;
+    onChange: (mode: TutorMode) => void;
+    disabled?: boolean;
+    className?: string;
+}
+
+export default function TutorModePicker({ value, onChange, disabled = false, className = '' }: TutorModePickerProps) {
+    return (
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value as TutorMode)}
+            disabled={disabled}
+            title={MODE_LABELS[value].description}
+            className={className}
+        >
+            {TUTOR_MODES.map(mode => (
+                <option key={mode} value={mode} title={MODE_LABELS[mode].description}>
+                    {MODE_LABELS[mode].label}
+                </option>
+            ))}
+        </select>
+    );
+}
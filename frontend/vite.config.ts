@@ -5,6 +5,10 @@ export default defineConfig({
     plugins: [react()],
     server: {
         port: 5173,
+        fs: {
+            // Shared API contract lives in the worker's src/shared
+            allow: ['..'],
+        },
         proxy: {
             '/api': {
                 target: 'http://localhost:8787',
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { decodeBase64Url, encodeBase64Url, timingSafeEqual } from './base64url';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+const text = (data: Uint8Array) => new TextDecoder().decode(data);
+
+describe('encodeBase64Url', () => {
+    it('drops the padding base64 would add', () => {
+        // RFC 4648 test vectors, one for each amount of padding
+        expect(encodeBase64Url(bytes(''))).toBe('');
+        expect(encodeBase64Url(bytes('f'))).toBe('Zg');
+        expect(encodeBase64Url(bytes('fo'))).toBe('Zm8');
+        expect(encodeBase64Url(bytes('foo'))).toBe('Zm9v');
+        expect(encodeBase64Url(bytes('foob'))).toBe('Zm9vYg');
+    });
+
+    it('uses - and _ in place of + and /', () => {
+        expect(encodeBase64Url(new Uint8Array([0xfb, 0xff]))).toBe('-_8');
+        expect(encodeBase64Url(new Uint8Array([0xfb, 0xef, 0xbe]))).toBe('----');
+        expect(encodeBase64Url(new Uint8Array([0xff, 0xff, 0xff]))).toBe('____');
+    });
+});
+
+describe('decodeBase64Url', () => {
+    it('round-trips every length of input', () => {
+        const all = Uint8Array.from({ length: 256 }, (_, index) => index);
+
+        for (let length = 0; length <= 7; length++) {
+            const data = all.slice(250 - length, 250);
+            expect(decodeBase64Url(encodeBase64Url(data))).toEqual(data);
+        }
+        expect(decodeBase64Url(encodeBase64Url(all))).toEqual(all);
+    });
+
+    it('restores the padding it needs and accepts padded input', () => {
+        expect(text(decodeBase64Url('Zg'))).toBe('f');
+        expect(text(decodeBase64Url('Zm8'))).toBe('fo');
+        expect(text(decodeBase64Url('Zg=='))).toBe('f');
+        expect(decodeBase64Url('-_8')).toEqual(new Uint8Array([0xfb, 0xff]));
+    });
+
+    it('throws on characters outside the alphabet', () => {
+        expect(() => decodeBase64Url('Zm9v!')).toThrow();
+    });
+});
+
+describe('timingSafeEqual', () => {
+    it('is true only for the same bytes', () => {
+        expect(timingSafeEqual(bytes('secret'), bytes('secret'))).toBe(true);
+        expect(timingSafeEqual(bytes('secret'), bytes('secreT'))).toBe(false);
+        expect(timingSafeEqual(bytes('secret'), bytes('secrets'))).toBe(false);
+        expect(timingSafeEqual(bytes(''), bytes(''))).toBe(true);
+    });
+});
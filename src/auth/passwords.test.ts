@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { hashPassword, verifyPassword } from './passwords';
+
+describe('hashPassword', () => {
+    it('records the scheme, iterations and salt with the hash', async () => {
+        const [scheme, iterations, salt, hash, ...rest] = (await hashPassword('correct horse')).split('$');
+
+        expect(scheme).toBe('pbkdf2');
+        expect(iterations).toBe('100000');
+        expect(salt).toMatch(/^[A-Za-z0-9_-]{22}$/); // 16 bytes
+        expect(hash).toMatch(/^[A-Za-z0-9_-]{43}$/); // 256 bits
+        expect(rest).toEqual([]);
+    });
+
+    it('salts every hash', async () => {
+        expect(await hashPassword('correct horse')).not.toBe(await hashPassword('correct horse'));
+    });
+});
+
+describe('verifyPassword', () => {
+    it('accepts the right password and rejects a wrong one', async () => {
+        const stored = await hashPassword('correct horse');
+
+        expect(await verifyPassword('correct horse', stored)).toBe(true);
+        expect(await verifyPassword('correct horse ', stored)).toBe(false);
+        expect(await verifyPassword('Correct horse', stored)).toBe(false);
+        expect(await verifyPassword('', stored)).toBe(false);
+    });
+
+    it('uses the iterations the hash records', async () => {
+        const [, , salt, hash] = (await hashPassword('correct horse')).split('$');
+
+        expect(await verifyPassword('correct horse', ['pbkdf2', '99999', salt, hash].join('$'))).toBe(false);
+    });
+
+    it('rejects stored values in another or a broken format', async () => {
+        const stored = await hashPassword('correct horse');
+        const [, iterations, salt, hash] = stored.split('$');
+
+        expect(await verifyPassword('correct horse', ['bcrypt', iterations, salt, hash].join('$'))).toBe(false);
+        expect(await verifyPassword('correct horse', ['pbkdf2', iterations, salt].join('$'))).toBe(false);
+        expect(await verifyPassword('correct horse', ['pbkdf2', iterations, salt, hash.slice(0, -4)].join('$'))).toBe(false);
+        expect(await verifyPassword('correct horse', '')).toBe(false);
+    });
+});
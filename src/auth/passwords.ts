@@ -0,0 +1,41 @@
+import { decodeBase64Url, encodeBase64Url, timingSafeEqual } from './base64url';
+
+// Workers caps PBKDF2 at 100k iterations
+const ITERATIONS = 100000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const encoder = new TextEncoder();
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+    const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        key,
+        HASH_BITS
+    );
+    return new Uint8Array(bits);
+}
+
+/**
+ * Hash a password with PBKDF2-SHA256 and a random salt. The result records
+ * its own parameters: `pbkdf2$<iterations>$<salt>$<hash>`.
+ */
+export async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const hash = await derive(password, salt, ITERATIONS);
+
+    return ['pbkdf2', ITERATIONS, encodeBase64Url(salt), encodeBase64Url(hash)].join('$');
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, iterations, salt, hash] = stored.split('$');
+    if (scheme !== 'pbkdf2' || !iterations || !salt || !hash) {
+        return false;
+    }
+
+    const expected = decodeBase64Url(hash);
+    const actual = await derive(password, decodeBase64Url(salt), Number(iterations));
+
+    return timingSafeEqual(actual, expected);
+}
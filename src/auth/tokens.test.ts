@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { decodeBase64Url, encodeBase64Url } from './base64url';
+import { SESSION_TTL_SECONDS, signToken, verifyToken } from './tokens';
+
+const SECRET = 'test-secret';
+const user = { sub: 'user_1', email: 'ada@example.com' };
+const now = Date.parse('2026-06-10T12:00:00Z');
+
+const encodeJson = (value: unknown) => encodeBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+const decodeJson = (part: string) => JSON.parse(new TextDecoder().decode(decodeBase64Url(part)));
+
+describe('signToken', () => {
+    it('issues an HS256 JWT that lasts SESSION_TTL_SECONDS', async () => {
+        const [header, payload, signature] = (await signToken(user, SECRET, now)).split('.');
+        const iat = now / 1000;
+
+        expect(decodeJson(header)).toEqual({ alg: 'HS256', typ: 'JWT' });
+        expect(decodeJson(payload)).toEqual({ ...user, iat, exp: iat + SESSION_TTL_SECONDS });
+        expect(decodeBase64Url(signature)).toHaveLength(32);
+    });
+});
+
+describe('verifyToken', () => {
+    it('returns the claims of a token it signed', async () => {
+        const token = await signToken(user, SECRET, now);
+
+        expect(await verifyToken(token, SECRET, now + 1000)).toEqual({
+            ...user,
+            iat: now / 1000,
+            exp: now / 1000 + SESSION_TTL_SECONDS,
+        });
+    });
+
+    it('rejects a token signed with another secret', async () => {
+        const token = await signToken(user, 'another-secret', now);
+
+        expect(await verifyToken(token, SECRET, now)).toBeNull();
+    });
+
+    it('rejects a token whose claims were changed', async () => {
+        const [header, payload, signature] = (await signToken(user, SECRET, now)).split('.');
+        const forged = encodeJson({ ...decodeJson(payload), sub: 'user_2' });
+
+        expect(await verifyToken([header, forged, signature].join('.'), SECRET, now)).toBeNull();
+    });
+
+    it('rejects a token whose signature was changed', async () => {
+        const [header, payload, signature] = (await signToken(user, SECRET, now)).split('.');
+        const flipped = decodeBase64Url(signature);
+        flipped[0] ^= 1;
+
+        expect(await verifyToken([header, payload, encodeBase64Url(flipped)].join('.'), SECRET, now)).toBeNull();
+        expect(await verifyToken([header, payload, ''].join('.'), SECRET, now)).toBeNull();
+    });
+
+    it('rejects a token once it expires', async () => {
+        const token = await signToken(user, SECRET, now);
+        const expiry = now + SESSION_TTL_SECONDS * 1000;
+
+        expect(await verifyToken(token, SECRET, expiry - 1000)).not.toBeNull();
+        expect(await verifyToken(token, SECRET, expiry)).toBeNull();
+    });
+
+    it('accepts only its own HS256 header', async () => {
+        const [, payload] = (await signToken(user, SECRET, now)).split('.');
+        const none = encodeJson({ alg: 'none', typ: 'JWT' });
+
+        expect(await verifyToken(`${none}.${payload}.`, SECRET, now)).toBeNull();
+        expect(await verifyToken(`${none}.${payload}.c2ln`, SECRET, now)).toBeNull();
+    });
+
+    it('rejects malformed tokens without throwing', async () => {
+        const token = await signToken(user, SECRET, now);
+
+        expect(await verifyToken('', SECRET, now)).toBeNull();
+        expect(await verifyToken('not-a-token', SECRET, now)).toBeNull();
+        expect(await verifyToken(`${token}.extra`, SECRET, now)).toBeNull();
+        expect(await verifyToken(token.replace(/\.[^.]+$/, '.!!!'), SECRET, now)).toBeNull();
+    });
+
+    it('rejects a validly signed token without the claims it needs', async () => {
+        // Sign claims by hand, as signToken always writes all of them
+        const header = (await signToken(user, SECRET, now)).split('.')[0];
+        const payload = encodeJson({ sub: 'user_1', exp: now / 1000 + 60 });
+        const key = await crypto.subtle.importKey(
+            'raw',
+            new TextEncoder().encode(SECRET),
+            { name: 'HMAC', hash: 'SHA-256' },
+            false,
+            ['sign']
+        );
+        const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${header}.${payload}`));
+
+        expect(await verifyToken(`${header}.${payload}.${encodeBase64Url(new Uint8Array(signature))}`, SECRET, now)).toBeNull();
+    });
+});
@@ -0,0 +1,80 @@
+import { decodeBase64Url, encodeBase64Url } from './base64url';
+
+// How long a sign-in lasts before the user has to sign in again
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface TokenClaims {
+    sub: string; // user id; the only thing that selects a user's StudyState
+    email: string;
+    iat: number;
+    exp: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const HEADER = encodeBase64Url(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+
+async function hmacKey(secret: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+        'raw',
+        encoder.encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign', 'verify']
+    );
+}
+
+/**
+ * Issue an HS256 JWT for the user
+ */
+export async function signToken(
+    user: { sub: string; email: string },
+    secret: string,
+    now = Date.now()
+): Promise<string> {
+    const iat = Math.floor(now / 1000);
+    const claims: TokenClaims = { ...user, iat, exp: iat + SESSION_TTL_SECONDS };
+
+    const payload = encodeBase64Url(encoder.encode(JSON.stringify(claims)));
+    const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), encoder.encode(`${HEADER}.${payload}`));
+
+    return `${HEADER}.${payload}.${encodeBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Return the claims of a token signed with `secret` that hasn't expired, or
+ * null for anything else. Only HS256 is accepted, whatever the header says.
+ */
+export async function verifyToken(token: string, secret: string, now = Date.now()): Promise<TokenClaims | null> {
+    const [header, payload, signature, ...rest] = token.split('.');
+    if (!header || !payload || !signature || rest.length > 0 || header !== HEADER) {
+        return null;
+    }
+
+    try {
+        const valid = await crypto.subtle.verify(
+            'HMAC',
+            await hmacKey(secret),
+            decodeBase64Url(signature),
+            encoder.encode(`${header}.${payload}`)
+        );
+        if (!valid) {
+            return null;
+        }
+
+        const claims = JSON.parse(decoder.decode(decodeBase64Url(payload))) as Partial<TokenClaims>;
+        if (typeof claims.sub !== 'string' || typeof claims.email !== 'string' || typeof claims.exp !== 'number') {
+            return null;
+        }
+
+        if (claims.exp <= Math.floor(now / 1000)) {
+            return null;
+        }
+
+        return claims as TokenClaims;
+    } catch {
+        // Malformed base64 or JSON
+        return null;
+    }
+}
@@ -0,0 +1,70 @@
+import { Account } from '../types';
+
+/**
+ * One instance per normalised email address. Holding the credentials in their
+ * own object makes sign-up for an address strongly consistent: two requests
+ * racing for the same email hit the same instance.
+ */
+export class AccountState implements DurableObject {
+    private state: DurableObjectState;
+
+    constructor(state: DurableObjectState) {
+        this.state = state;
+    }
+
+    async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url);
+        const path = url.pathname;
+
+        try {
+            if (path === '/account/get') {
+                return await this.getAccount();
+            } else if (path === '/account/create') {
+                return await this.createAccount(request);
+            }
+
+            return new Response('Not Found', { status: 404 });
+        } catch (error) {
+            console.error('Account Durable Object error:', error);
+            return new Response(JSON.stringify({ error: 'Internal error' }), {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+    }
+
+    private async getAccount(): Promise<Response> {
+        const account = await this.state.storage.get<Account>('account');
+
+        if (!account) {
+            return new Response(JSON.stringify({ error: 'Account not found' }), {
+                status: 404,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        return new Response(JSON.stringify(account), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    private async createAccount(request: Request): Promise<Response> {
+        const account: Account = await request.json();
+
+        if (await this.state.storage.get<Account>('account')) {
+            return new Response(JSON.stringify({
+                error: 'An account with this email already exists',
+                fieldErrors: [{ field: 'email', message: 'An account with this email already exists' }],
+            }), {
+                status: 409,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        await this.state.storage.put('account', account);
+
+        return new Response(JSON.stringify({ success: true }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+}
@@ -1,31 +1,137 @@
 import {
-    UserState,
+    Env,
+    CardExport,
+    CardFileRow,
+    CardImportRow,
     StudySession,
-    ChatHistory,
     ChatMessage,
+    ChatSummary,
+    ChatTurn,
+    ExportedQuiz,
+    Flashcard,
+    FlashcardRating,
     Quiz,
+    QuizQuestion,
     QuizAnswer,
     QuizResult,
+    GradedQuizResult,
+    LearningPath,
+    SessionEndReason,
+    SessionEvent,
+    SessionExport,
+    SessionHistoryEntry,
+    SessionOutcome,
+    SessionSummary,
     ProgressData,
     TopicProgress,
-    ActivityRecord,
-    SpacedRepetitionItem,
+    TutorContext,
+    UserSettings,
+    WorkflowBinding,
+    DEFAULT_SEARCH_LIMIT,
+    DEFAULT_SESSION_PAGE_SIZE,
+    DEFAULT_TUTOR_MODE,
+    MAX_CARD_TEXT_LENGTH,
 } from '../types';
+import { AIService } from '../llm/aiService';
+import { AnswerGrader, LLMAnswerGrader, gradeAnswer, roundPoints } from '../quiz/grading';
+import { buildQuizReview } from '../quiz/redaction';
+import { computeStreaks } from '../progress/streaks';
+import { activeMinutes } from '../shared/sessionTime';
+import {
+    RATING_QUALITY,
+    createRepetitionItem,
+    newSchedule,
+    qualityFromScore,
+    reviewItem,
+} from '../review/spacedRepetition';
+import { migrateSchema } from './schema';
+import { migrateLegacyState } from './legacyState';
+import {
+    ExportFlashcardsQuery,
+    GenerateFlashcardsRequest,
+    ImportFlashcardsRequest,
+    ImportFlashcardsResponse,
+    ListSessionsQuery,
+    UpdateFlashcardRequest,
+} from '../shared/api';
+import { SessionFilter, StudyStore } from './studyStore';
+import { SessionDeadline, SessionLimits, parseSessionLimits, sessionDeadline } from './sessionTimeouts';
+import { SESSION_EVENT_TYPE, outcomeQuality, sessionOutcome } from '../workflows/sessionEvents';
+import { applicableSummary, planSummaryFold } from '../llm/chatMemory';
+import { toMatchQuery } from './search';
+
+// How many entries ProgressData.recentActivity carries
+const RECENT_ACTIVITY_LIMIT = 50;
+
+// How many missed quiz questions the tutor prompt mentions
+const TUTOR_MISSED_QUESTION_LIMIT = 5;
+
+// Most cards one flashcard generation adds, and the missed questions it looks at
+const GENERATED_FLASHCARD_LIMIT = 10;
+const FLASHCARD_MISTAKE_LIMIT = 15;
+
+// Session history cursors point at the last session of a page
+function encodeCursor(session: StudySession): string {
+    return `${session.startTime}:${session.id}`;
+}
+
+function decodeCursor(cursor: string): SessionFilter['after'] {
+    const separator = cursor.indexOf(':');
+    return { startTime: Number(cursor.slice(0, separator)), id: cursor.slice(separator + 1) };
+}
+
+// Cards count as the same when their fronts match, ignoring case and spacing, within a topic
+function flashcardKey(front: string, topic: string): string {
+    return `${topic.toLowerCase()}\n${front.trim().replace(/\s+/g, ' ').toLowerCase()}`;
+}
 
 export class StudyState implements DurableObject {
     private state: DurableObjectState;
-    private userState: UserState | null = null;
+    private ai: AIService;
+    private grader: AnswerGrader;
+    private store: StudyStore;
+    private limits: SessionLimits;
+    private workflows: WorkflowBinding;
 
-    constructor(state: DurableObjectState) {
+    constructor(state: DurableObjectState, env: Env, grader?: AnswerGrader) {
         this.state = state;
+        this.ai = new AIService(env.AI);
+        this.grader = grader || new LLMAnswerGrader(this.ai);
+        this.store = new StudyStore(state.storage.sql);
+        this.limits = parseSessionLimits(env.MAX_SESSION_DURATION, env.SESSION_IDLE_TIMEOUT);
+        this.workflows = env.STUDY_WORKFLOW;
+
+        // No request is delivered until the schema is current
+        state.blockConcurrencyWhile(async () => {
+            state.storage.transactionSync(() => migrateSchema(state.storage.sql));
+            await migrateLegacyState(state.storage, this.store);
+            await this.scheduleAlarm();
+        });
     }
 
-    async fetch(request: Request): Promise<Response> {
-        // Initialize state if needed
-        if (!this.userState) {
-            this.userState = await this.state.storage.get<UserState>('userState') || this.createDefaultState();
+    /**
+     * End every open session whose deadline has passed, then wait for the
+     * next one
+     */
+    async alarm(): Promise<void> {
+        const now = Date.now();
+        const finished: string[] = [];
+
+        for (const session of this.store.openSessions()) {
+            const deadline = this.deadlineFor(session);
+            if (deadline.at <= now) {
+                await this.finishSession(session, deadline.endTime, deadline.reason);
+                finished.push(session.id);
+            }
         }
 
+        await this.scheduleAlarm();
+
+        // No one is waiting on a request here, so summarize before returning
+        await Promise.all(finished.map(sessionId => this.writeSummary(sessionId)));
+    }
+
+    async fetch(request: Request): Promise<Response> {
         const url = new URL(request.url);
         const path = url.pathname;
 
@@ -35,6 +141,12 @@ export class StudyState implements DurableObject {
                 return await this.getChatHistory(request);
             } else if (path === '/chat/save') {
                 return await this.saveChatMessage(request);
+            } else if (path === '/chat/context') {
+                return await this.getTutorContext(request);
+            } else if (path === '/chat/compact') {
+                return await this.compactChat(request);
+            } else if (path === '/chat/branch') {
+                return await this.switchBranch(request);
             }
 
             // Session endpoints
@@ -42,8 +154,28 @@ export class StudyState implements DurableObject {
                 return await this.createSession(request);
             } else if (path === '/session/current') {
                 return await this.getCurrentSession();
+            } else if (path === '/session/list') {
+                return await this.listSessions(request);
+            } else if (path === '/session/get') {
+                return await this.getSession(request);
+            } else if (path === '/session/export') {
+                return await this.exportSession(request);
+            } else if (path === '/session/pause') {
+                return await this.changeSessionStatus(request, 'active', 'paused');
+            } else if (path === '/session/resume') {
+                return await this.changeSessionStatus(request, 'paused', 'active');
             } else if (path === '/session/complete') {
                 return await this.completeSession(request);
+            } else if (path === '/session/extend') {
+                return await this.extendSession(request);
+            } else if (path === '/session/summarize') {
+                return await this.summarizeSession(request);
+            } else if (path === '/session/workflow') {
+                return await this.registerWorkflow(request);
+            } else if (path === '/session/learning-path') {
+                return await this.saveLearningPath(request);
+            } else if (path === '/session/outcome') {
+                return await this.recordOutcome(request);
             }
 
             // Quiz endpoints
@@ -53,6 +185,8 @@ export class StudyState implements DurableObject {
                 return await this.submitQuiz(request);
             } else if (path === '/quiz/results') {
                 return await this.getQuizResults();
+            } else if (path === '/quiz/get') {
+                return await this.getQuiz(request);
             }
 
             // Progress endpoints
@@ -60,8 +194,42 @@ export class StudyState implements DurableObject {
                 return await this.getOverallProgress();
             } else if (path === '/progress/topics') {
                 return await this.getTopicProgress();
-            } else if (path === '/progress/update') {
-                return await this.updateProgress(request);
+            }
+
+            // Settings endpoints
+            else if (path === '/settings') {
+                return await this.getSettings();
+            } else if (path === '/settings/update') {
+                return await this.updateSettings(request);
+            }
+
+            // Review endpoints
+            else if (path === '/review/due') {
+                return await this.getDueReviews();
+            }
+
+            // Flashcard endpoints
+            else if (path === '/flashcards/list') {
+                return await this.listFlashcards(request);
+            } else if (path === '/flashcards/create') {
+                return await this.createFlashcard(request);
+            } else if (path === '/flashcards/generate') {
+                return await this.generateFlashcards(request);
+            } else if (path === '/flashcards/update') {
+                return await this.updateFlashcard(request);
+            } else if (path === '/flashcards/delete') {
+                return await this.deleteFlashcard(request);
+            } else if (path === '/flashcards/review') {
+                return await this.reviewFlashcard(request);
+            } else if (path === '/flashcards/export') {
+                return await this.exportFlashcards(request);
+            } else if (path === '/flashcards/import') {
+                return await this.importFlashcards(request);
+            }
+
+            // Search endpoints
+            else if (path === '/search') {
+                return await this.search(request);
             }
 
             return new Response('Not Found', { status: 404 });
@@ -74,65 +242,124 @@ export class StudyState implements DurableObject {
         }
     }
 
-    private createDefaultState(): UserState {
-        return {
-            userId: 'default-user',
-            sessions: {},
-            chatHistories: {},
-            quizzes: {},
-            quizResults: [],
-            progress: {
-                userId: 'default-user',
-                totalStudyTime: 0,
-                totalSessions: 0,
-                totalQuizzes: 0,
-                averageScore: 0,
-                currentStreak: 0,
-                longestStreak: 0,
-                topicsStudied: [],
-                recentActivity: [],
-            },
-            spacedRepetitionQueue: [],
-        };
-    }
-
     // Chat methods
     private async getChatHistory(request: Request): Promise<Response> {
         const body: { sessionId: string } = await request.json();
-        const history = this.userState!.chatHistories[body.sessionId];
 
-        return new Response(JSON.stringify(history?.messages || []), {
+        return new Response(JSON.stringify(this.store.getMessages(body.sessionId)), {
             headers: { 'Content-Type': 'application/json' },
         });
     }
 
-    private async saveChatMessage(request: Request): Promise<Response> {
-        const body: { sessionId: string; userMessage: string; aiResponse: string } = await request.json();
-        const { sessionId, userMessage, aiResponse } = body;
+    // Show the branch through one version of a turn
+    private async switchBranch(request: Request): Promise<Response> {
+        const { sessionId, messageId }: { sessionId: string; messageId: number } = await request.json();
 
-        if (!this.userState!.chatHistories[sessionId]) {
-            this.userState!.chatHistories[sessionId] = {
-                sessionId,
-                messages: [],
-            };
+        if (!this.store.switchBranch(sessionId, messageId)) {
+            return new Response(JSON.stringify({ error: 'Message not found' }), {
+                status: 404,
+                headers: { 'Content-Type': 'application/json' },
+            });
         }
 
+        return new Response(JSON.stringify(this.store.getMessages(sessionId)), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    // What the tutor should know about the session; null for an unknown session
+    private async getTutorContext(request: Request): Promise<Response> {
+        const { sessionId }: { sessionId: string } = await request.json();
+        const session = this.store.getSession(sessionId);
+
+        const context: TutorContext | null = session && {
+            topic: session.topic,
+            difficulty: session.difficulty,
+            mode: session.mode ?? DEFAULT_TUTOR_MODE,
+            masteryLevel: this.store.getTopicProgress(session.topic)?.masteryLevel ?? 0,
+            learningPath: this.store.getLearningPath(sessionId),
+            missedQuestions: this.store.missedQuestions(session.topic, TUTOR_MISSED_QUESTION_LIMIT),
+            memory: this.store.getChatSummary(sessionId),
+        };
+
+        return new Response(JSON.stringify({ context }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    /**
+     * Fold the oldest unsummarized turns into the session's running summary
+     * once they no longer fit the chat token budget
+     */
+    private async compactChat(request: Request): Promise<Response> {
+        const { sessionId }: { sessionId: string } = await request.json();
+        const session = this.store.getSession(sessionId);
+        const messages = this.store.getMessages(sessionId);
+        const fold = session && planSummaryFold(messages, this.store.getChatSummary(sessionId));
+
+        if (session && fold) {
+            try {
+                const content = await this.ai.summarizeConversation(session.topic, fold.previous?.content ?? null, fold.messages);
+                const summary: ChatSummary = {
+                    content,
+                    messageCount: fold.messageCount,
+                    lastMessageId: messages[fold.messageCount - 1].id ?? null,
+                    updatedAt: Date.now(),
+                };
+
+                // Meanwhile another fold may have covered more, or the student
+                // may have switched branches; keep the summary that fits what is shown
+                const shown = this.store.getMessages(sessionId);
+                const current = applicableSummary(shown, this.store.getChatSummary(sessionId));
+                if (applicableSummary(shown, summary) && (!current || current.messageCount < summary.messageCount)) {
+                    this.store.saveChatSummary(sessionId, summary);
+                }
+            } catch (error) {
+                // The turns stay unsummarized; the next message tries again
+                console.error(`Failed to compact chat for session ${sessionId}:`, error);
+            }
+        }
+
+        return new Response(JSON.stringify({ summary: this.store.getChatSummary(sessionId) }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    private async saveChatMessage(request: Request): Promise<Response> {
+        const { sessionId, userMessage, aiResponse, interrupted, mode, parentId }: ChatTurn = await request.json();
+
         const timestamp = Date.now();
 
-        this.userState!.chatHistories[sessionId].messages.push(
-            {
-                role: 'user',
-                content: userMessage,
-                timestamp,
-            },
-            {
-                role: 'assistant',
-                content: aiResponse,
-                timestamp: timestamp + 1,
+        this.state.storage.transactionSync(() => {
+            // The mode the student picked stays with the session
+            if (mode) {
+                this.store.setSessionMode(sessionId, mode);
             }
-        );
 
-        await this.state.storage.put('userState', this.userState);
+            // A regenerated reply answers the question at parentId; otherwise
+            // the question comes first, after parentId
+            const questionId = userMessage === undefined
+                ? parentId
+                : this.store.addMessage(sessionId, { role: 'user', content: userMessage, timestamp }, parentId);
+
+            // A stream stopped before the first token leaves nothing worth keeping
+            if (aiResponse.length > 0) {
+                const reply: ChatMessage = {
+                    role: 'assistant',
+                    content: aiResponse,
+                    timestamp: timestamp + 1,
+                };
+
+                if (interrupted) {
+                    reply.interrupted = true;
+                }
+
+                this.store.addMessage(sessionId, reply, questionId);
+            }
+        });
+
+        // New activity pushes the idle deadline back
+        await this.scheduleAlarm();
 
         return new Response(JSON.stringify({ success: true }), {
             headers: { 'Content-Type': 'application/json' },
@@ -143,20 +370,18 @@ export class StudyState implements DurableObject {
     private async createSession(request: Request): Promise<Response> {
         const session: StudySession = await request.json();
 
-        this.userState!.sessions[session.id] = session;
-        this.userState!.progress.totalSessions++;
+        this.state.storage.transactionSync(() => {
+            this.store.saveSession(session);
+            this.store.openInterval(session.id, session.startTime);
 
-        // Add to recent activity
-        this.userState!.progress.recentActivity.unshift({
-            type: 'session',
-            topic: session.topic,
-            timestamp: session.startTime,
+            this.store.addActivity({
+                type: 'session',
+                topic: session.topic,
+                timestamp: session.startTime,
+            });
         });
 
-        // Keep only last 50 activities
-        this.userState!.progress.recentActivity = this.userState!.progress.recentActivity.slice(0, 50);
-
-        await this.state.storage.put('userState', this.userState);
+        await this.scheduleAlarm();
 
         return new Response(JSON.stringify({ success: true }), {
             headers: { 'Content-Type': 'application/json' },
@@ -164,44 +389,375 @@ export class StudyState implements DurableObject {
     }
 
     private async getCurrentSession(): Promise<Response> {
-        const activeSessions = Object.values(this.userState!.sessions).filter(
-            s => s.status === 'active'
-        );
+        const currentSession = this.store.getActiveSession();
 
-        const currentSession = activeSessions[activeSessions.length - 1] || null;
-        
         return new Response(JSON.stringify({ session: currentSession }), {
             headers: { 'Content-Type': 'application/json' },
         });
     }
 
+    private async listSessions(request: Request): Promise<Response> {
+        const query: ListSessionsQuery = await request.json();
+        const limit = query.limit ?? DEFAULT_SESSION_PAGE_SIZE;
+
+        // One extra row tells us whether another page follows
+        const sessions = this.store.listSessions({
+            topic: query.topic,
+            status: query.status,
+            from: query.from,
+            to: query.to,
+            after: query.cursor ? decodeCursor(query.cursor) : undefined,
+        }, limit + 1);
+
+        const page = sessions.slice(0, limit);
+        const now = Date.now();
+
+        const entries: SessionHistoryEntry[] = page.map(session => ({
+            session,
+            messageCount: this.store.countMessages(session.id),
+            activeMinutes: activeMinutes(session.activeIntervals ?? [], now),
+            quizzes: this.store.linkedQuizzes(session.id),
+        }));
+
+        return new Response(JSON.stringify({
+            sessions: entries,
+            nextCursor: sessions.length > limit ? encodeCursor(page[page.length - 1]) : null,
+        }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    private async getSession(request: Request): Promise<Response> {
+        const { sessionId }: { sessionId: string } = await request.json();
+        const session = this.store.getSession(sessionId);
+
+        if (!session) {
+            return this.sessionNotFound(sessionId);
+        }
+
+        return new Response(JSON.stringify({ session }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    // The session with its transcript and the quizzes taken during it
+    private async exportSession(request: Request): Promise<Response> {
+        const { sessionId }: { sessionId: string } = await request.json();
+        const session = this.store.getSession(sessionId);
+
+        if (!session) {
+            return this.sessionNotFound(sessionId);
+        }
+
+        const quizzes: ExportedQuiz[] = [];
+        for (const linked of this.store.linkedQuizzes(sessionId)) {
+            const quiz = linked.attempts > 0 ? this.store.getQuiz(linked.quizId) : null;
+            if (!quiz) {
+                continue;
+            }
+
+            quizzes.push({
+                quizId: quiz.id,
+                topic: quiz.topic,
+                difficulty: quiz.difficulty,
+                createdAt: quiz.createdAt,
+                attempts: this.store.listQuizResults(quiz.id).map(result => ({
+                    ...result,
+                    review: buildQuizReview(quiz, result.answers),
+                })),
+            });
+        }
+
+        const now = Date.now();
+        const data: SessionExport = {
+            session,
+            activeMinutes: activeMinutes(session.activeIntervals ?? [], now),
+            transcript: this.store.getMessages(sessionId),
+            quizzes,
+            exportedAt: now,
+            timeZone: this.store.getSettings().timeZone,
+        };
+
+        return new Response(JSON.stringify(data), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
     private async completeSession(request: Request): Promise<Response> {
-        const { sessionId, answers }: { sessionId: string; answers: Record<string, string> } = await request.json();
-        const session = this.userState!.sessions[sessionId];
+        const { sessionId }: { sessionId: string } = await request.json();
+        const session = this.store.getSession(sessionId);
+
+        if (session && session.status !== 'completed') {
+            await this.finishSession(session, Date.now(), 'manual');
+            await this.scheduleAlarm();
+        }
+
+        return new Response(JSON.stringify({ success: true }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    /**
+     * Pause or resume a session. Pausing closes its current active interval;
+     * resuming opens a new one.
+     */
+    private async changeSessionStatus(
+        request: Request,
+        from: StudySession['status'],
+        to: StudySession['status']
+    ): Promise<Response> {
+        const { sessionId }: { sessionId: string } = await request.json();
+        const session = this.store.getSession(sessionId);
+
+        if (!session) {
+            return this.sessionNotFound(sessionId);
+        }
+
+        if (session.status !== from) {
+            return new Response(JSON.stringify({
+                error: to === 'paused' ? 'Only active sessions can be paused' : 'Only paused sessions can be resumed',
+            }), {
+                status: 409,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        const now = Date.now();
+
+        this.state.storage.transactionSync(() => {
+            if (to === 'paused') {
+                this.store.closeInterval(sessionId, now);
+            } else {
+                this.store.openInterval(sessionId, now);
+            }
+
+            this.store.saveSession({ ...session, status: to });
+        });
+
+        await this.scheduleAlarm();
+
+        return new Response(JSON.stringify({ session: this.store.getSession(sessionId) }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    // Add minutes to an unfinished session's planned duration
+    private async extendSession(request: Request): Promise<Response> {
+        const { sessionId, minutes }: { sessionId: string; minutes: number } = await request.json();
+        const session = this.store.getSession(sessionId);
+
+        if (!session) {
+            return this.sessionNotFound(sessionId);
+        }
+
+        if (session.status === 'completed') {
+            return new Response(JSON.stringify({ error: 'Only active or paused sessions can be extended' }), {
+                status: 409,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        const duration = session.duration + minutes;
+        this.store.saveSession({ ...session, duration });
+
+        await this.scheduleAlarm();
+        await this.notifyWorkflow(sessionId, { kind: 'extended', duration });
+
+        return new Response(JSON.stringify({ session: this.store.getSession(sessionId) }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    /**
+     * Summarize a completed session's transcript onto the session. Runs once;
+     * later calls return the stored summary.
+     */
+    private async summarizeSession(request: Request): Promise<Response> {
+        const { sessionId }: { sessionId: string } = await request.json();
+        const session = this.store.getSession(sessionId);
+
+        if (!session) {
+            return this.sessionNotFound(sessionId);
+        }
+
+        if (session.status !== 'completed') {
+            return new Response(JSON.stringify({ error: 'Only completed sessions can be summarized' }), {
+                status: 409,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        await this.writeSummary(sessionId);
+
+        return new Response(JSON.stringify({ session: this.store.getSession(sessionId) }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    private async writeSummary(sessionId: string): Promise<void> {
+        const session = this.store.getSession(sessionId);
+        if (!session || session.summary) {
+            return;
+        }
+
+        const messages = this.store.getMessages(sessionId);
+        const duration = Math.round(activeMinutes(session.activeIntervals ?? [], session.endTime ?? Date.now()));
+
+        const summary: SessionSummary = messages.length > 0
+            ? await this.ai.summarizeSession(session.topic, messages, duration)
+            : {
+                overview: `You studied ${session.topic} for ${duration} minutes without chatting with your tutor.`,
+                conceptsCovered: [],
+                strengths: [],
+                gaps: [],
+                nextSteps: [],
+            };
+
+        this.store.setSessionSummary(sessionId, summary);
+    }
+
+    private sessionNotFound(sessionId: string): Response {
+        return new Response(JSON.stringify({
+            error: 'Session not found',
+            fieldErrors: [{ field: 'sessionId', message: `No session with id ${sessionId}` }],
+        }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    /**
+     * Complete a session and tell its workflow how it ended. The workflow
+     * records the outcome on topic progress; without one it is recorded here.
+     */
+    private async finishSession(session: StudySession, endTime: number, endReason: SessionEndReason): Promise<void> {
+        const outcome = sessionOutcome(endReason);
+
+        this.state.storage.transactionSync(() => {
+            this.store.closeInterval(session.id, endTime);
+            this.store.saveSession({ ...session, status: 'completed', endTime, endReason });
+
+            if (!this.store.getSessionWorkflow(session.id)) {
+                this.applyOutcome(session.id, outcome);
+            }
+        });
+
+        await this.notifyWorkflow(session.id, { kind: outcome });
+    }
+
+    // Update topic progress and the review schedule for a completed session, once
+    private applyOutcome(sessionId: string, outcome: SessionOutcome): void {
+        const session = this.store.getSession(sessionId);
+        if (!session || session.status !== 'completed' || this.store.isOutcomeRecorded(sessionId)) {
+            return;
+        }
+
+        const endTime = session.endTime ?? Date.now();
+
+        // Only active time counts; time spent paused isn't study time
+        const duration = activeMinutes(session.activeIntervals ?? [], endTime);
+
+        this.updateTopicProgress(session.topic, duration);
+        this.scheduleReview(session.topic, outcomeQuality(outcome), endTime);
+        this.store.markOutcomeRecorded(sessionId);
+    }
+
+    private async notifyWorkflow(sessionId: string, event: SessionEvent): Promise<void> {
+        const workflowId = this.store.getSessionWorkflow(sessionId);
+        if (!workflowId) {
+            return;
+        }
+
+        try {
+            const instance = await this.workflows.get(workflowId);
+            await instance.sendEvent({ type: SESSION_EVENT_TYPE, payload: event });
+        } catch (error) {
+            // The workflow gives up waiting at the session cap and records the outcome then
+            console.error(`Failed to notify workflow ${workflowId}:`, error);
+        }
+    }
+
+    // Workflow methods
+    private async registerWorkflow(request: Request): Promise<Response> {
+        const { sessionId, workflowId }: { sessionId: string; workflowId: string } = await request.json();
+        const session = this.store.getSession(sessionId);
 
-        if (session) {
-            session.status = 'completed';
-            session.endTime = Date.now();
-            const duration = (session.endTime - session.startTime) / 1000 / 60; // minutes
-            this.userState!.progress.totalStudyTime += duration;
+        if (!session) {
+            return this.sessionNotFound(sessionId);
+        }
 
-            // Update topic progress
-            await this.updateTopicProgress(session.topic, duration);
+        this.store.setSessionWorkflow(sessionId, workflowId);
 
-            await this.state.storage.put('userState', this.userState);
+        return new Response(JSON.stringify({ session }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    private async saveLearningPath(request: Request): Promise<Response> {
+        const { sessionId, learningPath }: { sessionId: string; learningPath: LearningPath } = await request.json();
+
+        if (!this.store.getSession(sessionId)) {
+            return this.sessionNotFound(sessionId);
         }
 
+        this.store.setLearningPath(sessionId, learningPath);
+
         return new Response(JSON.stringify({ success: true }), {
             headers: { 'Content-Type': 'application/json' },
         });
     }
 
+    /**
+     * Record how a session ended on its topic's progress and review schedule.
+     * A session still open when its workflow stops waiting has run out of
+     * time and is ended first. The outcome follows the end reason recorded on
+     * the session, so it always matches how the session is shown. Repeated
+     * calls return the outcome and progress without counting the session
+     * again.
+     */
+    private async recordOutcome(request: Request): Promise<Response> {
+        const { sessionId }: { sessionId: string } = await request.json();
+        const session = this.store.getSession(sessionId);
+
+        if (!session) {
+            return this.sessionNotFound(sessionId);
+        }
+
+        if (session.status !== 'completed') {
+            await this.finishSession(session, Date.now(), 'timeout');
+            await this.scheduleAlarm();
+            await this.writeSummary(sessionId);
+        }
+
+        const endReason = this.store.getSession(sessionId)?.endReason ?? 'manual';
+        const outcome = sessionOutcome(endReason);
+        this.state.storage.transactionSync(() => this.applyOutcome(sessionId, outcome));
+
+        return new Response(JSON.stringify({ outcome, progress: this.store.getTopicProgress(session.topic) }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    private deadlineFor(session: StudySession): SessionDeadline {
+        return sessionDeadline(session, this.store.lastMessageTime(session.id), this.limits);
+    }
+
+    // An object has a single alarm; point it at the earliest open session's deadline
+    private async scheduleAlarm(): Promise<void> {
+        const deadlines = this.store.openSessions().map(session => this.deadlineFor(session).at);
+
+        if (deadlines.length > 0) {
+            await this.state.storage.setAlarm(Math.min(...deadlines));
+        } else {
+            await this.state.storage.deleteAlarm();
+        }
+    }
+
     // Quiz methods
     private async saveQuiz(request: Request): Promise<Response> {
         const quiz: Quiz = await request.json();
 
-        this.userState!.quizzes[quiz.id] = quiz;
-        await this.state.storage.put('userState', this.userState);
+        this.state.storage.transactionSync(() => this.store.saveQuiz(quiz));
 
         return new Response(JSON.stringify({ success: true, quizId: quiz.id }), {
             headers: { 'Content-Type': 'application/json' },
@@ -209,12 +765,26 @@ export class StudyState implements DurableObject {
     }
 
     private async submitQuiz(request: Request): Promise<Response> {
-        const { quizId, answers }: { quizId: string; answers: QuizAnswer[] } = await request.json();
-        const quiz = this.userState!.quizzes[quizId];
+        const { quizId, answers, timeSpent }: { quizId: string; answers: QuizAnswer[]; timeSpent?: number } =
+            await request.json();
+        const quiz = this.store.getQuiz(quizId);
 
         if (!quiz) {
-            return new Response(JSON.stringify({ error: 'Quiz not found' }), {
-                status: 404,
+            return this.quizNotFound(quizId);
+        }
+
+        const questionIds = new Set(quiz.questions.map(q => q.id));
+        const fieldErrors = answers
+            .map((a, index) => ({ a, index }))
+            .filter(({ a }) => !questionIds.has(a.questionId))
+            .map(({ a, index }) => ({
+                field: `answers[${index}].questionId`,
+                message: `Quiz ${quizId} has no question ${a.questionId}`,
+            }));
+
+        if (fieldErrors.length > 0) {
+            return new Response(JSON.stringify({ error: 'Invalid quiz submission', fieldErrors }), {
+                status: 400,
                 headers: { 'Content-Type': 'application/json' },
             });
         }
@@ -222,83 +792,154 @@ export class StudyState implements DurableObject {
         let score = 0;
         const maxScore = quiz.questions.reduce((sum, q) => sum + q.points, 0);
 
-        // Find the answer for each question and check if it's correct
-        quiz.questions.forEach(question => {
-            const answer = answers.find(a => a.questionId === question.id);
-            if (answer && answer.answer.toLowerCase() === question.correctAnswer.toLowerCase()) {
-                score += question.points;
-            }
+        // Find the answer for each question and grade them in parallel
+        const answered = quiz.questions
+            .map(question => ({ question, answer: answers.find(a => a.questionId === question.id) }))
+            .filter((pair): pair is { question: QuizQuestion; answer: QuizAnswer } => pair.answer !== undefined);
+
+        const grades = await Promise.all(
+            answered.map(({ question, answer }) => gradeAnswer(question, answer.answer, this.grader))
+        );
+
+        const gradedAnswers: QuizAnswer[] = answered.map(({ question, answer }, index) => {
+            const grade = grades[index];
+            score = roundPoints(score + grade.pointsEarned);
+
+            return {
+                questionId: question.id,
+                answer: answer.answer,
+                isCorrect: grade.isCorrect,
+                pointsEarned: grade.pointsEarned,
+                feedback: grade.feedback,
+            };
         });
 
         const result: QuizResult = {
             quizId,
             score,
             maxScore,
-            percentage: (score / maxScore) * 100,
-            answers,
+            percentage: maxScore > 0 ? (score / maxScore) * 100 : 0,
+            answers: gradedAnswers,
             completedAt: Date.now(),
-            timeSpent: 0, // Can be tracked separately
+            timeSpent: timeSpent ?? 0,
         };
 
-        this.userState!.quizResults.push(result);
-        this.userState!.progress.totalQuizzes++;
+        this.state.storage.transactionSync(() => {
+            // Keep drafted rubrics so later attempts are graded against the same criteria
+            answered.forEach(({ question }, index) => {
+                const rubric = grades[index].rubric;
+                if (rubric) {
+                    question.rubric = rubric;
+                    this.store.setQuestionRubric(quizId, question.id, rubric);
+                }
+            });
 
-        // Update average score
-        const allScores = this.userState!.quizResults.map(r => r.percentage);
-        this.userState!.progress.averageScore =
-            allScores.reduce((sum, s) => sum + s, 0) / allScores.length;
+            this.store.addQuizResult(result);
 
-        // Add to recent activity
-        this.userState!.progress.recentActivity.unshift({
-            type: 'quiz',
-            topic: quiz.topic,
-            timestamp: Date.now(),
-            score: result.percentage,
-        });
+            this.store.addActivity({
+                type: 'quiz',
+                topic: quiz.topic,
+                timestamp: result.completedAt,
+                score: result.percentage,
+            });
 
-        // Update topic quiz average
-        await this.updateTopicQuizAverage(quiz.topic, result.percentage);
+            // Update topic quiz average
+            this.updateTopicQuizAverage(quiz.topic);
+            this.scheduleReview(quiz.topic, qualityFromScore(result.percentage), result.completedAt);
+        });
 
-        await this.state.storage.put('userState', this.userState);
+        // Answers and explanations are only revealed once the attempt is graded
+        const graded: GradedQuizResult = {
+            ...result,
+            review: buildQuizReview(quiz, gradedAnswers),
+        };
 
-        return new Response(JSON.stringify(result), {
+        return new Response(JSON.stringify(graded), {
             headers: { 'Content-Type': 'application/json' },
         });
     }
 
     private async getQuizResults(): Promise<Response> {
-        return new Response(JSON.stringify(this.userState!.quizResults), {
+        return new Response(JSON.stringify(this.store.listQuizResults()), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    /**
+     * The whole quiz, answer key included, for the worker's exports. Like
+     * search and the card export, it is only given out once the quiz has been
+     * submitted, so it can't be read while the quiz is being taken.
+     */
+    private async getQuiz(request: Request): Promise<Response> {
+        const { quizId }: { quizId: string } = await request.json();
+        const quiz = this.store.getQuiz(quizId);
+
+        if (!quiz) {
+            return this.quizNotFound(quizId);
+        }
+
+        if (!this.store.hasAttempt(quizId)) {
+            return new Response(JSON.stringify({
+                error: 'Submit the quiz before exporting it',
+                fieldErrors: [{ field: 'quizId', message: `Quiz ${quizId} has no attempts yet` }],
+            }), {
+                status: 409,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        return new Response(JSON.stringify({ quiz }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    private quizNotFound(quizId: string): Response {
+        return new Response(JSON.stringify({
+            error: 'Quiz not found',
+            fieldErrors: [{ field: 'quizId', message: `No quiz with id ${quizId}` }],
+        }), {
+            status: 404,
             headers: { 'Content-Type': 'application/json' },
         });
     }
 
     // Progress methods
     private async getOverallProgress(): Promise<Response> {
-        return new Response(JSON.stringify(this.userState!.progress), {
+        const { totalQuizzes, averageScore } = this.store.quizStats();
+
+        // Aggregates are derived from the tables, so they can't drift from them.
+        // The worker fills in userId; this object only knows its own data.
+        const progress: ProgressData = {
+            userId: '',
+            totalStudyTime: this.store.totalStudyMinutes(),
+            totalSessions: this.store.countSessions(),
+            totalQuizzes,
+            averageScore,
+            ...this.computeStreaks(),
+            topicsStudied: this.store.listTopicProgress(),
+            recentActivity: this.store.recentActivity(RECENT_ACTIVITY_LIMIT),
+        };
+
+        return new Response(JSON.stringify(progress), {
             headers: { 'Content-Type': 'application/json' },
         });
     }
 
     private async getTopicProgress(): Promise<Response> {
-        return new Response(JSON.stringify(this.userState!.progress.topicsStudied), {
+        return new Response(JSON.stringify(this.store.listTopicProgress()), {
             headers: { 'Content-Type': 'application/json' },
         });
     }
 
-    private async updateTopicProgress(topic: string, duration: number): Promise<void> {
-        let topicProgress = this.userState!.progress.topicsStudied.find(t => t.topic === topic);
-
-        if (!topicProgress) {
-            topicProgress = {
-                topic,
-                masteryLevel: 0,
-                timeSpent: 0,
-                sessionsCount: 0,
-                quizAverage: 0,
-                lastStudied: Date.now(),
-            };
-            this.userState!.progress.topicsStudied.push(topicProgress);
-        }
+    private updateTopicProgress(topic: string, duration: number): void {
+        const topicProgress: TopicProgress = this.store.getTopicProgress(topic) || {
+            topic,
+            masteryLevel: 0,
+            timeSpent: 0,
+            sessionsCount: 0,
+            quizAverage: 0,
+            lastStudied: Date.now(),
+        };
 
         topicProgress.timeSpent += duration;
         topicProgress.sessionsCount++;
@@ -309,35 +950,342 @@ export class StudyState implements DurableObject {
             100,
             (topicProgress.sessionsCount * 10) + (topicProgress.quizAverage * 0.5)
         );
+
+        this.store.saveTopicProgress(topicProgress);
     }
 
-    private async updateTopicQuizAverage(topic: string, score: number): Promise<void> {
-        const topicProgress = this.userState!.progress.topicsStudied.find(t => t.topic === topic);
+    private updateTopicQuizAverage(topic: string): void {
+        const topicProgress = this.store.getTopicProgress(topic);
 
         if (topicProgress) {
-            const quizResults = this.userState!.quizResults.filter(
-                r => this.userState!.quizzes[r.quizId]?.topic === topic
-            );
-
-            const avg = quizResults.reduce((sum, r) => sum + r.percentage, 0) / quizResults.length;
-            topicProgress.quizAverage = avg;
+            topicProgress.quizAverage = this.store.topicQuizAverage(topic);
 
             // Update mastery level
             topicProgress.masteryLevel = Math.min(
                 100,
                 (topicProgress.sessionsCount * 10) + (topicProgress.quizAverage * 0.5)
             );
+
+            this.store.saveTopicProgress(topicProgress);
+        }
+    }
+
+    /**
+     * Streaks from every completed session and graded quiz, counted in
+     * calendar days of the user's time zone
+     */
+    private computeStreaks(now = Date.now()): Pick<ProgressData, 'currentStreak' | 'longestStreak'> {
+        const settings = this.store.getSettings();
+
+        const timestamps = [
+            ...this.store.completedSessionTimes(),
+            ...this.store.quizCompletionTimes(),
+        ];
+
+        return computeStreaks(timestamps, now, {
+            timeZone: settings.timeZone,
+            freezeDays: settings.streakFreezeDays,
+        });
+    }
+
+    // Settings methods
+    private async getSettings(): Promise<Response> {
+        return new Response(JSON.stringify(this.store.getSettings()), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    private async updateSettings(request: Request): Promise<Response> {
+        const updates: Partial<UserSettings> = await request.json();
+
+        const settings = { ...this.store.getSettings(), ...updates };
+        this.store.saveSettings(settings);
+
+        return new Response(JSON.stringify(settings), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    // Review methods
+    private async getDueReviews(): Promise<Response> {
+        const items = this.store.dueRepetitionItems(Date.now());
+
+        return new Response(JSON.stringify({ items }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    // Flashcard methods
+    private async listFlashcards(request: Request): Promise<Response> {
+        const { topic, due }: { topic?: string; due?: boolean } = await request.json();
+        const cards = this.store.listFlashcards({ topic, dueBy: due ? Date.now() : undefined });
+
+        return new Response(JSON.stringify({ cards }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    private async createFlashcard(request: Request): Promise<Response> {
+        const { front, back, topic }: { front: string; back: string; topic: string } = await request.json();
+        const card = this.newFlashcard({ front, back, topic, source: 'manual' }, Date.now());
+        this.store.saveFlashcard(card);
+
+        return new Response(JSON.stringify({ card }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    /**
+     * Have the model draft cards from a session's transcript or from quiz
+     * questions answered wrong. Messages and questions that already have
+     * cards are skipped, so generating again only adds cards for new material.
+     */
+    private async generateFlashcards(request: Request): Promise<Response> {
+        const { from, sessionId, topic }: GenerateFlashcardsRequest = await request.json();
+        const now = Date.now();
+        let cards: Flashcard[];
+
+        try {
+            if (from === 'chat') {
+                const session = sessionId ? this.store.getSession(sessionId) : null;
+                if (!session) {
+                    return this.sessionNotFound(sessionId ?? '');
+                }
+
+                const carded = this.store.cardedMessageIds(session.id);
+                const messages = this.store.getMessages(session.id)
+                    .filter(m => m.role !== 'system' && m.id !== undefined && !carded.has(m.id));
+                const drafts = messages.length > 0
+                    ? await this.ai.extractFlashcards(
+                        session.topic,
+                        'transcript',
+                        messages.map(m => `${m.role === 'user' ? 'Student' : 'Tutor'}: ${m.content}`),
+                        GENERATED_FLASHCARD_LIMIT
+                    )
+                    : [];
+
+                cards = drafts.map(draft => this.newFlashcard({
+                    front: draft.front,
+                    back: draft.back,
+                    topic: session.topic,
+                    source: 'chat',
+                    sessionId: session.id,
+                    messageId: messages[draft.excerpt].id,
+                }, now));
+            } else {
+                const mistakes = this.store.uncardedMistakes({ sessionId, topic }, FLASHCARD_MISTAKE_LIMIT);
+                const drafts = mistakes.length > 0
+                    ? await this.ai.extractFlashcards(
+                        topic ?? [...new Set(mistakes.map(m => m.topic))].join(', '),
+                        'mistakes',
+                        mistakes.map(m =>
+                            `Question: ${m.question}\nCorrect answer: ${m.correctAnswer}\nStudent's answer: ${m.studentAnswer}\nExplanation: ${m.explanation}`
+                        ),
+                        GENERATED_FLASHCARD_LIMIT
+                    )
+                    : [];
+
+                cards = drafts.map(draft => this.newFlashcard({
+                    front: draft.front,
+                    back: draft.back,
+                    topic: mistakes[draft.excerpt].topic,
+                    source: 'quiz',
+                    quizId: mistakes[draft.excerpt].quizId,
+                    questionId: mistakes[draft.excerpt].questionId,
+                }, now));
+            }
+        } catch (error) {
+            console.error('Flashcard generation failed:', error);
+            return new Response(JSON.stringify({ error: 'Could not generate flashcards. Please try again.' }), {
+                status: 502,
+                headers: { 'Content-Type': 'application/json' },
+            });
         }
+
+        this.state.storage.transactionSync(() => cards.forEach(card => this.store.saveFlashcard(card)));
+
+        return new Response(JSON.stringify({ cards }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    private async updateFlashcard(request: Request): Promise<Response> {
+        const { cardId, ...changes }: UpdateFlashcardRequest & { cardId: string } = await request.json();
+        const card = this.store.getFlashcard(cardId);
+
+        if (!card) {
+            return this.flashcardNotFound(cardId);
+        }
+
+        const updated: Flashcard = {
+            ...card,
+            front: changes.front ?? card.front,
+            back: changes.back ?? card.back,
+            topic: changes.topic ?? card.topic,
+        };
+        this.store.saveFlashcard(updated);
+
+        return new Response(JSON.stringify({ card: updated }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
     }
 
-    private async updateProgress(request: Request): Promise<Response> {
-        const updates = await request.json();
+    private async deleteFlashcard(request: Request): Promise<Response> {
+        const { cardId }: { cardId: string } = await request.json();
 
-        Object.assign(this.userState!.progress, updates);
-        await this.state.storage.put('userState', this.userState);
+        if (!this.store.deleteFlashcard(cardId)) {
+            return this.flashcardNotFound(cardId);
+        }
 
         return new Response(JSON.stringify({ success: true }), {
             headers: { 'Content-Type': 'application/json' },
         });
     }
-}
\ No newline at end of file
+
+    // Reschedule a card from how well it was recalled
+    private async reviewFlashcard(request: Request): Promise<Response> {
+        const { cardId, rating }: { cardId: string; rating: FlashcardRating } = await request.json();
+        const card = this.store.getFlashcard(cardId);
+
+        if (!card) {
+            return this.flashcardNotFound(cardId);
+        }
+
+        const reviewed = reviewItem(card, RATING_QUALITY[rating], Date.now(), this.store.getSettings().timeZone);
+        this.store.saveFlashcard(reviewed);
+
+        return new Response(JSON.stringify({ card: reviewed }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    private async exportFlashcards(request: Request): Promise<Response> {
+        const { include = 'all', topic }: Omit<ExportFlashcardsQuery, 'format'> = await request.json();
+        const data: CardExport = {
+            cards: include !== 'questions' ? this.store.listFlashcards({ topic }) : [],
+            questions: include !== 'cards' ? this.store.questionBank(topic) : [],
+        };
+
+        return new Response(JSON.stringify(data), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    /**
+     * File the rows of an imported card file under topics and add a card for
+     * each row that isn't in the deck already. Topics are mapped through
+     * `topicMap`, then matched case-insensitively to known ones so "quantum
+     * physics" joins "Quantum Physics". A dry run reports the same rows
+     * without saving anything.
+     */
+    private async importFlashcards(request: Request): Promise<Response> {
+        const { rows, topic, topicMap = {}, dryRun = false }:
+            Omit<ImportFlashcardsRequest, 'format' | 'content'> & { rows: CardFileRow[] } = await request.json();
+        const now = Date.now();
+
+        const knownTopics = new Map(this.store.knownTopics().map(known => [known.toLowerCase(), known]));
+        const mappedTopics = new Map(Object.entries(topicMap).map(([from, to]) => [from.trim().toLowerCase(), to]));
+        const inDeck = new Set(this.store.listFlashcards({}).map(card => flashcardKey(card.front, card.topic)));
+        const inFile = new Map<string, number>(); // key -> line of the row that adds it
+
+        const results: CardImportRow[] = [];
+        const cards: Flashcard[] = [];
+
+        for (const row of rows) {
+            const named = row.topic ?? topic ?? '';
+            const mapped = mappedTopics.get(named.toLowerCase()) ?? named;
+            const filed = knownTopics.get(mapped.toLowerCase()) ?? mapped;
+            const key = flashcardKey(row.front, filed);
+
+            let reason: string | undefined;
+            if (!row.front || !row.back) {
+                reason = 'Missing front or back';
+            } else if (row.front.length > MAX_CARD_TEXT_LENGTH || row.back.length > MAX_CARD_TEXT_LENGTH) {
+                reason = `Longer than ${MAX_CARD_TEXT_LENGTH} characters`;
+            } else if (!filed) {
+                reason = 'No topic';
+            } else if (inDeck.has(key)) {
+                reason = 'Already in your deck';
+            } else if (inFile.has(key)) {
+                reason = `Same as line ${inFile.get(key)}`;
+            }
+
+            const result: CardImportRow = {
+                line: row.line,
+                front: row.front,
+                back: row.back,
+                fileTopic: row.topic,
+                topic: filed,
+                action: reason ? 'skip' : 'create',
+                reason,
+            };
+            results.push(result);
+
+            if (!reason) {
+                inFile.set(key, row.line);
+                knownTopics.set(filed.toLowerCase(), filed);
+                cards.push(this.newFlashcard({ front: row.front, back: row.back, topic: filed, source: 'import' }, now));
+            }
+        }
+
+        if (!dryRun) {
+            this.state.storage.transactionSync(() => cards.forEach(card => this.store.saveFlashcard(card)));
+        }
+
+        const response: ImportFlashcardsResponse = {
+            dryRun,
+            created: cards.length,
+            skipped: results.length - cards.length,
+            rows: results,
+        };
+
+        return new Response(JSON.stringify(response), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    private newFlashcard(
+        fields: Omit<Flashcard, 'id' | 'createdAt' | 'nextReview' | 'interval' | 'easeFactor' | 'repetitions'>,
+        now: number
+    ): Flashcard {
+        return { id: `card_${crypto.randomUUID()}`, ...fields, createdAt: now, ...newSchedule(now) };
+    }
+
+    private flashcardNotFound(cardId: string): Response {
+        return new Response(JSON.stringify({
+            error: 'Flashcard not found',
+            fieldErrors: [{ field: 'cardId', message: `No flashcard with id ${cardId}` }],
+        }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    // Search methods
+    private async search(request: Request): Promise<Response> {
+        const { q, limit }: { q: string; limit?: number } = await request.json();
+        const match = toMatchQuery(q);
+        const results = match ? this.store.search(match, limit ?? DEFAULT_SEARCH_LIMIT) : [];
+
+        return new Response(JSON.stringify({ results }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    /**
+     * Run an SM-2 review for the topic and mirror the next review date onto
+     * its progress entry
+     */
+    private scheduleReview(topic: string, quality: number, now: number): void {
+        const current = this.store.getRepetitionItem(topic) || createRepetitionItem(topic, now);
+        const updated = reviewItem(current, quality, now, this.store.getSettings().timeZone);
+
+        this.store.saveRepetitionItem(updated);
+
+        const topicProgress = this.store.getTopicProgress(topic);
+        if (topicProgress) {
+            topicProgress.nextReview = updated.nextReview;
+            this.store.saveTopicProgress(topicProgress);
+        }
+    }
+}
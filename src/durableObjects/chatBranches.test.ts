@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage } from '../types';
+import { StoredMessage, activeBranch, branchEnd, branchHead, historyBefore, lastExchange } from './chatBranches';
+
+// A session's message tree, stored the way StudyState stores it: ids in
+// insertion order, each message following its parent
+function conversation() {
+    const messages: StoredMessage[] = [];
+
+    const add = (parentId: number | null, role: ChatMessage['role'], content: string): number => {
+        const id = messages.length + 1;
+        messages.push({ id, parentId, role, content, timestamp: id * 1000 });
+        return id;
+    };
+
+    return { messages, add };
+}
+
+const ids = (branch: ChatMessage[]) => branch.map(m => m.id);
+const variantsOf = (branch: ChatMessage[]) => Object.fromEntries(
+    branch.filter(m => m.variants).map(m => [m.id, m.variants])
+);
+
+// What is a closure? / answer / Show me one. / example
+function twoTurns() {
+    const chat = conversation();
+    const q1 = chat.add(null, 'user', 'What is a closure?');
+    const a1 = chat.add(q1, 'assistant', 'A function with its scope.');
+    const q2 = chat.add(a1, 'user', 'Show me one.');
+    const a2 = chat.add(q2, 'assistant', 'Here is an example.');
+    return { ...chat, q1, a1, q2, a2 };
+}
+
+describe('activeBranch', () => {
+    it('is the whole chat, without variants, before anything is regenerated or edited', () => {
+        const { messages, a2 } = twoTurns();
+
+        const branch = activeBranch(messages, a2);
+
+        expect(ids(branch)).toEqual([1, 2, 3, 4]);
+        expect(variantsOf(branch)).toEqual({});
+        expect(branch[0]).not.toHaveProperty('parentId');
+        expect(branchEnd(branch)).toBe(a2);
+    });
+
+    it('falls back to the newest message for an unknown or missing head', () => {
+        const { messages, add, a1 } = twoTurns();
+        const edited = add(a1, 'user', 'Show me two.');
+
+        expect(ids(activeBranch(messages, 999))).toEqual([1, 2, edited]);
+        expect(ids(activeBranch(messages, null))).toEqual([1, 2, edited]);
+    });
+
+    it('is empty for a chat without messages', () => {
+        expect(activeBranch([], null)).toEqual([]);
+        expect(branchEnd([])).toBeNull();
+    });
+});
+
+describe('regenerating a reply', () => {
+    it('answers the branch\'s last question with the history before it', () => {
+        const { messages, a2, q2 } = twoTurns();
+
+        const exchange = lastExchange(activeBranch(messages, a2));
+
+        expect(exchange?.question.id).toBe(q2);
+        expect(ids(exchange!.history)).toEqual([1, 2]);
+    });
+
+    it('adds a sibling reply and keeps the earlier one as a variant', () => {
+        const { messages, add, q2, a2 } = twoTurns();
+        const regenerated = add(q2, 'assistant', 'Here is another example.');
+
+        const shown = activeBranch(messages, regenerated);
+        const earlier = activeBranch(messages, a2);
+
+        expect(ids(shown)).toEqual([1, 2, 3, regenerated]);
+        expect(variantsOf(shown)).toEqual({ [regenerated]: [a2, regenerated] });
+        expect(ids(earlier)).toEqual([1, 2, 3, a2]);
+        expect(variantsOf(earlier)).toEqual({ [a2]: [a2, regenerated] });
+    });
+
+    it('has nothing to answer without a question', () => {
+        expect(lastExchange([])).toBeNull();
+        expect(lastExchange([{ id: 1, role: 'assistant', content: 'Welcome!', timestamp: 0 }])).toBeNull();
+    });
+});
+
+describe('editing a question', () => {
+    it('forks a branch from the history before the question', () => {
+        const { messages, add, q2, a2 } = twoTurns();
+
+        const history = historyBefore(activeBranch(messages, a2), q2);
+        expect(ids(history!)).toEqual([1, 2]);
+
+        const edited = add(branchEnd(history!), 'user', 'Show me two.');
+        const reply = add(edited, 'assistant', 'Here are two examples.');
+        const forked = activeBranch(messages, reply);
+
+        expect(ids(forked)).toEqual([1, 2, edited, reply]);
+        expect(variantsOf(forked)).toEqual({ [edited]: [q2, edited] });
+        // The original question and its reply are still there
+        expect(ids(activeBranch(messages, a2))).toEqual([1, 2, q2, a2]);
+    });
+
+    it('forks from the start when the first question is edited', () => {
+        const { messages, add, q1, a2 } = twoTurns();
+
+        const history = historyBefore(activeBranch(messages, a2), q1);
+        expect(history).toEqual([]);
+
+        const edited = add(branchEnd(history!), 'user', 'What is a callback?');
+
+        expect(ids(activeBranch(messages, edited))).toEqual([edited]);
+        expect(variantsOf(activeBranch(messages, edited))).toEqual({ [edited]: [q1, edited] });
+    });
+
+    it('only edits user messages on the shown branch', () => {
+        const { messages, add, a1, a2 } = twoTurns();
+        const offBranch = add(a1, 'user', 'Show me two.');
+        const branch = activeBranch(messages, a2);
+
+        expect(historyBefore(branch, a1)).toBeNull();
+        expect(historyBefore(branch, offBranch)).toBeNull();
+        expect(historyBefore(branch, 999)).toBeNull();
+    });
+});
+
+describe('branchHead', () => {
+    it('follows a variant to its newest continuation', () => {
+        const { messages, add, q2, a2 } = twoTurns();
+        const regenerated = add(q2, 'assistant', 'Here is another example.');
+        const followUp = add(a2, 'user', 'Explain that example.');
+        add(followUp, 'assistant', 'First explanation.');
+        const newer = add(followUp, 'assistant', 'Second explanation.');
+
+        expect(branchHead(messages, a2)).toBe(newer);
+        expect(branchHead(messages, regenerated)).toBe(regenerated);
+        // From the question, the newest reply is the regenerated one
+        expect(branchHead(messages, q2)).toBe(regenerated);
+        expect(ids(activeBranch(messages, branchHead(messages, a2)))).toEqual([1, 2, 3, a2, followUp, newer]);
+    });
+
+    it('is the message itself when nothing follows it', () => {
+        const { messages, a2 } = twoTurns();
+
+        expect(branchHead(messages, a2)).toBe(a2);
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * Chat branches. A session's messages form a tree: each message follows its
+ * parent, and regenerating a reply or editing a question adds a sibling
+ * rather than replacing anything. The chat shows one branch, from the first
+ * message down to the session's head message.
+ */
+import { ChatMessage } from '../types';
+
+export interface StoredMessage extends ChatMessage {
+    id: number;
+    parentId: number | null; // null for the first message of the conversation
+}
+
+// Ids of each message's replies, oldest first. The conversation's first
+// messages are listed under null.
+function childrenByParent(messages: StoredMessage[]): Map<number | null, number[]> {
+    const children = new Map<number | null, number[]>();
+    for (const message of messages) {
+        const siblings = children.get(message.parentId) ?? [];
+        siblings.push(message.id);
+        children.set(message.parentId, siblings);
+    }
+    return children;
+}
+
+/**
+ * The branch ending at `headId`, first message first, each listing its
+ * variants when it has siblings. Without a known head it is the branch of the
+ * newest message. `messages` must be ordered by id.
+ */
+export function activeBranch(messages: StoredMessage[], headId: number | null): ChatMessage[] {
+    const byId = new Map(messages.map(message => [message.id, message]));
+    const children = childrenByParent(messages);
+    const branch: ChatMessage[] = [];
+
+    let current: StoredMessage | undefined = (headId !== null ? byId.get(headId) : undefined) ?? messages[messages.length - 1];
+    while (current) {
+        const { parentId, ...message }: StoredMessage = current;
+        const variants = children.get(parentId) ?? [];
+        branch.push(variants.length > 1 ? { ...message, variants } : message);
+        current = parentId !== null ? byId.get(parentId) : undefined;
+    }
+
+    return branch.reverse();
+}
+
+/**
+ * Where the branch through `messageId` ends, following the newest reply at
+ * each step, so switching to a variant shows its latest continuation
+ */
+export function branchHead(messages: StoredMessage[], messageId: number): number {
+    const children = childrenByParent(messages);
+    let head = messageId;
+
+    for (let replies = children.get(head); replies; replies = children.get(head)) {
+        head = replies[replies.length - 1];
+    }
+
+    return head;
+}
+
+// The message a new turn on this branch follows; null for an empty one
+export function branchEnd(branch: ChatMessage[]): number | null {
+    return branch[branch.length - 1]?.id ?? null;
+}
+
+/**
+ * What a regenerated reply answers: the branch's last user message and the
+ * history before it. Null when there is no question to answer.
+ */
+export function lastExchange(branch: ChatMessage[]): { question: ChatMessage; history: ChatMessage[] } | null {
+    const index = branch.map(message => message.role).lastIndexOf('user');
+    return index >= 0 ? { question: branch[index], history: branch.slice(0, index) } : null;
+}
+
+// The history before a user message being edited; null if `messageId` isn't
+// a user message on this branch
+export function historyBefore(branch: ChatMessage[], messageId: number): ChatMessage[] | null {
+    const index = branch.findIndex(message => message.id === messageId);
+    return index >= 0 && branch[index].role === 'user' ? branch.slice(0, index) : null;
+}
@@ -0,0 +1,78 @@
+import { UserState } from '../types';
+import { getMeta, setMeta } from './schema';
+import { StudyStore } from './studyStore';
+
+// Key under which StudyState kept everything before the move to SQLite
+const LEGACY_STATE_KEY = 'userState';
+const IMPORTED_FLAG = 'legacy_state_imported';
+
+/**
+ * Copy a pre-SQLite `userState` blob into the tables, then delete it. Runs
+ * once per object: the import and its completion flag commit together, so an
+ * interrupted import is retried from scratch and a finished one never repeats.
+ */
+export async function migrateLegacyState(storage: DurableObjectStorage, store: StudyStore): Promise<void> {
+    if (getMeta(storage.sql, IMPORTED_FLAG)) {
+        return;
+    }
+
+    const legacy = await storage.get<UserState>(LEGACY_STATE_KEY);
+
+    storage.transactionSync(() => {
+        if (legacy) {
+            importLegacyState(store, legacy);
+        }
+        setMeta(storage.sql, IMPORTED_FLAG, String(Date.now()));
+    });
+
+    if (legacy) {
+        await storage.delete(LEGACY_STATE_KEY);
+    }
+}
+
+function importLegacyState(store: StudyStore, legacy: UserState): void {
+    // Sessions couldn't be paused or end on their own back then, so each ran
+    // in one interval and was completed by the user
+    for (const session of Object.values(legacy.sessions || {})) {
+        store.saveSession(session.status === 'completed' ? { ...session, endReason: 'manual' } : session);
+        store.openInterval(session.id, session.startTime);
+        if (session.endTime !== undefined) {
+            store.closeInterval(session.id, session.endTime);
+        }
+        if (session.status === 'completed') {
+            store.markOutcomeRecorded(session.id);
+        }
+    }
+
+    for (const history of Object.values(legacy.chatHistories || {})) {
+        for (const message of history.messages) {
+            store.addMessage(history.sessionId, message);
+        }
+    }
+
+    for (const quiz of Object.values(legacy.quizzes || {})) {
+        store.saveQuiz(quiz);
+    }
+
+    for (const result of legacy.quizResults || []) {
+        store.addQuizResult(result);
+    }
+
+    const progress = legacy.progress;
+    for (const topic of progress?.topicsStudied || []) {
+        store.saveTopicProgress(topic);
+    }
+
+    // Stored newest first
+    for (const activity of [...(progress?.recentActivity || [])].reverse()) {
+        store.addActivity(activity);
+    }
+
+    for (const item of legacy.spacedRepetitionQueue || []) {
+        store.saveRepetitionItem(item);
+    }
+
+    if (legacy.settings) {
+        store.saveSettings(legacy.settings);
+    }
+}
@@ -0,0 +1,206 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { build } from 'esbuild';
+import { Miniflare } from 'miniflare';
+import { SessionSummary } from '../types';
+
+// A Durable Object that migrates its SQLite database to a given version and
+// runs queries against it, so each test can seed an older schema
+const HARNESS = `
+import { migrateSchema } from './schema';
+
+export class MigrationHarness {
+    constructor(state) {
+        this.sql = state.storage.sql;
+    }
+
+    async fetch(request) {
+        const { target, query, params = [] } = await request.json();
+        if (query === undefined) {
+            migrateSchema(this.sql, target);
+            return Response.json([]);
+        }
+        return Response.json(this.sql.exec(query, ...params).toArray());
+    }
+}
+
+export default {
+    fetch() {
+        return new Response(null, { status: 404 });
+    },
+};
+`;
+
+// The schema version before chat branches (9) and search (10)
+const BEFORE_BRANCHES = 8;
+
+let mf: Miniflare;
+
+beforeAll(async () => {
+    const bundle = await build({
+        stdin: { contents: HARNESS, resolveDir: new URL('.', import.meta.url).pathname, loader: 'js' },
+        bundle: true,
+        format: 'esm',
+        write: false,
+    });
+
+    mf = new Miniflare({
+        modules: true,
+        script: bundle.outputFiles[0].text,
+        compatibilityDate: '2024-10-01',
+        durableObjects: { DB: { className: 'MigrationHarness', useSQLite: true } },
+    });
+    await mf.ready;
+}, 30_000);
+
+afterAll(async () => {
+    await mf?.dispose();
+});
+
+type Row = Record<string, unknown>;
+
+// A fresh database per test
+async function database() {
+    const namespace = await mf.getDurableObjectNamespace('DB');
+    const stub = namespace.get(namespace.newUniqueId());
+
+    const send = async (body: unknown): Promise<Row[]> => {
+        const response = await stub.fetch('http://harness/', { method: 'POST', body: JSON.stringify(body) });
+        return await response.json() as Row[];
+    };
+
+    return {
+        migrate: (target?: number) => send({ target }),
+        exec: (query: string, ...params: unknown[]) => send({ query, params }),
+    };
+}
+
+type Database = Awaited<ReturnType<typeof database>>;
+
+async function addSession(db: Database, id: string, topic: string, summary: SessionSummary | null = null) {
+    await db.exec(
+        `INSERT INTO sessions (id, topic, duration, difficulty, start_time, end_time, status, messages_count, summary)
+         VALUES (?, ?, 30, 'beginner', 1000, 2000, 'completed', 0, ?)`,
+        id,
+        topic,
+        summary ? JSON.stringify(summary) : null
+    );
+}
+
+async function addMessage(db: Database, sessionId: string, content: string): Promise<number> {
+    const [row] = await db.exec(
+        `INSERT INTO messages (session_id, role, content, timestamp) VALUES (?, 'user', ?, 1500) RETURNING id`,
+        sessionId,
+        content
+    );
+    return row.id as number;
+}
+
+describe('migration 9: chat branches', () => {
+    it('chains each session\'s existing messages and points the session at the last one', async () => {
+        const db = await database();
+        await db.migrate(BEFORE_BRANCHES);
+        await addSession(db, 's1', 'Closures');
+        await addSession(db, 's2', 'Recursion');
+        await addSession(db, 's3', 'Sorting');
+
+        // Interleave the sessions so ids aren't consecutive within one
+        const a1 = await addMessage(db, 's1', 'first');
+        const b1 = await addMessage(db, 's2', 'other first');
+        const a2 = await addMessage(db, 's1', 'second');
+        const a3 = await addMessage(db, 's1', 'third');
+        const b2 = await addMessage(db, 's2', 'other second');
+
+        await db.migrate();
+
+        expect(await db.exec('SELECT id, parent_id FROM messages ORDER BY id')).toEqual([
+            { id: a1, parent_id: null },
+            { id: b1, parent_id: null },
+            { id: a2, parent_id: a1 },
+            { id: a3, parent_id: a2 },
+            { id: b2, parent_id: b1 },
+        ]);
+        expect(await db.exec('SELECT id, head_message_id FROM sessions ORDER BY id')).toEqual([
+            { id: 's1', head_message_id: a3 },
+            { id: 's2', head_message_id: b2 },
+            { id: 's3', head_message_id: null },
+        ]);
+    });
+
+    it('sets a summary\'s last message to the one its message count ends at', async () => {
+        const db = await database();
+        await db.migrate(BEFORE_BRANCHES);
+        await addSession(db, 's1', 'Closures');
+        await addSession(db, 's2', 'Recursion');
+
+        await addMessage(db, 's1', 'first');
+        await addMessage(db, 's2', 'other first');
+        const second = await addMessage(db, 's1', 'second');
+        await addMessage(db, 's1', 'third');
+
+        await db.exec(
+            `INSERT INTO chat_summaries (session_id, content, message_count, updated_at) VALUES ('s1', 'Covered two', 2, 1)`
+        );
+        // A count past the end of the chat covers no message
+        await db.exec(
+            `INSERT INTO chat_summaries (session_id, content, message_count, updated_at) VALUES ('s2', 'Stale', 5, 1)`
+        );
+
+        await db.migrate();
+
+        expect(await db.exec('SELECT session_id, last_message_id FROM chat_summaries ORDER BY session_id')).toEqual([
+            { session_id: 's1', last_message_id: second },
+            { session_id: 's2', last_message_id: null },
+        ]);
+    });
+});
+
+describe('migration 10: search index', () => {
+    it('indexes existing messages, quiz questions and session summaries', async () => {
+        const db = await database();
+        await db.migrate(BEFORE_BRANCHES);
+        await addSession(db, 's1', 'Closures', {
+            overview: 'Went over closures',
+            conceptsCovered: ['lexical scope'],
+            strengths: [],
+            gaps: ['hoisting'],
+            nextSteps: [],
+        });
+
+        const message = await addMessage(db, 's1', 'What does a closure capture?');
+        // A message whose session row is gone still gets indexed, with no topic
+        const orphan = await addMessage(db, 'gone', 'Orphaned question');
+
+        await db.exec(
+            `INSERT INTO quizzes (id, topic, difficulty, created_at, session_id) VALUES ('quiz_1', 'Closures', 'beginner', 3000, 's1')`
+        );
+        await db.exec(
+            `INSERT INTO questions (quiz_id, id, position, question, type, correct_answer, explanation, points)
+             VALUES ('quiz_1', 'q1', 0, 'Define a closure', 'short-answer', 'A function with its scope', 'It keeps its scope', 10)`
+        );
+
+        await db.migrate();
+
+        const rows = await db.exec(
+            'SELECT kind, body, topic, session_id, ref, timestamp FROM search_index ORDER BY kind, ref'
+        );
+        expect(rows).toEqual([
+            { kind: 'message', body: 'What does a closure capture?', topic: 'Closures', session_id: 's1', ref: message, timestamp: 1500 },
+            { kind: 'message', body: 'Orphaned question', topic: '', session_id: 'gone', ref: orphan, timestamp: 1500 },
+            { kind: 'quiz', body: 'Define a closure\nIt keeps its scope', topic: 'Closures', session_id: 's1', ref: 'quiz_1', timestamp: 3000 },
+            { kind: 'summary', body: 'Went over closures\nlexical scope\nhoisting', topic: 'Closures', session_id: 's1', ref: 's1', timestamp: 2000 },
+        ]);
+    });
+
+    it('makes the backfilled rows searchable', async () => {
+        const db = await database();
+        await db.migrate(BEFORE_BRANCHES);
+        await addSession(db, 's1', 'Closures');
+        await addMessage(db, 's1', 'Closures capture variables');
+        await addMessage(db, 's1', 'Unrelated chatter');
+
+        await db.migrate();
+
+        const rows = await db.exec(`SELECT body FROM search_index WHERE search_index MATCH ?`, '"capturing"');
+        expect(rows).toEqual([{ body: 'Closures capture variables' }]);
+    });
+});
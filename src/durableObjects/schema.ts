@@ -0,0 +1,311 @@
+/**
+ * SQLite schema for StudyState.
+ *
+ * Each entry in MIGRATIONS upgrades the schema by one version and runs once,
+ * in order, inside a transaction. The applied version is kept in the `meta`
+ * table. To change the schema, append a migration; never edit one that has
+ * already shipped.
+ */
+
+import { SessionSummary } from '../types';
+import { summaryText } from './search';
+
+type Migration = (sql: SqlStorage) => void;
+
+const MIGRATIONS: Migration[] = [
+    // 1: initial tables
+    sql => {
+        sql.exec(`
+            CREATE TABLE sessions (
+                id TEXT PRIMARY KEY,
+                topic TEXT NOT NULL,
+                duration INTEGER NOT NULL,
+                difficulty TEXT NOT NULL,
+                start_time INTEGER NOT NULL,
+                end_time INTEGER,
+                status TEXT NOT NULL,
+                messages_count INTEGER,
+                summary TEXT
+            );
+            CREATE INDEX sessions_by_status ON sessions (status, start_time);
+
+            CREATE TABLE messages (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                session_id TEXT NOT NULL,
+                role TEXT NOT NULL,
+                content TEXT NOT NULL,
+                timestamp INTEGER NOT NULL,
+                interrupted INTEGER NOT NULL DEFAULT 0
+            );
+            CREATE INDEX messages_by_session ON messages (session_id, id);
+
+            CREATE TABLE quizzes (
+                id TEXT PRIMARY KEY,
+                topic TEXT NOT NULL,
+                difficulty TEXT NOT NULL,
+                created_at INTEGER NOT NULL
+            );
+
+            CREATE TABLE questions (
+                quiz_id TEXT NOT NULL,
+                id TEXT NOT NULL,
+                position INTEGER NOT NULL,
+                question TEXT NOT NULL,
+                type TEXT NOT NULL,
+                options TEXT,
+                correct_answer TEXT NOT NULL,
+                explanation TEXT NOT NULL,
+                points REAL NOT NULL,
+                rubric TEXT,
+                PRIMARY KEY (quiz_id, id)
+            );
+
+            CREATE TABLE attempts (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                quiz_id TEXT NOT NULL,
+                score REAL NOT NULL,
+                max_score REAL NOT NULL,
+                percentage REAL NOT NULL,
+                completed_at INTEGER NOT NULL,
+                time_spent REAL NOT NULL
+            );
+            CREATE INDEX attempts_by_quiz ON attempts (quiz_id);
+
+            CREATE TABLE answers (
+                attempt_id INTEGER NOT NULL,
+                position INTEGER NOT NULL,
+                question_id TEXT NOT NULL,
+                answer TEXT NOT NULL,
+                is_correct INTEGER,
+                points_earned REAL,
+                feedback TEXT,
+                PRIMARY KEY (attempt_id, question_id)
+            );
+
+            CREATE TABLE activity (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                type TEXT NOT NULL,
+                topic TEXT NOT NULL,
+                timestamp INTEGER NOT NULL,
+                duration REAL,
+                score REAL
+            );
+            CREATE INDEX activity_by_time ON activity (timestamp);
+
+            CREATE TABLE topic_progress (
+                topic TEXT PRIMARY KEY,
+                mastery_level REAL NOT NULL,
+                time_spent REAL NOT NULL,
+                sessions_count INTEGER NOT NULL,
+                quiz_average REAL NOT NULL,
+                last_studied INTEGER NOT NULL,
+                next_review INTEGER
+            );
+
+            CREATE TABLE repetition_items (
+                topic TEXT PRIMARY KEY,
+                next_review INTEGER NOT NULL,
+                interval INTEGER NOT NULL,
+                ease_factor REAL NOT NULL,
+                repetitions INTEGER NOT NULL,
+                last_reviewed INTEGER,
+                last_quality INTEGER
+            );
+            CREATE INDEX repetition_items_by_due ON repetition_items (next_review);
+        `);
+    },
+
+    // 2: active intervals, so paused time doesn't count as study time.
+    // Existing sessions ran without pauses from start to end.
+    sql => {
+        sql.exec(`
+            CREATE TABLE session_intervals (
+                session_id TEXT NOT NULL,
+                started_at INTEGER NOT NULL,
+                ended_at INTEGER,
+                PRIMARY KEY (session_id, started_at)
+            );
+
+            INSERT INTO session_intervals (session_id, started_at, ended_at)
+                SELECT id, start_time, end_time FROM sessions;
+        `);
+    },
+
+    // 3: how each session ended; until now only the user could end one
+    sql => {
+        sql.exec(`
+            ALTER TABLE sessions ADD COLUMN end_reason TEXT;
+            UPDATE sessions SET end_reason = 'manual' WHERE status = 'completed';
+        `);
+    },
+
+    // 4: session history; quizzes remember the session they were taken in
+    sql => {
+        sql.exec(`
+            CREATE INDEX sessions_by_start ON sessions (start_time, id);
+
+            ALTER TABLE quizzes ADD COLUMN session_id TEXT;
+            CREATE INDEX quizzes_by_session ON quizzes (session_id);
+        `);
+    },
+
+    // 5: the workflow instance following each session, and whether its outcome
+    // has reached topic progress (completed sessions already have)
+    sql => {
+        sql.exec(`
+            ALTER TABLE sessions ADD COLUMN workflow_id TEXT;
+            ALTER TABLE sessions ADD COLUMN outcome_recorded INTEGER NOT NULL DEFAULT 0;
+            UPDATE sessions SET outcome_recorded = 1 WHERE status = 'completed';
+        `);
+    },
+
+    // 6: the learning path the workflow planned, as JSON, for the tutor prompt
+    sql => {
+        sql.exec('ALTER TABLE sessions ADD COLUMN learning_path TEXT');
+    },
+
+    // 7: running summaries of long chats
+    sql => {
+        sql.exec(`
+            CREATE TABLE chat_summaries (
+                session_id TEXT PRIMARY KEY,
+                content TEXT NOT NULL,
+                message_count INTEGER NOT NULL,
+                updated_at INTEGER NOT NULL
+            );
+        `);
+    },
+
+    // 8: tutor mode per session
+    sql => {
+        sql.exec('ALTER TABLE sessions ADD COLUMN mode TEXT');
+    },
+
+    // 9: chat branches. Each message follows a parent (existing chats become
+    // one chain), the session points at the end of the branch being shown,
+    // and a summary records the last message it covers
+    sql => {
+        sql.exec(`
+            ALTER TABLE messages ADD COLUMN parent_id INTEGER;
+            UPDATE messages SET parent_id = (
+                SELECT MAX(earlier.id) FROM messages AS earlier
+                WHERE earlier.session_id = messages.session_id AND earlier.id < messages.id
+            );
+            CREATE INDEX messages_by_parent ON messages (parent_id);
+
+            ALTER TABLE sessions ADD COLUMN head_message_id INTEGER;
+            UPDATE sessions SET head_message_id = (
+                SELECT MAX(id) FROM messages WHERE messages.session_id = sessions.id
+            );
+
+            ALTER TABLE chat_summaries ADD COLUMN last_message_id INTEGER;
+            UPDATE chat_summaries SET last_message_id = (
+                SELECT covered.id FROM messages AS covered
+                WHERE covered.session_id = chat_summaries.session_id
+                  AND chat_summaries.message_count = (
+                      SELECT COUNT(*) FROM messages AS earlier
+                      WHERE earlier.session_id = covered.session_id AND earlier.id <= covered.id
+                  )
+            );
+        `);
+    },
+
+    // 10: full-text search over messages, session summaries and quiz
+    // questions. `ref` is the message id, session id or quiz id.
+    sql => {
+        sql.exec(`
+            CREATE VIRTUAL TABLE search_index USING fts5(
+                body,
+                topic,
+                kind UNINDEXED,
+                session_id UNINDEXED,
+                ref UNINDEXED,
+                timestamp UNINDEXED,
+                tokenize = 'porter unicode61'
+            );
+
+            INSERT INTO search_index (body, topic, kind, session_id, ref, timestamp)
+            SELECT messages.content, COALESCE(sessions.topic, ''), 'message', messages.session_id, messages.id, messages.timestamp
+            FROM messages LEFT JOIN sessions ON sessions.id = messages.session_id;
+
+            INSERT INTO search_index (body, topic, kind, session_id, ref, timestamp)
+            SELECT questions.question || char(10) || questions.explanation, quizzes.topic, 'quiz', quizzes.session_id, quizzes.id, quizzes.created_at
+            FROM questions JOIN quizzes ON quizzes.id = questions.quiz_id;
+        `);
+
+        const summarized = sql.exec<{ id: string; topic: string; summary: string; start_time: number; end_time: number | null }>(
+            'SELECT id, topic, summary, start_time, end_time FROM sessions WHERE summary IS NOT NULL'
+        ).toArray();
+        for (const session of summarized) {
+            sql.exec(
+                `INSERT INTO search_index (body, topic, kind, session_id, ref, timestamp) VALUES (?, ?, 'summary', ?, ?, ?)`,
+                summaryText(JSON.parse(session.summary) as SessionSummary),
+                session.topic,
+                session.id,
+                session.id,
+                session.end_time ?? session.start_time
+            );
+        }
+    },
+
+    // 11: flashcards, each with its own SM-2 schedule
+    sql => {
+        sql.exec(`
+            CREATE TABLE flashcards (
+                id TEXT PRIMARY KEY,
+                front TEXT NOT NULL,
+                back TEXT NOT NULL,
+                topic TEXT NOT NULL,
+                source TEXT NOT NULL,
+                session_id TEXT,
+                message_id INTEGER,
+                quiz_id TEXT,
+                question_id TEXT,
+                created_at INTEGER NOT NULL,
+                next_review INTEGER NOT NULL,
+                interval INTEGER NOT NULL,
+                ease_factor REAL NOT NULL,
+                repetitions INTEGER NOT NULL,
+                last_reviewed INTEGER,
+                last_quality INTEGER
+            );
+            CREATE INDEX flashcards_by_due ON flashcards (next_review);
+            CREATE INDEX flashcards_by_message ON flashcards (session_id, message_id);
+            CREATE INDEX flashcards_by_question ON flashcards (quiz_id, question_id);
+        `);
+    },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+export function getMeta(sql: SqlStorage, key: string): string | null {
+    const rows = sql.exec<{ value: string }>('SELECT value FROM meta WHERE key = ?', key).toArray();
+    return rows.length > 0 ? rows[0].value : null;
+}
+
+export function setMeta(sql: SqlStorage, key: string, value: string): void {
+    sql.exec(
+        'INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value',
+        key,
+        value
+    );
+}
+
+/**
+ * Bring the database up to SCHEMA_VERSION (tests can stop at an earlier
+ * `target`). Call inside a transaction so a failed migration leaves the
+ * previous version intact.
+ */
+export function migrateSchema(sql: SqlStorage, target = SCHEMA_VERSION): void {
+    sql.exec('CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)');
+
+    const current = Number(getMeta(sql, 'schema_version') ?? 0);
+    if (current > SCHEMA_VERSION) {
+        throw new Error(`Database schema v${current} is newer than this code (v${SCHEMA_VERSION})`);
+    }
+
+    for (let version = current; version < target; version++) {
+        MIGRATIONS[version](sql);
+        setMeta(sql, 'schema_version', String(version + 1));
+    }
+}
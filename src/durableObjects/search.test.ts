@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { MATCH_END, MATCH_START, parseSnippet, summaryText, toMatchQuery } from './search';
+
+// A snippet() result with [brackets] standing in for the match markers
+function snippet(text: string): string {
+    return text.replace(/\[/g, MATCH_START).replace(/\]/g, MATCH_END);
+}
+
+describe('toMatchQuery', () => {
+    it('requires every word and matches the last one as a prefix', () => {
+        expect(toMatchQuery('closure')).toBe('"closure"*');
+        expect(toMatchQuery('lexical  scope clos')).toBe('"lexical" "scope" "clos"*');
+    });
+
+    it('quotes FTS5 operators and syntax so they are searched for literally', () => {
+        expect(toMatchQuery('closures AND NOT scope')).toBe('"closures" "AND" "NOT" "scope"*');
+        expect(toMatchQuery('NEAR(a b) OR c*')).toBe('"NEAR" "a" "b" "OR" "c"*');
+        expect(toMatchQuery('topic:recursion -loops ^start')).toBe('"topic" "recursion" "loops" "start"*');
+    });
+
+    it('drops quotes and punctuation rather than passing them through', () => {
+        expect(toMatchQuery('"unbalanced quote')).toBe('"unbalanced" "quote"*');
+        expect(toMatchQuery('what\'s a C++ closure?')).toBe('"what" "s" "a" "C" "closure"*');
+        expect(toMatchQuery('snake_case and 42')).toBe('"snake_case" "and" "42"*');
+    });
+
+    it('keeps letters outside ASCII', () => {
+        expect(toMatchQuery('naïve café')).toBe('"naïve" "café"*');
+        expect(toMatchQuery('Größe')).toBe('"Größe"*');
+    });
+
+    it('is null when there is nothing to search for', () => {
+        expect(toMatchQuery('')).toBeNull();
+        expect(toMatchQuery('   ')).toBeNull();
+        expect(toMatchQuery('"*" ( ) - :')).toBeNull();
+    });
+});
+
+describe('parseSnippet', () => {
+    it('splits a snippet into plain and matched stretches', () => {
+        expect(parseSnippet(snippet('A [closure] keeps its [scope] alive'))).toEqual([
+            { text: 'A ', match: false },
+            { text: 'closure', match: true },
+            { text: ' keeps its ', match: false },
+            { text: 'scope', match: true },
+            { text: ' alive', match: false },
+        ]);
+    });
+
+    it('leaves out empty stretches at the edges and between adjacent matches', () => {
+        expect(parseSnippet(snippet('[lexical][scope]'))).toEqual([
+            { text: 'lexical', match: true },
+            { text: 'scope', match: true },
+        ]);
+    });
+
+    it('is one plain stretch without matches, and nothing for an empty snippet', () => {
+        expect(parseSnippet('no markers here')).toEqual([{ text: 'no markers here', match: false }]);
+        expect(parseSnippet('')).toEqual([]);
+    });
+
+    it('runs a match without an end marker to the end of the snippet', () => {
+        expect(parseSnippet(snippet('cut off in the [middl'))).toEqual([
+            { text: 'cut off in the ', match: false },
+            { text: 'middl', match: true },
+        ]);
+    });
+
+    it('keeps brackets and other text the student wrote', () => {
+        expect(parseSnippet(`arr[0] is ${MATCH_START}first${MATCH_END}`)).toEqual([
+            { text: 'arr[0] is ', match: false },
+            { text: 'first', match: true },
+        ]);
+    });
+});
+
+describe('summaryText', () => {
+    it('puts every part of a summary on its own line', () => {
+        expect(summaryText({
+            overview: 'Went over closures',
+            conceptsCovered: ['lexical scope', 'closures in loops'],
+            strengths: ['explained scope'],
+            gaps: [],
+            nextSteps: ['practise currying'],
+        })).toBe('Went over closures\nlexical scope\nclosures in loops\nexplained scope\npractise currying');
+    });
+});
@@ -0,0 +1,59 @@
+/**
+ * Full-text search over a user's study history. Chat messages, session
+ * summaries and quiz questions (with their explanations) are copied into an
+ * FTS5 table as they are stored, and searched with BM25 ranking.
+ */
+import { SearchSnippetPart, SessionSummary } from '../types';
+
+// What FTS5's snippet() puts around matched words; control characters, so
+// they can't be confused with anything the tutor or student wrote
+export const MATCH_START = '\u0001';
+export const MATCH_END = '\u0002';
+
+/**
+ * An FTS5 query for what the student typed: every word has to appear, the
+ * last one as a prefix so results come up while typing. Words are quoted, so
+ * FTS5 syntax and punctuation in the input are taken literally. Null when
+ * there is nothing to search for.
+ */
+export function toMatchQuery(input: string): string | null {
+    const words = input.match(/[\p{L}\p{N}_]+/gu) ?? [];
+    if (words.length === 0) {
+        return null;
+    }
+
+    return words
+        .map((word, index) => index === words.length - 1 ? `"${word}"*` : `"${word}"`)
+        .join(' ');
+}
+
+// Split a snippet() result into plain and matched stretches
+export function parseSnippet(snippet: string): SearchSnippetPart[] {
+    const parts: SearchSnippetPart[] = [];
+    const push = (text: string, match: boolean) => {
+        if (text.length > 0) {
+            parts.push({ text, match });
+        }
+    };
+
+    const [lead, ...rest] = snippet.split(MATCH_START);
+    push(lead, false);
+    for (const chunk of rest) {
+        const [match, after = ''] = chunk.split(MATCH_END);
+        push(match, true);
+        push(after, false);
+    }
+
+    return parts;
+}
+
+// The searchable text of a session summary
+export function summaryText(summary: SessionSummary): string {
+    return [
+        summary.overview,
+        ...summary.conceptsCovered,
+        ...summary.strengths,
+        ...summary.gaps,
+        ...summary.nextSteps,
+    ].join('\n');
+}
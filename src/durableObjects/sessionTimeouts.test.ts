@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { StudySession } from '../types';
+import { DEFAULT_SESSION_LIMITS, SessionLimits, parseSessionLimits, sessionDeadline } from './sessionTimeouts';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2026, 5, 10, 9, 0);
+
+const limits: SessionLimits = { maxDuration: 120 * MINUTE, idleTimeout: 15 * MINUTE };
+
+// A 30-minute session that started at START
+function session(overrides: Partial<StudySession> = {}): StudySession {
+    return {
+        id: 'session_1',
+        topic: 'Closures',
+        duration: 30,
+        difficulty: 'intermediate',
+        startTime: START,
+        status: 'active',
+        activeIntervals: [{ start: START }],
+        ...overrides,
+    };
+}
+
+describe('sessionDeadline', () => {
+    it('ends an active session at its planned duration', () => {
+        expect(sessionDeadline(session(), START + 20 * MINUTE, limits)).toEqual({
+            at: START + 30 * MINUTE,
+            endTime: START + 30 * MINUTE,
+            reason: 'timeout',
+        });
+    });
+
+    it('ends a quiet session as idle, recorded at the last activity', () => {
+        expect(sessionDeadline(session(), START + 5 * MINUTE, limits)).toEqual({
+            at: START + 20 * MINUTE,
+            endTime: START + 5 * MINUTE,
+            reason: 'idle',
+        });
+    });
+
+    it('counts from the start of the current interval when nothing has been said', () => {
+        expect(sessionDeadline(session(), null, limits)).toEqual({
+            at: START + 15 * MINUTE,
+            endTime: START,
+            reason: 'idle',
+        });
+    });
+
+    it('ends a session at the cap when that comes first', () => {
+        const long = session({ duration: 180 });
+
+        expect(sessionDeadline(long, START + 110 * MINUTE, limits)).toEqual({
+            at: START + 120 * MINUTE,
+            endTime: START + 120 * MINUTE,
+            reason: 'timeout',
+        });
+    });
+
+    it('only applies the cap while paused', () => {
+        const paused = session({
+            status: 'paused',
+            activeIntervals: [{ start: START, end: START + 10 * MINUTE }],
+        });
+
+        expect(sessionDeadline(paused, START + 10 * MINUTE, limits)).toEqual({
+            at: START + 120 * MINUTE,
+            endTime: START + 120 * MINUTE,
+            reason: 'timeout',
+        });
+    });
+
+    it('banks active time across pauses toward the planned duration', () => {
+        // 10 minutes, a 40-minute pause, 5 minutes, a pause, then resumed at +70
+        const resumed = session({
+            activeIntervals: [
+                { start: START, end: START + 10 * MINUTE },
+                { start: START + 50 * MINUTE, end: START + 55 * MINUTE },
+                { start: START + 70 * MINUTE },
+            ],
+        });
+
+        // 15 of the 30 minutes are banked, so 15 remain from the resume
+        expect(sessionDeadline(resumed, START + 80 * MINUTE, limits)).toEqual({
+            at: START + 85 * MINUTE,
+            endTime: START + 85 * MINUTE,
+            reason: 'timeout',
+        });
+    });
+
+    it('treats resuming as activity for the idle timeout', () => {
+        const resumed = session({
+            duration: 60,
+            activeIntervals: [
+                { start: START, end: START + 10 * MINUTE },
+                { start: START + 40 * MINUTE },
+            ],
+        });
+
+        // The last message was before the pause
+        expect(sessionDeadline(resumed, START + 8 * MINUTE, limits)).toEqual({
+            at: START + 55 * MINUTE,
+            endTime: START + 40 * MINUTE,
+            reason: 'idle',
+        });
+    });
+});
+
+describe('parseSessionLimits', () => {
+    it('reads the limits in seconds', () => {
+        expect(parseSessionLimits('3600', '600')).toEqual({ maxDuration: 60 * MINUTE, idleTimeout: 10 * MINUTE });
+    });
+
+    it('keeps the default for a limit that is unset or invalid', () => {
+        expect(parseSessionLimits(undefined, 'soon')).toEqual(DEFAULT_SESSION_LIMITS);
+        expect(parseSessionLimits('0', '-5')).toEqual(DEFAULT_SESSION_LIMITS);
+    });
+});
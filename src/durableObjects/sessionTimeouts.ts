@@ -0,0 +1,71 @@
+import { SessionEndReason, StudySession } from '../types';
+import { activeMilliseconds } from '../shared/sessionTime';
+
+export interface SessionLimits {
+    maxDuration: number; // ms from start, paused time included
+    idleTimeout: number; // ms without chat activity while active
+}
+
+export const DEFAULT_SESSION_LIMITS: SessionLimits = {
+    maxDuration: 2 * 60 * 60 * 1000,
+    idleTimeout: 15 * 60 * 1000,
+};
+
+export interface SessionDeadline {
+    at: number; // when the session should be ended
+    endTime: number; // the end time recorded for it
+    reason: SessionEndReason;
+}
+
+/**
+ * Read the limits from the MAX_SESSION_DURATION and SESSION_IDLE_TIMEOUT vars
+ * (both in seconds), keeping the default for any that is unset or invalid
+ */
+export function parseSessionLimits(maxDuration?: string, idleTimeout?: string): SessionLimits {
+    const millis = (value: string | undefined, fallback: number) => {
+        const seconds = Number(value);
+        return value && Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : fallback;
+    };
+
+    return {
+        maxDuration: millis(maxDuration, DEFAULT_SESSION_LIMITS.maxDuration),
+        idleTimeout: millis(idleTimeout, DEFAULT_SESSION_LIMITS.idleTimeout),
+    };
+}
+
+/**
+ * When an unfinished session ends on its own, whichever comes first:
+ *
+ * - its active time reaches the planned duration (timeout)
+ * - nothing has been said for `idleTimeout` while it is active (idle); it is
+ *   recorded as ending at the last activity so the quiet stretch isn't
+ *   counted as study time
+ * - `maxDuration` has passed since it started, however long it was paused
+ *   (timeout)
+ *
+ * `lastActivity` is the latest chat message in the session, if any.
+ */
+export function sessionDeadline(
+    session: StudySession,
+    lastActivity: number | null,
+    limits: SessionLimits
+): SessionDeadline {
+    const capAt = session.startTime + limits.maxDuration;
+    const deadlines: SessionDeadline[] = [{ at: capAt, endTime: capAt, reason: 'timeout' }];
+
+    const intervals = session.activeIntervals ?? [];
+    const open = intervals.find(interval => interval.end === undefined);
+
+    if (session.status === 'active' && open) {
+        // Active time banked before the current interval began
+        const banked = activeMilliseconds(intervals.filter(interval => interval !== open), open.start);
+        const plannedEndAt = open.start + session.duration * 60 * 1000 - banked;
+        deadlines.push({ at: plannedEndAt, endTime: plannedEndAt, reason: 'timeout' });
+
+        // Resuming counts as activity
+        const lastActive = Math.max(lastActivity ?? 0, open.start);
+        deadlines.push({ at: lastActive + limits.idleTimeout, endTime: lastActive, reason: 'idle' });
+    }
+
+    return deadlines.reduce((earliest, deadline) => (deadline.at < earliest.at ? deadline : earliest));
+}
@@ -0,0 +1,1075 @@
+import {
+    ActiveInterval,
+    ActivityRecord,
+    BankQuestion,
+    ChatMessage,
+    ChatSummary,
+    Difficulty,
+    Flashcard,
+    LearningPath,
+    LinkedQuiz,
+    MissedQuestion,
+    QuizMistake,
+    Quiz,
+    QuizAnswer,
+    QuizQuestion,
+    QuizResult,
+    SearchResult,
+    SearchResultKind,
+    SessionEndReason,
+    SessionSummary,
+    SpacedRepetitionItem,
+    StudySession,
+    TopicProgress,
+    TutorMode,
+    UserSettings,
+    DEFAULT_USER_SETTINGS,
+} from '../types';
+import { getMeta, setMeta } from './schema';
+import { StoredMessage, activeBranch, branchHead } from './chatBranches';
+import { MATCH_END, MATCH_START, parseSnippet, summaryText } from './search';
+
+// Row shapes as stored; optional fields are NULL, booleans are 0/1 and arrays and objects are JSON
+type SessionRow = {
+    id: string;
+    topic: string;
+    duration: number;
+    difficulty: string;
+    start_time: number;
+    end_time: number | null;
+    status: string;
+    end_reason: string | null;
+    messages_count: number | null;
+    summary: string | null;
+    mode: string | null;
+};
+
+type IntervalRow = {
+    started_at: number;
+    ended_at: number | null;
+};
+
+type MessageRow = {
+    id: number;
+    parent_id: number | null;
+    role: string;
+    content: string;
+    timestamp: number;
+    interrupted: number;
+};
+
+type QuizRow = {
+    id: string;
+    topic: string;
+    difficulty: string;
+    created_at: number;
+    session_id: string | null;
+};
+
+type QuestionRow = {
+    id: string;
+    question: string;
+    type: string;
+    options: string | null;
+    correct_answer: string;
+    explanation: string;
+    points: number;
+    rubric: string | null;
+};
+
+type AttemptRow = {
+    id: number;
+    quiz_id: string;
+    score: number;
+    max_score: number;
+    percentage: number;
+    completed_at: number;
+    time_spent: number;
+};
+
+type AnswerRow = {
+    attempt_id: number;
+    question_id: string;
+    answer: string;
+    is_correct: number | null;
+    points_earned: number | null;
+    feedback: string | null;
+};
+
+type ActivityRow = {
+    type: string;
+    topic: string;
+    timestamp: number;
+    duration: number | null;
+    score: number | null;
+};
+
+type TopicProgressRow = {
+    topic: string;
+    mastery_level: number;
+    time_spent: number;
+    sessions_count: number;
+    quiz_average: number;
+    last_studied: number;
+    next_review: number | null;
+};
+
+type SearchRow = {
+    kind: string;
+    session_id: string | null;
+    ref: string | number;
+    topic: string;
+    timestamp: number;
+    snippet: string;
+};
+
+type FlashcardRow = {
+    id: string;
+    front: string;
+    back: string;
+    topic: string;
+    source: string;
+    session_id: string | null;
+    message_id: number | null;
+    quiz_id: string | null;
+    question_id: string | null;
+    created_at: number;
+    next_review: number;
+    interval: number;
+    ease_factor: number;
+    repetitions: number;
+    last_reviewed: number | null;
+    last_quality: number | null;
+};
+
+type RepetitionItemRow = {
+    topic: string;
+    next_review: number;
+    interval: number;
+    ease_factor: number;
+    repetitions: number;
+    last_reviewed: number | null;
+    last_quality: number | null;
+};
+
+export interface SessionFilter {
+    topic?: string; // matched ignoring case
+    status?: StudySession['status'];
+    from?: number; // start time bounds
+    to?: number;
+    after?: { startTime: number; id: string }; // last session of the previous page
+}
+
+export interface FlashcardFilter {
+    topic?: string; // matched ignoring case
+    dueBy?: number; // only cards due at or before this time
+}
+
+// Where flashcards drawn from quiz mistakes come from: one session's quizzes or one topic's
+export interface MistakeFilter {
+    sessionId?: string;
+    topic?: string;
+}
+
+// Drop NULL columns so optional fields stay absent, as they were in the JSON blob
+function present<T>(value: T | null): T | undefined {
+    return value === null ? undefined : value;
+}
+
+function toSession(row: SessionRow): StudySession {
+    return {
+        id: row.id,
+        topic: row.topic,
+        duration: row.duration,
+        difficulty: row.difficulty as Difficulty,
+        startTime: row.start_time,
+        endTime: present(row.end_time),
+        status: row.status as StudySession['status'],
+        mode: present(row.mode) as TutorMode | undefined,
+        endReason: present(row.end_reason) as SessionEndReason | undefined,
+        messagesCount: present(row.messages_count),
+        summary: row.summary ? JSON.parse(row.summary) : undefined,
+    };
+}
+
+function toTopicProgress(row: TopicProgressRow): TopicProgress {
+    return {
+        topic: row.topic,
+        masteryLevel: row.mastery_level,
+        timeSpent: row.time_spent,
+        sessionsCount: row.sessions_count,
+        quizAverage: row.quiz_average,
+        lastStudied: row.last_studied,
+        nextReview: present(row.next_review),
+    };
+}
+
+function toFlashcard(row: FlashcardRow): Flashcard {
+    return {
+        id: row.id,
+        front: row.front,
+        back: row.back,
+        topic: row.topic,
+        source: row.source as Flashcard['source'],
+        sessionId: present(row.session_id),
+        messageId: present(row.message_id),
+        quizId: present(row.quiz_id),
+        questionId: present(row.question_id),
+        createdAt: row.created_at,
+        nextReview: row.next_review,
+        interval: row.interval,
+        easeFactor: row.ease_factor,
+        repetitions: row.repetitions,
+        lastReviewed: present(row.last_reviewed),
+        lastQuality: present(row.last_quality),
+    };
+}
+
+function toRepetitionItem(row: RepetitionItemRow): SpacedRepetitionItem {
+    return {
+        topic: row.topic,
+        nextReview: row.next_review,
+        interval: row.interval,
+        easeFactor: row.ease_factor,
+        repetitions: row.repetitions,
+        lastReviewed: present(row.last_reviewed),
+        lastQuality: present(row.last_quality),
+    };
+}
+
+/**
+ * Typed access to one user's StudyState tables. Every method is synchronous;
+ * wrap several calls in `storage.transactionSync` when they must land together.
+ */
+export class StudyStore {
+    private sql: SqlStorage;
+
+    constructor(sql: SqlStorage) {
+        this.sql = sql;
+    }
+
+    // Sessions
+    saveSession(session: StudySession): void {
+        this.sql.exec(
+            `INSERT INTO sessions (id, topic, duration, difficulty, start_time, end_time, status, end_reason, messages_count, summary, mode)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT (id) DO UPDATE SET
+                topic = excluded.topic,
+                duration = excluded.duration,
+                difficulty = excluded.difficulty,
+                start_time = excluded.start_time,
+                end_time = excluded.end_time,
+                status = excluded.status,
+                end_reason = excluded.end_reason,
+                messages_count = excluded.messages_count,
+                summary = excluded.summary,
+                mode = excluded.mode`,
+            session.id,
+            session.topic,
+            session.duration,
+            session.difficulty,
+            session.startTime,
+            session.endTime ?? null,
+            session.status,
+            session.endReason ?? null,
+            session.messagesCount ?? null,
+            session.summary ? JSON.stringify(session.summary) : null,
+            session.mode ?? null
+        );
+    }
+
+    getSession(id: string): StudySession | null {
+        const rows = this.sql.exec<SessionRow>('SELECT * FROM sessions WHERE id = ?', id).toArray();
+        return rows.length > 0 ? this.withIntervals(toSession(rows[0])) : null;
+    }
+
+    setSessionMode(id: string, mode: TutorMode): void {
+        this.sql.exec('UPDATE sessions SET mode = ? WHERE id = ?', mode, id);
+    }
+
+    setSessionSummary(id: string, summary: SessionSummary): void {
+        this.sql.exec('UPDATE sessions SET summary = ? WHERE id = ?', JSON.stringify(summary), id);
+
+        this.sql.exec(`DELETE FROM search_index WHERE kind = 'summary' AND ref = ?`, id);
+        this.sql.exec(
+            `INSERT INTO search_index (body, topic, kind, session_id, ref, timestamp)
+             SELECT ?, topic, 'summary', id, id, COALESCE(end_time, start_time) FROM sessions WHERE id = ?`,
+            summaryText(summary),
+            id
+        );
+    }
+
+    // Most recently started session that hasn't been completed
+    getActiveSession(): StudySession | null {
+        return this.openSessions()[0] ?? null;
+    }
+
+    // Newest first, ordered by start time and then id so pages never overlap
+    listSessions(filter: SessionFilter, limit: number): StudySession[] {
+        const conditions: string[] = [];
+        const bindings: Array<string | number> = [];
+
+        if (filter.topic !== undefined) {
+            conditions.push('topic = ? COLLATE NOCASE');
+            bindings.push(filter.topic);
+        }
+        if (filter.status !== undefined) {
+            conditions.push('status = ?');
+            bindings.push(filter.status);
+        }
+        if (filter.from !== undefined) {
+            conditions.push('start_time >= ?');
+            bindings.push(filter.from);
+        }
+        if (filter.to !== undefined) {
+            conditions.push('start_time < ?');
+            bindings.push(filter.to);
+        }
+        if (filter.after !== undefined) {
+            conditions.push('(start_time < ? OR (start_time = ? AND id < ?))');
+            bindings.push(filter.after.startTime, filter.after.startTime, filter.after.id);
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        return this.sql.exec<SessionRow>(
+            `SELECT * FROM sessions ${where} ORDER BY start_time DESC, id DESC LIMIT ?`,
+            ...bindings,
+            limit
+        ).toArray().map(row => this.withIntervals(toSession(row)));
+    }
+
+    // Every active or paused session, most recently started first
+    openSessions(): StudySession[] {
+        return this.sql.exec<SessionRow>(
+            "SELECT * FROM sessions WHERE status IN ('active', 'paused') ORDER BY start_time DESC"
+        ).toArray().map(row => this.withIntervals(toSession(row)));
+    }
+
+    countSessions(): number {
+        return this.sql.exec<{ count: number }>('SELECT COUNT(*) AS count FROM sessions').one().count;
+    }
+
+    // Active minutes of every completed session; paused time is excluded
+    totalStudyMinutes(): number {
+        return this.sql.exec<{ minutes: number | null }>(
+            `SELECT SUM((i.ended_at - i.started_at) / 60000.0) AS minutes
+             FROM session_intervals i JOIN sessions s ON s.id = i.session_id
+             WHERE s.status = 'completed' AND i.ended_at IS NOT NULL`
+        ).one().minutes ?? 0;
+    }
+
+    completedSessionTimes(): number[] {
+        return this.sql.exec<{ end_time: number }>(
+            "SELECT end_time FROM sessions WHERE status = 'completed' AND end_time IS NOT NULL"
+        ).toArray().map(row => row.end_time);
+    }
+
+    // Active intervals
+    getIntervals(sessionId: string): ActiveInterval[] {
+        return this.sql.exec<IntervalRow>(
+            'SELECT started_at, ended_at FROM session_intervals WHERE session_id = ? ORDER BY started_at',
+            sessionId
+        ).toArray().map(row => ({ start: row.started_at, end: present(row.ended_at) }));
+    }
+
+    openInterval(sessionId: string, at: number): void {
+        this.sql.exec(
+            'INSERT OR IGNORE INTO session_intervals (session_id, started_at) VALUES (?, ?)',
+            sessionId,
+            at
+        );
+    }
+
+    // Close the session's open interval, if it has one
+    closeInterval(sessionId: string, at: number): void {
+        this.sql.exec(
+            'UPDATE session_intervals SET ended_at = MAX(started_at, ?) WHERE session_id = ? AND ended_at IS NULL',
+            at,
+            sessionId
+        );
+    }
+
+    private withIntervals(session: StudySession): StudySession {
+        return { ...session, activeIntervals: this.getIntervals(session.id) };
+    }
+
+    // Messages
+
+    // The branch of the conversation the session is showing
+    getMessages(sessionId: string): ChatMessage[] {
+        return activeBranch(this.messageTree(sessionId), this.getChatHead(sessionId));
+    }
+
+    // Show the branch through `messageId`; false if the session has no such message
+    switchBranch(sessionId: string, messageId: number): boolean {
+        const tree = this.messageTree(sessionId);
+        if (!tree.some(message => message.id === messageId)) {
+            return false;
+        }
+
+        this.setChatHead(sessionId, branchHead(tree, messageId));
+        return true;
+    }
+
+    // Every message of the session, variants included, ordered by id
+    private messageTree(sessionId: string): StoredMessage[] {
+        return this.sql.exec<MessageRow>(
+            'SELECT id, parent_id, role, content, timestamp, interrupted FROM messages WHERE session_id = ? ORDER BY id',
+            sessionId
+        ).toArray().map(row => {
+            const message: StoredMessage = {
+                id: row.id,
+                parentId: row.parent_id,
+                role: row.role as ChatMessage['role'],
+                content: row.content,
+                timestamp: row.timestamp,
+            };
+            if (row.interrupted) {
+                message.interrupted = true;
+            }
+            return message;
+        });
+    }
+
+    private getChatHead(sessionId: string): number | null {
+        const rows = this.sql.exec<{ head_message_id: number | null }>(
+            'SELECT head_message_id FROM sessions WHERE id = ?',
+            sessionId
+        ).toArray();
+        return rows[0]?.head_message_id ?? null;
+    }
+
+    // The last message of the shown branch, as activeBranch picks it
+    private shownHead(sessionId: string): number | null {
+        return this.getChatHead(sessionId) ?? this.sql.exec<{ id: number | null }>(
+            'SELECT MAX(id) AS id FROM messages WHERE session_id = ?',
+            sessionId
+        ).one().id;
+    }
+
+    private setChatHead(sessionId: string, messageId: number): void {
+        this.sql.exec('UPDATE sessions SET head_message_id = ? WHERE id = ?', messageId, sessionId);
+    }
+
+    setSessionWorkflow(sessionId: string, workflowId: string): void {
+        this.sql.exec('UPDATE sessions SET workflow_id = ? WHERE id = ?', workflowId, sessionId);
+    }
+
+    getSessionWorkflow(sessionId: string): string | null {
+        const rows = this.sql.exec<{ workflow_id: string | null }>(
+            'SELECT workflow_id FROM sessions WHERE id = ?',
+            sessionId
+        ).toArray();
+        return rows[0]?.workflow_id ?? null;
+    }
+
+    setLearningPath(sessionId: string, learningPath: LearningPath): void {
+        this.sql.exec('UPDATE sessions SET learning_path = ? WHERE id = ?', JSON.stringify(learningPath), sessionId);
+    }
+
+    getLearningPath(sessionId: string): LearningPath | null {
+        const rows = this.sql.exec<{ learning_path: string | null }>(
+            'SELECT learning_path FROM sessions WHERE id = ?',
+            sessionId
+        ).toArray();
+        return rows[0]?.learning_path ? JSON.parse(rows[0].learning_path) as LearningPath : null;
+    }
+
+    isOutcomeRecorded(sessionId: string): boolean {
+        const rows = this.sql.exec<{ outcome_recorded: number }>(
+            'SELECT outcome_recorded FROM sessions WHERE id = ?',
+            sessionId
+        ).toArray();
+        return rows[0]?.outcome_recorded === 1;
+    }
+
+    markOutcomeRecorded(sessionId: string): void {
+        this.sql.exec('UPDATE sessions SET outcome_recorded = 1 WHERE id = ?', sessionId);
+    }
+
+    getChatSummary(sessionId: string): ChatSummary | null {
+        const rows = this.sql.exec<{ content: string; message_count: number; last_message_id: number | null; updated_at: number }>(
+            'SELECT content, message_count, last_message_id, updated_at FROM chat_summaries WHERE session_id = ?',
+            sessionId
+        ).toArray();
+
+        return rows.length > 0
+            ? {
+                content: rows[0].content,
+                messageCount: rows[0].message_count,
+                lastMessageId: rows[0].last_message_id,
+                updatedAt: rows[0].updated_at,
+            }
+            : null;
+    }
+
+    saveChatSummary(sessionId: string, summary: ChatSummary): void {
+        this.sql.exec(
+            `INSERT INTO chat_summaries (session_id, content, message_count, last_message_id, updated_at) VALUES (?, ?, ?, ?, ?)
+             ON CONFLICT (session_id) DO UPDATE SET
+                content = excluded.content,
+                message_count = excluded.message_count,
+                last_message_id = excluded.last_message_id,
+                updated_at = excluded.updated_at`,
+            sessionId,
+            summary.content,
+            summary.messageCount,
+            summary.lastMessageId,
+            summary.updatedAt
+        );
+    }
+
+    countMessages(sessionId: string): number {
+        return this.sql.exec<{ count: number }>(
+            'SELECT COUNT(*) AS count FROM messages WHERE session_id = ?',
+            sessionId
+        ).one().count;
+    }
+
+    lastMessageTime(sessionId: string): number | null {
+        return this.sql.exec<{ timestamp: number | null }>(
+            'SELECT MAX(timestamp) AS timestamp FROM messages WHERE session_id = ?',
+            sessionId
+        ).one().timestamp;
+    }
+
+    /**
+     * Add a message after `parentId` (the end of the shown branch when
+     * omitted, null to start over) and show the branch it ends. Returns its id.
+     */
+    addMessage(sessionId: string, message: ChatMessage, parentId?: number | null): number {
+        const parent = parentId === undefined ? this.shownHead(sessionId) : parentId;
+
+        const { id } = this.sql.exec<{ id: number }>(
+            `INSERT INTO messages (session_id, parent_id, role, content, timestamp, interrupted) VALUES (?, ?, ?, ?, ?, ?)
+             RETURNING id`,
+            sessionId,
+            parent,
+            message.role,
+            message.content,
+            message.timestamp,
+            message.interrupted ? 1 : 0
+        ).one();
+
+        this.setChatHead(sessionId, id);
+        this.sql.exec(
+            `INSERT INTO search_index (body, topic, kind, session_id, ref, timestamp)
+             VALUES (?, COALESCE((SELECT topic FROM sessions WHERE id = ?), ''), 'message', ?, ?, ?)`,
+            message.content,
+            sessionId,
+            sessionId,
+            id,
+            message.timestamp
+        );
+        return id;
+    }
+
+    // Quizzes
+    saveQuiz(quiz: Quiz): void {
+        this.sql.exec(
+            `INSERT INTO quizzes (id, topic, difficulty, created_at, session_id) VALUES (?, ?, ?, ?, ?)
+             ON CONFLICT (id) DO UPDATE SET
+                topic = excluded.topic,
+                difficulty = excluded.difficulty,
+                created_at = excluded.created_at,
+                session_id = excluded.session_id`,
+            quiz.id,
+            quiz.topic,
+            quiz.difficulty,
+            quiz.createdAt,
+            quiz.sessionId ?? null
+        );
+
+        this.sql.exec('DELETE FROM questions WHERE quiz_id = ?', quiz.id);
+        this.sql.exec(`DELETE FROM search_index WHERE kind = 'quiz' AND ref = ?`, quiz.id);
+        quiz.questions.forEach((q, position) => {
+            this.sql.exec(
+                `INSERT INTO questions (quiz_id, id, position, question, type, options, correct_answer, explanation, points, rubric)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                quiz.id,
+                q.id,
+                position,
+                q.question,
+                q.type,
+                q.options ? JSON.stringify(q.options) : null,
+                q.correctAnswer,
+                q.explanation,
+                q.points,
+                q.rubric ? JSON.stringify(q.rubric) : null
+            );
+            this.sql.exec(
+                `INSERT INTO search_index (body, topic, kind, session_id, ref, timestamp) VALUES (?, ?, 'quiz', ?, ?, ?)`,
+                `${q.question}\n${q.explanation}`,
+                quiz.topic,
+                quiz.sessionId ?? null,
+                quiz.id,
+                quiz.createdAt
+            );
+        });
+    }
+
+    getQuiz(id: string): Quiz | null {
+        const quizzes = this.sql.exec<QuizRow>('SELECT * FROM quizzes WHERE id = ?', id).toArray();
+        if (quizzes.length === 0) {
+            return null;
+        }
+
+        const questions = this.sql.exec<QuestionRow>(
+            'SELECT * FROM questions WHERE quiz_id = ? ORDER BY position',
+            id
+        ).toArray().map((row): QuizQuestion => ({
+            id: row.id,
+            question: row.question,
+            type: row.type as QuizQuestion['type'],
+            options: row.options ? JSON.parse(row.options) : undefined,
+            correctAnswer: row.correct_answer,
+            explanation: row.explanation,
+            points: row.points,
+            rubric: row.rubric ? JSON.parse(row.rubric) : undefined,
+        }));
+
+        const quiz = quizzes[0];
+        return {
+            id: quiz.id,
+            topic: quiz.topic,
+            difficulty: quiz.difficulty as Difficulty,
+            questions,
+            createdAt: quiz.created_at,
+            sessionId: present(quiz.session_id),
+        };
+    }
+
+    // Quizzes generated during the session, oldest first, with their best attempt
+    linkedQuizzes(sessionId: string): LinkedQuiz[] {
+        return this.sql.exec<{ id: string; created_at: number; attempts: number; best: number | null }>(
+            `SELECT q.id, q.created_at, COUNT(a.id) AS attempts, MAX(a.percentage) AS best
+             FROM quizzes q LEFT JOIN attempts a ON a.quiz_id = q.id
+             WHERE q.session_id = ?
+             GROUP BY q.id
+             ORDER BY q.created_at`,
+            sessionId
+        ).toArray().map(row => ({
+            quizId: row.id,
+            createdAt: row.created_at,
+            attempts: row.attempts,
+            bestPercentage: present(row.best),
+        }));
+    }
+
+    setQuestionRubric(quizId: string, questionId: string, rubric: string[]): void {
+        this.sql.exec(
+            'UPDATE questions SET rubric = ? WHERE quiz_id = ? AND id = ?',
+            JSON.stringify(rubric),
+            quizId,
+            questionId
+        );
+    }
+
+    // Quiz attempts
+    hasAttempt(quizId: string): boolean {
+        return this.sql.exec<{ attempted: number }>(
+            'SELECT EXISTS (SELECT 1 FROM attempts WHERE quiz_id = ?) AS attempted',
+            quizId
+        ).one().attempted === 1;
+    }
+
+    addQuizResult(result: QuizResult): void {
+        const attemptId = this.sql.exec<{ id: number }>(
+            `INSERT INTO attempts (quiz_id, score, max_score, percentage, completed_at, time_spent)
+             VALUES (?, ?, ?, ?, ?, ?) RETURNING id`,
+            result.quizId,
+            result.score,
+            result.maxScore,
+            result.percentage,
+            result.completedAt,
+            result.timeSpent
+        ).one().id;
+
+        result.answers.forEach((a, position) => {
+            this.sql.exec(
+                `INSERT INTO answers (attempt_id, position, question_id, answer, is_correct, points_earned, feedback)
+                 VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                attemptId,
+                position,
+                a.questionId,
+                a.answer,
+                a.isCorrect === undefined ? null : a.isCorrect ? 1 : 0,
+                a.pointsEarned ?? null,
+                a.feedback ?? null
+            );
+        });
+    }
+
+    // Every graded attempt, oldest first; only the quiz's when `quizId` is given
+    listQuizResults(quizId?: string): QuizResult[] {
+        const answersByAttempt = new Map<number, QuizAnswer[]>();
+        const where = quizId !== undefined ? 'WHERE attempts.quiz_id = ?' : '';
+        const bindings = quizId !== undefined ? [quizId] : [];
+
+        for (const row of this.sql.exec<AnswerRow>(
+            `SELECT answers.* FROM answers JOIN attempts ON attempts.id = answers.attempt_id ${where}
+             ORDER BY answers.attempt_id, answers.position`,
+            ...bindings
+        )) {
+            const answers = answersByAttempt.get(row.attempt_id) || [];
+            answers.push({
+                questionId: row.question_id,
+                answer: row.answer,
+                isCorrect: row.is_correct === null ? undefined : row.is_correct === 1,
+                pointsEarned: present(row.points_earned),
+                feedback: present(row.feedback),
+            });
+            answersByAttempt.set(row.attempt_id, answers);
+        }
+
+        return this.sql.exec<AttemptRow>(
+            `SELECT * FROM attempts ${where} ORDER BY id`,
+            ...bindings
+        ).toArray().map(row => ({
+            quizId: row.quiz_id,
+            score: row.score,
+            maxScore: row.max_score,
+            percentage: row.percentage,
+            completedAt: row.completed_at,
+            timeSpent: row.time_spent,
+            answers: answersByAttempt.get(row.id) || [],
+        }));
+    }
+
+    quizStats(): { totalQuizzes: number; averageScore: number } {
+        const row = this.sql.exec<{ count: number; average: number | null }>(
+            'SELECT COUNT(*) AS count, AVG(percentage) AS average FROM attempts'
+        ).one();
+        return { totalQuizzes: row.count, averageScore: row.average ?? 0 };
+    }
+
+    topicQuizAverage(topic: string): number {
+        return this.sql.exec<{ average: number | null }>(
+            'SELECT AVG(a.percentage) AS average FROM attempts a JOIN quizzes q ON q.id = a.quiz_id WHERE q.topic = ?',
+            topic
+        ).one().average ?? 0;
+    }
+
+    // Wrong answers from the topic's quizzes, most recent attempt first
+    missedQuestions(topic: string, limit: number): MissedQuestion[] {
+        return this.sql.exec<{ question: string; correct_answer: string; answer: string }>(
+            `SELECT qu.question, qu.correct_answer, an.answer
+             FROM answers an
+             JOIN attempts a ON a.id = an.attempt_id
+             JOIN questions qu ON qu.quiz_id = a.quiz_id AND qu.id = an.question_id
+             JOIN quizzes q ON q.id = a.quiz_id
+             WHERE q.topic = ? AND an.is_correct = 0
+             ORDER BY a.completed_at DESC, an.position
+             LIMIT ?`,
+            topic,
+            limit
+        ).toArray().map(row => ({
+            question: row.question,
+            correctAnswer: row.correct_answer,
+            studentAnswer: row.answer,
+        }));
+    }
+
+    quizCompletionTimes(): number[] {
+        return this.sql.exec<{ completed_at: number }>('SELECT completed_at FROM attempts')
+            .toArray()
+            .map(row => row.completed_at);
+    }
+
+    // Activity
+    addActivity(record: ActivityRecord): void {
+        this.sql.exec(
+            'INSERT INTO activity (type, topic, timestamp, duration, score) VALUES (?, ?, ?, ?, ?)',
+            record.type,
+            record.topic,
+            record.timestamp,
+            record.duration ?? null,
+            record.score ?? null
+        );
+    }
+
+    recentActivity(limit: number): ActivityRecord[] {
+        return this.sql.exec<ActivityRow>(
+            'SELECT type, topic, timestamp, duration, score FROM activity ORDER BY timestamp DESC, id DESC LIMIT ?',
+            limit
+        ).toArray().map(row => ({
+            type: row.type as ActivityRecord['type'],
+            topic: row.topic,
+            timestamp: row.timestamp,
+            duration: present(row.duration),
+            score: present(row.score),
+        }));
+    }
+
+    // Topic progress
+    getTopicProgress(topic: string): TopicProgress | null {
+        const rows = this.sql.exec<TopicProgressRow>('SELECT * FROM topic_progress WHERE topic = ?', topic).toArray();
+        return rows.length > 0 ? toTopicProgress(rows[0]) : null;
+    }
+
+    listTopicProgress(): TopicProgress[] {
+        return this.sql.exec<TopicProgressRow>('SELECT * FROM topic_progress ORDER BY last_studied')
+            .toArray()
+            .map(toTopicProgress);
+    }
+
+    saveTopicProgress(progress: TopicProgress): void {
+        this.sql.exec(
+            `INSERT INTO topic_progress (topic, mastery_level, time_spent, sessions_count, quiz_average, last_studied, next_review)
+             VALUES (?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT (topic) DO UPDATE SET
+                mastery_level = excluded.mastery_level,
+                time_spent = excluded.time_spent,
+                sessions_count = excluded.sessions_count,
+                quiz_average = excluded.quiz_average,
+                last_studied = excluded.last_studied,
+                next_review = excluded.next_review`,
+            progress.topic,
+            progress.masteryLevel,
+            progress.timeSpent,
+            progress.sessionsCount,
+            progress.quizAverage,
+            progress.lastStudied,
+            progress.nextReview ?? null
+        );
+    }
+
+    // Spaced repetition
+    getRepetitionItem(topic: string): SpacedRepetitionItem | null {
+        const rows = this.sql.exec<RepetitionItemRow>('SELECT * FROM repetition_items WHERE topic = ?', topic).toArray();
+        return rows.length > 0 ? toRepetitionItem(rows[0]) : null;
+    }
+
+    saveRepetitionItem(item: SpacedRepetitionItem): void {
+        this.sql.exec(
+            `INSERT INTO repetition_items (topic, next_review, interval, ease_factor, repetitions, last_reviewed, last_quality)
+             VALUES (?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT (topic) DO UPDATE SET
+                next_review = excluded.next_review,
+                interval = excluded.interval,
+                ease_factor = excluded.ease_factor,
+                repetitions = excluded.repetitions,
+                last_reviewed = excluded.last_reviewed,
+                last_quality = excluded.last_quality`,
+            item.topic,
+            item.nextReview,
+            item.interval,
+            item.easeFactor,
+            item.repetitions,
+            item.lastReviewed ?? null,
+            item.lastQuality ?? null
+        );
+    }
+
+    // Items whose review date has arrived, most overdue first
+    dueRepetitionItems(now: number): SpacedRepetitionItem[] {
+        return this.sql.exec<RepetitionItemRow>(
+            'SELECT * FROM repetition_items WHERE next_review <= ? ORDER BY next_review',
+            now
+        ).toArray().map(toRepetitionItem);
+    }
+
+    // Flashcards
+    saveFlashcard(card: Flashcard): void {
+        this.sql.exec(
+            `INSERT INTO flashcards (id, front, back, topic, source, session_id, message_id, quiz_id, question_id, created_at,
+                                     next_review, interval, ease_factor, repetitions, last_reviewed, last_quality)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT (id) DO UPDATE SET
+                front = excluded.front,
+                back = excluded.back,
+                topic = excluded.topic,
+                next_review = excluded.next_review,
+                interval = excluded.interval,
+                ease_factor = excluded.ease_factor,
+                repetitions = excluded.repetitions,
+                last_reviewed = excluded.last_reviewed,
+                last_quality = excluded.last_quality`,
+            card.id,
+            card.front,
+            card.back,
+            card.topic,
+            card.source,
+            card.sessionId ?? null,
+            card.messageId ?? null,
+            card.quizId ?? null,
+            card.questionId ?? null,
+            card.createdAt,
+            card.nextReview,
+            card.interval,
+            card.easeFactor,
+            card.repetitions,
+            card.lastReviewed ?? null,
+            card.lastQuality ?? null
+        );
+    }
+
+    getFlashcard(id: string): Flashcard | null {
+        const rows = this.sql.exec<FlashcardRow>('SELECT * FROM flashcards WHERE id = ?', id).toArray();
+        return rows.length > 0 ? toFlashcard(rows[0]) : null;
+    }
+
+    // Soonest due first, then newest
+    listFlashcards(filter: FlashcardFilter): Flashcard[] {
+        const conditions: string[] = [];
+        const bindings: Array<string | number> = [];
+
+        if (filter.topic !== undefined) {
+            conditions.push('topic = ? COLLATE NOCASE');
+            bindings.push(filter.topic);
+        }
+        if (filter.dueBy !== undefined) {
+            conditions.push('next_review <= ?');
+            bindings.push(filter.dueBy);
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        return this.sql.exec<FlashcardRow>(
+            `SELECT * FROM flashcards ${where} ORDER BY next_review, created_at DESC`,
+            ...bindings
+        ).toArray().map(toFlashcard);
+    }
+
+    // False if there was no such card
+    deleteFlashcard(id: string): boolean {
+        const deleted = this.sql.exec<{ id: string }>('DELETE FROM flashcards WHERE id = ? RETURNING id', id).toArray();
+        return deleted.length > 0;
+    }
+
+    // Messages of the session that cards have already been drawn from
+    cardedMessageIds(sessionId: string): Set<number> {
+        return new Set(this.sql.exec<{ message_id: number }>(
+            'SELECT DISTINCT message_id FROM flashcards WHERE session_id = ? AND message_id IS NOT NULL',
+            sessionId
+        ).toArray().map(row => row.message_id));
+    }
+
+    /**
+     * Questions answered wrong that no card covers yet, most recently missed
+     * first, each with the latest wrong answer
+     */
+    uncardedMistakes(filter: MistakeFilter, limit: number): QuizMistake[] {
+        const conditions = ['an.is_correct = 0'];
+        const bindings: Array<string | number> = [];
+
+        if (filter.sessionId !== undefined) {
+            conditions.push('q.session_id = ?');
+            bindings.push(filter.sessionId);
+        }
+        if (filter.topic !== undefined) {
+            conditions.push('q.topic = ? COLLATE NOCASE');
+            bindings.push(filter.topic);
+        }
+
+        return this.sql.exec<{
+            quiz_id: string;
+            question_id: string;
+            topic: string;
+            question: string;
+            correct_answer: string;
+            explanation: string;
+            answer: string;
+            missed_at: number;
+        }>(
+            `SELECT q.id AS quiz_id, qu.id AS question_id, q.topic, qu.question, qu.correct_answer, qu.explanation,
+                    an.answer, MAX(a.completed_at) AS missed_at
+             FROM answers an
+             JOIN attempts a ON a.id = an.attempt_id
+             JOIN questions qu ON qu.quiz_id = a.quiz_id AND qu.id = an.question_id
+             JOIN quizzes q ON q.id = a.quiz_id
+             WHERE ${conditions.join(' AND ')}
+               AND NOT EXISTS (SELECT 1 FROM flashcards f WHERE f.quiz_id = q.id AND f.question_id = qu.id)
+             GROUP BY q.id, qu.id
+             ORDER BY missed_at DESC
+             LIMIT ?`,
+            ...bindings,
+            limit
+        ).toArray().map(row => ({
+            quizId: row.quiz_id,
+            questionId: row.question_id,
+            topic: row.topic,
+            question: row.question,
+            correctAnswer: row.correct_answer,
+            explanation: row.explanation,
+            studentAnswer: row.answer,
+        }));
+    }
+
+    /**
+     * Questions of every submitted quiz, oldest quiz first. Quizzes never
+     * submitted are left out so an export can't give their answers away.
+     */
+    questionBank(topic?: string): BankQuestion[] {
+        const where = topic !== undefined ? 'AND topic = ? COLLATE NOCASE' : '';
+        const bindings = topic !== undefined ? [topic] : [];
+        const quizIds = this.sql.exec<{ id: string }>(
+            `SELECT id FROM quizzes
+             WHERE EXISTS (SELECT 1 FROM attempts WHERE attempts.quiz_id = quizzes.id) ${where}
+             ORDER BY created_at`,
+            ...bindings
+        ).toArray().map(row => row.id);
+
+        return quizIds.flatMap(id => {
+            const quiz = this.getQuiz(id);
+            return quiz
+                ? quiz.questions.map(question => ({ quizId: quiz.id, topic: quiz.topic, difficulty: quiz.difficulty, question }))
+                : [];
+        });
+    }
+
+    // Every topic studied, quizzed on or carded so far
+    knownTopics(): string[] {
+        return this.sql.exec<{ topic: string }>(
+            'SELECT topic FROM topic_progress UNION SELECT topic FROM quizzes UNION SELECT topic FROM flashcards'
+        ).toArray().map(row => row.topic);
+    }
+
+    // Search
+
+    /**
+     * Best matches first for an FTS5 query (see toMatchQuery). Topic matches
+     * count for less than matches in the text itself. Quizzes only show up
+     * once they have been submitted, since their explanations give the
+     * answers away.
+     */
+    search(match: string, limit: number): SearchResult[] {
+        return this.sql.exec<SearchRow>(
+            `SELECT kind, session_id, ref, topic, timestamp, snippet(search_index, 0, ?, ?, '…', 16) AS snippet
+             FROM search_index
+             WHERE search_index MATCH ?
+               AND (kind != 'quiz' OR EXISTS (SELECT 1 FROM attempts WHERE attempts.quiz_id = search_index.ref))
+             ORDER BY bm25(search_index, 1.0, 0.25)
+             LIMIT ?`,
+            MATCH_START,
+            MATCH_END,
+            match,
+            limit
+        ).toArray().map(row => {
+            const result: SearchResult = {
+                kind: row.kind as SearchResultKind,
+                topic: row.topic,
+                timestamp: row.timestamp,
+                snippet: parseSnippet(row.snippet),
+                sessionId: present(row.session_id),
+            };
+            if (row.kind === 'message') {
+                result.messageId = Number(row.ref);
+            } else if (row.kind === 'quiz') {
+                result.quizId = String(row.ref);
+            }
+            return result;
+        });
+    }
+
+    // Settings
+    getSettings(): UserSettings {
+        const stored = getMeta(this.sql, 'settings');
+        return { ...DEFAULT_USER_SETTINGS, ...(stored ? JSON.parse(stored) : {}) };
+    }
+
+    saveSettings(settings: UserSettings): void {
+        setMeta(this.sql, 'settings', JSON.stringify(settings));
+    }
+}
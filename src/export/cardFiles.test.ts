@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest';
+import { BankQuestion, CardExport, CardFileFormat, Flashcard } from '../types';
+import { cardFileName, parseCardFile, renderCardFile } from './cardFiles';
+
+function card(front: string, back: string, topic = 'Closures'): Flashcard {
+    return {
+        id: `card_${front.length}`,
+        front,
+        back,
+        topic,
+        source: 'manual',
+        createdAt: 0,
+        nextReview: 0,
+        interval: 0,
+        easeFactor: 2.5,
+        repetitions: 0,
+    };
+}
+
+const question: BankQuestion = {
+    quizId: 'quiz_1',
+    topic: 'Big O',
+    difficulty: 'beginner',
+    question: {
+        id: 'q1',
+        question: 'Which is fastest?',
+        type: 'multiple-choice',
+        options: ['O(1)', 'O(n)'],
+        correctAnswer: 'O(1)',
+        explanation: 'Constant time does not grow with n.',
+        points: 10,
+    },
+};
+
+// Fields with everything a reader has to get right
+const tricky: Flashcard[] = [
+    card('Plain front', 'Plain back'),
+    card('Has, a comma\tand a tab', 'Says "hello" and ""more""'),
+    card('Spans\ntwo lines', 'And\n\nthree'),
+    card('#not a header', 'Ends with a quote"'),
+    card('"Starts quoted" then not', ''),
+];
+
+const FORMATS: CardFileFormat[] = ['anki', 'csv'];
+
+function roundTrip(data: CardExport, format: CardFileFormat) {
+    const parsed = parseCardFile(renderCardFile(data, format), format);
+    if (!parsed.ok) {
+        throw new Error(parsed.error);
+    }
+    return parsed.rows;
+}
+
+describe.each(FORMATS)('%s round trip', format => {
+    it('reads back quoted fields, doubled quotes and embedded newlines', () => {
+        const rows = roundTrip({ cards: tricky, questions: [] }, format);
+
+        expect(rows.map(({ front, back }) => ({ front, back }))).toEqual(
+            tricky.map(({ front, back }) => ({ front, back: back.trim() }))
+        );
+    });
+
+    it('keeps topics, spaces included', () => {
+        const rows = roundTrip({ cards: [card('Front', 'Back', 'Binary search trees')], questions: [question] }, format);
+
+        expect(rows.map(row => row.topic)).toEqual(['Binary search trees', 'Big O']);
+    });
+
+    it('writes a quiz question with its choices on the front and the explanation on the back', () => {
+        const [row] = roundTrip({ cards: [], questions: [question] }, format);
+
+        expect(row.front).toBe('Which is fastest?\n\n- O(1)\n- O(n)');
+        expect(row.back).toBe('O(1)\n\nConstant time does not grow with n.');
+    });
+
+    it('numbers rows by the line they start on', () => {
+        const rows = roundTrip({ cards: tricky.slice(1, 4), questions: [] }, format);
+        const first = format === 'anki' ? 4 : 2;
+
+        // The second card's front and back hold three line breaks between them
+        expect(rows.map(row => row.line)).toEqual([first, first + 1, first + 5]);
+    });
+});
+
+describe('renderCardFile', () => {
+    it('writes Anki headers and topic and kind tags', () => {
+        const text = renderCardFile({ cards: [card('Front', 'Back', 'Big O')], questions: [question] }, 'anki');
+
+        expect(text).toBe([
+            '#separator:tab',
+            '#html:false',
+            '#tags column:3',
+            'Front\tBack\ttopic::Big_O flashcard',
+            '"Which is fastest?\n\n- O(1)\n- O(n)"\t"O(1)\n\nConstant time does not grow with n."\ttopic::Big_O quiz-question beginner',
+            '',
+        ].join('\n'));
+    });
+
+    it('writes CSV with a header row and CRLF line ends', () => {
+        const text = renderCardFile({ cards: [card('Front', 'Has, a comma', 'Big O')], questions: [] }, 'csv');
+
+        expect(text).toBe('front,back,topic,tags\r\nFront,"Has, a comma",Big O,flashcard\r\n');
+    });
+
+    it('escapes CSV fields a spreadsheet would run as formulas', () => {
+        const formulas = [
+            card('=SUM(A1:A9)', '+1'),
+            card('-5', '@cmd'),
+            card('=HYPERLINK("http://example.com")', "'=already escaped"),
+        ];
+
+        const text = renderCardFile({ cards: formulas, questions: [] }, 'csv');
+
+        expect(text.split('\r\n').slice(1, 4)).toEqual([
+            "'=SUM(A1:A9),'+1,Closures,flashcard",
+            "'-5,'@cmd,Closures,flashcard",
+            `"'=HYPERLINK(""http://example.com"")",''=already escaped,Closures,flashcard`,
+        ]);
+        expect(roundTrip({ cards: formulas, questions: [] }, 'csv').map(({ front, back }) => [front, back])).toEqual([
+            ['=SUM(A1:A9)', '+1'],
+            ['-5', '@cmd'],
+            ['=HYPERLINK("http://example.com")', "'=already escaped"],
+        ]);
+    });
+
+    it('leaves other apostrophes and Anki fields alone', () => {
+        const cards = [card("'quoted' word", "it's fine"), card('=1+1', '-1')];
+
+        expect(renderCardFile({ cards, questions: [] }, 'csv')).toContain("'quoted' word,it's fine,");
+        expect(renderCardFile({ cards, questions: [] }, 'anki')).toContain('=1+1\t-1\t');
+    });
+
+    it('names the file by format and date', () => {
+        const now = Date.parse('2026-10-19T12:00:00Z');
+
+        expect(cardFileName('anki', now)).toBe('flashcards-2026-10-19.txt');
+        expect(cardFileName('csv', now)).toBe('flashcards-2026-10-19.csv');
+    });
+});
+
+describe('parseCardFile', () => {
+    it('reports where an unclosed quote starts', () => {
+        expect(parseCardFile('front,back\r\nok,fine\r\n"never closed,back\r\nmore', 'csv')).toEqual({
+            ok: false,
+            error: 'Line 3: a quoted field is never closed',
+        });
+        expect(parseCardFile('#separator:tab\nFront\t"open\n\nstill open', 'anki')).toEqual({
+            ok: false,
+            error: 'Line 2: a quoted field is never closed',
+        });
+    });
+
+    it('uses the separator an Anki #separator header names', () => {
+        const rows = (text: string) => {
+            const parsed = parseCardFile(text, 'anki');
+            return parsed.ok ? parsed.rows.map(({ front, back }) => [front, back]) : parsed.error;
+        };
+
+        expect(rows('#separator:comma\nFront,"Back, with a comma"')).toEqual([['Front', 'Back, with a comma']]);
+        expect(rows('#separator:Semicolon\nFront;Back')).toEqual([['Front', 'Back']]);
+        expect(rows('#separator:|\nFront|Back')).toEqual([['Front', 'Back']]);
+        expect(rows('Front\tBack')).toEqual([['Front', 'Back']]);
+        expect(rows('#separator:double-tab\nFront\tBack')).toBe('Line 1: unknown separator "double-tab"');
+    });
+
+    it('takes an Anki row\'s topic from the deck column, then a topic:: tag', () => {
+        const text = [
+            '#separator:tab',
+            '#tags column:4',
+            '#deck column:1',
+            'Algorithms\tFront\tBack\tmisc topic::Big_O',
+            '\tFront\tBack\tTopic::Sorting_algorithms',
+            '\tFront\tBack\ttopic::',
+        ].join('\n');
+
+        const parsed = parseCardFile(text, 'anki');
+
+        expect(parsed.ok && parsed.rows).toEqual([
+            { line: 4, front: 'Front', back: 'Back', topic: 'Algorithms' },
+            { line: 5, front: 'Front', back: 'Back', topic: 'Sorting algorithms' },
+            { line: 6, front: 'Front', back: 'Back', topic: undefined },
+        ]);
+    });
+
+    it('skips Anki notetype and guid columns and turns HTML fields into text', () => {
+        const text = [
+            '#separator:tab',
+            '#html:true',
+            '#guid column:1',
+            '#notetype column:2',
+            'abc123\tBasic\tA <b>closure</b><br>keeps scope\tx &lt; y &amp;&amp; y &gt; z',
+        ].join('\n');
+
+        const parsed = parseCardFile(text, 'anki');
+
+        expect(parsed.ok && parsed.rows).toEqual([
+            { line: 5, front: 'A closure\nkeeps scope', back: 'x < y && y > z', topic: undefined },
+        ]);
+    });
+
+    it('finds CSV columns by name, in any order', () => {
+        const text = '\uFEFFTags,Answer,Question\r\ntopic::Big_O,O(1),Fastest?\r\n\r\nmisc,Yes,Skipped blank line?\r\n';
+
+        const parsed = parseCardFile(text, 'csv');
+
+        expect(parsed.ok && parsed.rows).toEqual([
+            { line: 2, front: 'Fastest?', back: 'O(1)', topic: 'Big O' },
+            { line: 4, front: 'Skipped blank line?', back: 'Yes', topic: undefined },
+        ]);
+    });
+
+    it('prefers a CSV topic column over tags', () => {
+        const parsed = parseCardFile('front,back,topic,tags\nA,B,Recursion,topic::Loops\nC,D,,topic::Loops', 'csv');
+
+        expect(parsed.ok && parsed.rows.map(row => row.topic)).toEqual(['Recursion', 'Loops']);
+    });
+
+    it('needs a CSV header naming the front and back', () => {
+        expect(parseCardFile('term,definition\nA,B', 'csv')).toEqual({
+            ok: false,
+            error: 'The first row must name the columns, including front and back',
+        });
+        expect(parseCardFile('', 'csv')).toEqual({ ok: true, rows: [] });
+    });
+});
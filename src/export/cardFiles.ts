@@ -0,0 +1,303 @@
+/**
+ * Card files: the deck and the quiz question bank written as Anki notes or
+ * CSV, and files in either format read back for an import.
+ *
+ * Anki files are tab-separated text with Anki's `#` header lines, so its
+ * File > Import picks the columns up by itself. Topics travel as
+ * `topic::Name` tags, with spaces as underscores since Anki tags can't
+ * hold them. CSV files have a header row and a plain topic column, and
+ * escape fields a spreadsheet would run as formulas.
+ */
+import { BankQuestion, CardExport, CardFileFormat, CardFileRow, Flashcard } from '../types';
+
+export const CARD_FILE_CONTENT_TYPES: Record<CardFileFormat, string> = {
+    anki: 'text/plain; charset=utf-8',
+    csv: 'text/csv; charset=utf-8',
+};
+
+const TOPIC_TAG = 'topic::';
+
+// A CSV field a spreadsheet would run as a formula, or one already escaped
+// with leading apostrophes
+const CSV_FORMULA = /^'*[=+\-@]/;
+
+// Names Anki's #separator header may use instead of the character itself
+const ANKI_SEPARATORS: Record<string, string> = {
+    tab: '\t',
+    comma: ',',
+    semicolon: ';',
+    pipe: '|',
+    colon: ':',
+    space: ' ',
+};
+
+export type CardFileParse = { ok: true; rows: CardFileRow[] } | { ok: false; error: string };
+
+interface Note {
+    front: string;
+    back: string;
+    topic: string;
+    tags: string[];
+}
+
+interface FileRecord {
+    line: number;
+    fields: string[];
+}
+
+// e.g. "flashcards-2025-01-31.txt"; Anki imports text files as .txt
+export function cardFileName(format: CardFileFormat, now: number): string {
+    const date = new Date(now).toISOString().slice(0, 10);
+    return `flashcards-${date}.${format === 'anki' ? 'txt' : 'csv'}`;
+}
+
+export function renderCardFile(data: CardExport, format: CardFileFormat): string {
+    const notes = [...data.cards.map(cardNote), ...data.questions.map(questionNote)];
+
+    if (format === 'anki') {
+        const lines = ['#separator:tab', '#html:false', '#tags column:3'];
+        for (const note of notes) {
+            const tags = [topicTag(note.topic), ...note.tags].join(' ');
+            lines.push([note.front, note.back, tags].map(field => quoteField(field, '\t')).join('\t'));
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    const lines = ['front,back,topic,tags'];
+    for (const note of notes) {
+        lines.push([note.front, note.back, note.topic, note.tags.join(' ')].map(field => quoteField(escapeFormula(field), ',')).join(','));
+    }
+    return lines.join('\r\n') + '\r\n';
+}
+
+export function parseCardFile(content: string, format: CardFileFormat): CardFileParse {
+    const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    return format === 'anki' ? parseAnki(text) : parseCsv(text);
+}
+
+function cardNote(card: Flashcard): Note {
+    return { front: card.front, back: card.back, topic: card.topic, tags: ['flashcard'] };
+}
+
+// The question and its choices on the front; the answer and why on the back
+function questionNote({ topic, difficulty, question }: BankQuestion): Note {
+    const choices = question.options && question.options.length > 0
+        ? `\n\n${question.options.map(option => `- ${option}`).join('\n')}`
+        : '';
+
+    return {
+        front: `${question.question}${choices}`,
+        back: `${question.correctAnswer}\n\n${question.explanation}`,
+        topic,
+        tags: ['quiz-question', difficulty],
+    };
+}
+
+function topicTag(topic: string): string {
+    return TOPIC_TAG + topic.trim().replace(/\s+/g, '_');
+}
+
+function topicFromTags(tags: string | undefined): string | undefined {
+    const tag = tags?.split(/\s+/).find(t => t.toLowerCase().startsWith(TOPIC_TAG) && t.length > TOPIC_TAG.length);
+    return tag?.slice(TOPIC_TAG.length).replace(/_/g, ' ');
+}
+
+// Quoted when it holds the separator, a quote or a line break, or starts
+// with # (which Anki would take for a header line)
+function quoteField(field: string, separator: string): string {
+    return field.includes(separator) || /["\n]/.test(field) || field.startsWith('#')
+        ? `"${field.replace(/"/g, '""')}"`
+        : field;
+}
+
+/**
+ * Prefix an apostrophe to a CSV field starting with =, +, - or @, so that
+ * spreadsheets show it as text instead of running it as a formula.
+ * unescapeFormula takes it off again on import.
+ */
+function escapeFormula(field: string): string {
+    return CSV_FORMULA.test(field) ? `'${field}` : field;
+}
+
+function unescapeFormula(field: string): string {
+    return field.startsWith("'") && CSV_FORMULA.test(field.slice(1)) ? field.slice(1) : field;
+}
+
+/**
+ * Split text into records of fields. Quoted fields may hold the separator,
+ * doubled quotes and line breaks. Blank lines are dropped.
+ */
+function readRecords(text: string, separator: string, firstLine: number): FileRecord[] | { unclosedAt: number } {
+    const records: FileRecord[] = [];
+    let fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    let quoteLine = firstLine;
+    let line = firstLine;
+    let recordLine = firstLine;
+
+    const endRecord = () => {
+        fields.push(field);
+        if (fields.some(f => f.trim() !== '')) {
+            records.push({ line: recordLine, fields });
+        }
+        fields = [];
+        field = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                if (ch === '\n') {
+                    line++;
+                }
+                field += ch;
+            }
+        } else if (ch === '"' && field === '') {
+            quoted = true;
+            quoteLine = line;
+        } else if (ch === separator) {
+            fields.push(field);
+            field = '';
+        } else if (ch === '\n') {
+            endRecord();
+            line++;
+            recordLine = line;
+        } else {
+            field += ch;
+        }
+    }
+
+    if (quoted) {
+        return { unclosedAt: quoteLine };
+    }
+    endRecord();
+
+    return records;
+}
+
+function unclosedQuote(line: number): CardFileParse {
+    return { ok: false, error: `Line ${line}: a quoted field is never closed` };
+}
+
+/**
+ * Anki's text notes. Header lines name the separator and which columns hold
+ * tags, the deck and anything else that isn't a field; of the columns left,
+ * the first is the front and the second the back. A deck column gives the
+ * row's topic, otherwise a topic:: tag does.
+ */
+function parseAnki(text: string): CardFileParse {
+    const lines = text.split('\n');
+    let separator = '\t';
+    let html = false;
+    let tagsColumn: number | undefined;
+    let deckColumn: number | undefined;
+    const otherColumns = new Set<number>();
+
+    let headerLines = 0;
+    for (; headerLines < lines.length && lines[headerLines].startsWith('#'); headerLines++) {
+        const header = lines[headerLines].slice(1);
+        const colon = header.indexOf(':');
+        if (colon < 0) {
+            continue;
+        }
+
+        const key = header.slice(0, colon).trim().toLowerCase();
+        const value = header.slice(colon + 1);
+        if (key === 'separator') {
+            separator = ANKI_SEPARATORS[value.trim().toLowerCase()] ?? value;
+            if (separator.length !== 1) {
+                return { ok: false, error: `Line ${headerLines + 1}: unknown separator "${value}"` };
+            }
+        } else if (key === 'html') {
+            html = value.trim().toLowerCase() === 'true';
+        } else if (key === 'tags column') {
+            tagsColumn = Number(value) - 1;
+        } else if (key === 'deck column') {
+            deckColumn = Number(value) - 1;
+        } else if (key === 'notetype column' || key === 'guid column') {
+            otherColumns.add(Number(value) - 1);
+        }
+    }
+
+    const records = readRecords(lines.slice(headerLines).join('\n'), separator, headerLines + 1);
+    if (!Array.isArray(records)) {
+        return unclosedQuote(records.unclosedAt);
+    }
+
+    const field = (value: string | undefined) => (html ? htmlToText(value ?? '') : value ?? '').trim();
+
+    return {
+        ok: true,
+        rows: records.map(({ line, fields }) => {
+            const [front, back] = fields.filter((_, column) =>
+                column !== tagsColumn && column !== deckColumn && !otherColumns.has(column)
+            );
+            const deck = deckColumn !== undefined ? fields[deckColumn]?.trim() : undefined;
+
+            return {
+                line,
+                front: field(front),
+                back: field(back),
+                topic: deck || topicFromTags(tagsColumn !== undefined ? fields[tagsColumn] : undefined),
+            };
+        }),
+    };
+}
+
+// CSV with a header row; columns are found by name
+function parseCsv(text: string): CardFileParse {
+    const records = readRecords(text, ',', 1);
+    if (!Array.isArray(records)) {
+        return unclosedQuote(records.unclosedAt);
+    }
+    if (records.length === 0) {
+        return { ok: true, rows: [] };
+    }
+
+    const header = records[0].fields.map(name => name.trim().toLowerCase());
+    const column = (...names: string[]) => header.findIndex(name => names.includes(name));
+    const front = column('front', 'question');
+    const back = column('back', 'answer');
+    const topic = column('topic', 'deck');
+    const tags = column('tags');
+
+    if (front < 0 || back < 0) {
+        return { ok: false, error: 'The first row must name the columns, including front and back' };
+    }
+
+    return {
+        ok: true,
+        rows: records.slice(1).map(({ line, fields }) => {
+            const value = (index: number) => index >= 0 && fields[index] !== undefined ? unescapeFormula(fields[index]) : undefined;
+
+            return {
+                line,
+                front: (value(front) ?? '').trim(),
+                back: (value(back) ?? '').trim(),
+                topic: value(topic)?.trim() || topicFromTags(value(tags)),
+            };
+        }),
+    };
+}
+
+// Fields of notes exported from Anki with HTML kept: line breaks kept, other markup dropped
+function htmlToText(html: string): string {
+    return html
+        .replace(/<br\s*\/?>|<\/(div|p|li)>/gi, '\n')
+        .replace(/<[^>]*>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .replace(/\n{3,}/g, '\n\n');
+}
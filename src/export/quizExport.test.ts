@@ -0,0 +1,444 @@
+import { describe, expect, it } from 'vitest';
+import { Quiz } from '../types';
+import { quizExportFileName, renderQuizExport } from './quizExport';
+import { createZip } from './zip';
+
+const quiz: Quiz = {
+    id: 'quiz_1',
+    topic: 'C/C++ Pointers',
+    difficulty: 'intermediate',
+    createdAt: Date.UTC(2026, 9, 19, 13, 45, 10),
+    questions: [
+        {
+            id: 'q1',
+            type: 'multiple-choice',
+            question: 'What does `*p` do in {a} = ~b #1: x?\nPick one.',
+            options: ['Dereference <p>', 'Take the address & store it', "Nothing, it's a comment"],
+            correctAnswer: 'dereference <p>',
+            explanation: 'It reads the value p points to: *p.',
+            points: 2,
+        },
+        {
+            id: 'q2',
+            type: 'true-false',
+            question: 'A pointer can be null',
+            correctAnswer: 'True',
+            explanation: 'nullptr is a valid pointer value.',
+            points: 1,
+        },
+        {
+            id: 'q3',
+            type: 'short-answer',
+            question: 'Which operator takes an address?',
+            correctAnswer: '&',
+            explanation: 'Unary & gives the address of its operand.',
+            points: 3,
+        },
+        {
+            id: 'q4',
+            type: 'true-false',
+            question: 'Pointers are integers',
+            options: ['True', 'False'],
+            correctAnswer: 'false',
+            explanation: 'They are addresses with a type.',
+            points: 1,
+        },
+    ],
+};
+
+// Zip reading
+
+interface ZipFile {
+    path: string;
+    content: string;
+}
+
+function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc ^= byte;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+        }
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Read a stored zip through its central directory, checking each entry's local header and CRC
+function readZip(zip: Uint8Array): ZipFile[] {
+    const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+    const decoder = new TextDecoder('utf-8', { fatal: true, ignoreBOM: false });
+    const end = zip.length - 22;
+
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    const count = view.getUint16(end + 10, true);
+    const centralSize = view.getUint32(end + 12, true);
+    const centralStart = view.getUint32(end + 16, true);
+    expect(centralStart + centralSize).toBe(end);
+
+    const files: ZipFile[] = [];
+    let position = centralStart;
+
+    for (let i = 0; i < count; i++) {
+        expect(view.getUint32(position, true)).toBe(0x02014b50);
+        const method = view.getUint16(position + 10, true);
+        const crc = view.getUint32(position + 16, true);
+        const size = view.getUint32(position + 20, true);
+        const nameLength = view.getUint16(position + 28, true);
+        const extraLength = view.getUint16(position + 30, true);
+        const commentLength = view.getUint16(position + 32, true);
+        const offset = view.getUint32(position + 42, true);
+        const path = decoder.decode(zip.subarray(position + 46, position + 46 + nameLength));
+
+        expect(method).toBe(0);
+        expect(view.getUint32(offset, true)).toBe(0x04034b50);
+        expect(view.getUint32(offset + 14, true)).toBe(crc);
+        expect(view.getUint32(offset + 22, true)).toBe(size);
+        const localName = view.getUint16(offset + 26, true);
+        const localExtra = view.getUint16(offset + 28, true);
+        expect(decoder.decode(zip.subarray(offset + 30, offset + 30 + localName))).toBe(path);
+
+        const dataStart = offset + 30 + localName + localExtra;
+        const data = zip.subarray(dataStart, dataStart + size);
+        expect(crc32(data)).toBe(crc);
+
+        files.push({ path, content: decoder.decode(data) });
+        position += 46 + nameLength + extraLength + commentLength;
+    }
+
+    expect(position).toBe(end);
+    return files;
+}
+
+// XML reading: enough for well-formed documents without DTDs, CDATA or processing instructions
+
+interface XmlElement {
+    name: string; // local name, prefix dropped
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string; // all text inside, <br/> as a line break
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(\w+);/g, (match, name: string) => {
+        if (!(name in ENTITIES)) {
+            throw new Error(`Unknown entity ${match}`);
+        }
+        return ENTITIES[name];
+    });
+}
+
+function parseXml(xml: string): XmlElement {
+    const body = xml.replace(/^<\?xml[^?]*\?>\s*/, '');
+    const tokens = body.match(/<[^>]+>|[^<]+/g) ?? [];
+    const stack: XmlElement[] = [];
+    let root: XmlElement | null = null;
+
+    for (const token of tokens) {
+        if (token.startsWith('</')) {
+            const element = stack.pop();
+            expect(element?.name).toBe(token.slice(2, -1).trim().replace(/^\w+:/, ''));
+            if (element && stack.length > 0) {
+                stack[stack.length - 1].text += element.text;
+            }
+        } else if (token.startsWith('<')) {
+            const selfClosing = token.endsWith('/>');
+            const [, name, rest] = token.match(/^<([\w:.-]+)([\s\S]*?)\/?>$/) ?? [];
+            expect(name).toBeDefined();
+
+            const attributes: Record<string, string> = {};
+            for (const [, key, value] of rest.matchAll(/([\w:.-]+)="([^"]*)"/g)) {
+                attributes[key] = decodeEntities(value);
+            }
+
+            const element: XmlElement = { name: name.replace(/^\w+:/, ''), attributes, children: [], text: '' };
+            if (stack.length > 0) {
+                stack[stack.length - 1].children.push(element);
+            } else {
+                expect(root).toBeNull();
+                root = element;
+            }
+
+            if (selfClosing) {
+                if (element.name === 'br' && stack.length > 0) {
+                    stack[stack.length - 1].text += '\n';
+                }
+            } else {
+                stack.push(element);
+            }
+        } else if (stack.length > 0) {
+            stack[stack.length - 1].text += decodeEntities(token);
+        } else {
+            expect(token.trim()).toBe('');
+        }
+    }
+
+    expect(stack).toHaveLength(0);
+    expect(root).not.toBeNull();
+    return root as unknown as XmlElement;
+}
+
+function find(element: XmlElement, name: string): XmlElement[] {
+    return element.children.flatMap(child => [...(child.name === name ? [child] : []), ...find(child, name)]);
+}
+
+function only(element: XmlElement, name: string): XmlElement {
+    const found = find(element, name);
+    expect(found).toHaveLength(1);
+    return found[0];
+}
+
+// GIFT reading
+
+interface GiftQuestion {
+    points: number;
+    title: string;
+    text: string;
+    type: 'multiple-choice' | 'true-false' | 'short-answer';
+    answers: { correct: boolean; text: string }[];
+    feedback: string;
+}
+
+function unescapeGift(text: string): string {
+    return text.replace(/\\(n|[\\~=#{}:])/g, (_, character: string) => (character === 'n' ? '\n' : character));
+}
+
+// Split at `separator` where it isn't escaped
+function splitUnescaped(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\\') {
+            current += text.slice(i, i + 2);
+            i++;
+        } else if (text.startsWith(separator, i)) {
+            parts.push(current);
+            current = '';
+            i += separator.length - 1;
+        } else {
+            current += text[i];
+        }
+    }
+    return [...parts, current];
+}
+
+function parseGift(gift: string): { category: string; questions: GiftQuestion[] } {
+    const blocks = gift.trim().split(/\n{2,}/);
+    let category = '';
+    const questions: GiftQuestion[] = [];
+
+    for (const block of blocks) {
+        const lines = block.split('\n');
+        const comments = lines.filter(line => line.startsWith('//'));
+        const body = lines.filter(line => !line.startsWith('//')).join('\n');
+
+        if (body.startsWith('$CATEGORY:')) {
+            category = body.slice('$CATEGORY:'.length).trim();
+            continue;
+        }
+        if (!body) {
+            continue; // the header comment
+        }
+
+        const [, title, rest] = body.match(/^::((?:\\.|[^:\\])*)::\[markdown\]([\s\S]*)$/) ?? [];
+        expect(title).toBeDefined();
+
+        const [text, answerBlock, ...extra] = splitUnescaped(rest, '{');
+        expect(extra).toHaveLength(0);
+        expect(answerBlock.endsWith('}')).toBe(true);
+        const [answerText, feedback] = splitUnescaped(answerBlock.slice(0, -1), '####');
+
+        const answerLines = answerText.split('\n').filter(line => line.trim());
+        let type: GiftQuestion['type'];
+        let answers: GiftQuestion['answers'];
+
+        if (answerLines.length === 1 && /^(TRUE|FALSE|T|F)$/.test(answerLines[0])) {
+            type = 'true-false';
+            answers = [{ correct: true, text: answerLines[0].startsWith('T') ? 'True' : 'False' }];
+        } else {
+            answers = answerLines.map(line => {
+                expect(line[0]).toMatch(/[=~]/);
+                return { correct: line[0] === '=', text: unescapeGift(line.slice(1)) };
+            });
+            type = answers.some(answer => !answer.correct) ? 'multiple-choice' : 'short-answer';
+        }
+
+        const pointsComment = comments.map(line => line.match(/^\/\/ (\d+) points?$/)).find(Boolean);
+        questions.push({
+            points: Number(pointsComment?.[1]),
+            title: unescapeGift(title),
+            text: unescapeGift(text),
+            type,
+            answers,
+            // Line breaks in the text are escaped, so a raw one only separates the feedback from the `}`
+            feedback: unescapeGift((feedback ?? '').trimEnd()),
+        });
+    }
+
+    return { category, questions };
+}
+
+describe('createZip', () => {
+    it('writes entries that read back with matching CRCs and offsets', () => {
+        const entries = [
+            { path: 'a.txt', content: 'hello' },
+            { path: 'dir/ünïcode.xml', content: '<x>naïve ✓</x>' },
+            { path: 'empty.txt', content: '' },
+        ];
+
+        expect(readZip(createZip(entries, new Date(quiz.createdAt)))).toEqual(entries);
+    });
+
+    it('stores the modification time as a DOS date and time', () => {
+        const zip = createZip([{ path: 'a.txt', content: 'a' }], new Date(Date.UTC(2026, 9, 19, 13, 45, 10)));
+        const view = new DataView(zip.buffer);
+
+        expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 5);
+        expect(view.getUint16(12, true)).toBe(((2026 - 1980) << 9) | (10 << 5) | 19);
+    });
+});
+
+describe('QTI export', () => {
+    const files = readZip(renderQuizExport(quiz, 'qti') as Uint8Array);
+    const file = (path: string) => {
+        const found = files.find(entry => entry.path === path);
+        expect(found).toBeDefined();
+        return parseXml(found!.content);
+    };
+
+    it('packages a manifest, the test and one item per question', () => {
+        expect(files.map(entry => entry.path)).toEqual([
+            'imsmanifest.xml',
+            'assessment.xml',
+            'items/item-1.xml',
+            'items/item-2.xml',
+            'items/item-3.xml',
+            'items/item-4.xml',
+        ]);
+    });
+
+    it('lists every file in the manifest, with the items as the test\'s dependencies', () => {
+        const manifest = file('imsmanifest.xml');
+        const resources = find(manifest, 'resource');
+
+        expect(manifest.name).toBe('manifest');
+        expect(resources.map(resource => [resource.attributes.type, resource.attributes.href])).toEqual([
+            ['imsqti_test_xmlv2p1', 'assessment.xml'],
+            ['imsqti_item_xmlv2p1', 'items/item-1.xml'],
+            ['imsqti_item_xmlv2p1', 'items/item-2.xml'],
+            ['imsqti_item_xmlv2p1', 'items/item-3.xml'],
+            ['imsqti_item_xmlv2p1', 'items/item-4.xml'],
+        ]);
+        expect(find(resources[0], 'dependency').map(dependency => dependency.attributes.identifierref))
+            .toEqual(resources.slice(1).map(resource => resource.attributes.identifier));
+        resources.forEach(resource => {
+            expect(only(resource, 'file').attributes.href).toBe(resource.attributes.href);
+        });
+    });
+
+    it('refers to every item from the assessment test', () => {
+        const test = file('assessment.xml');
+
+        expect(test.attributes.title).toBe('C/C++ Pointers (intermediate)');
+        expect(find(test, 'assessmentItemRef').map(ref => ref.attributes.href))
+            .toEqual(['items/item-1.xml', 'items/item-2.xml', 'items/item-3.xml', 'items/item-4.xml']);
+    });
+
+    it('keeps each question\'s correct response, points and explanation', () => {
+        quiz.questions.forEach((question, index) => {
+            const item = file(`items/item-${index + 1}.xml`);
+            const correct = only(only(item, 'correctResponse'), 'value').text;
+            const maxScore = find(item, 'outcomeDeclaration').find(outcome => outcome.attributes.identifier === 'MAXSCORE');
+            const choices = find(item, 'simpleChoice');
+
+            if (question.type === 'short-answer') {
+                expect(only(item, 'responseDeclaration').attributes.baseType).toBe('string');
+                expect(find(item, 'textEntryInteraction')).toHaveLength(1);
+                expect(correct).toBe(question.correctAnswer);
+            } else {
+                const chosen = choices.find(choice => choice.attributes.identifier === correct);
+                expect(chosen?.text.toLowerCase()).toBe(question.correctAnswer.toLowerCase());
+            }
+
+            expect(Number(only(maxScore!, 'value').text)).toBe(question.points);
+            expect(Number(only(only(item, 'responseIf'), 'baseValue').text)).toBe(question.points);
+            expect(only(item, 'modalFeedback').text).toBe(question.explanation);
+        });
+    });
+
+    it('escapes question and option text, keeping line breaks', () => {
+        const item = file('items/item-1.xml');
+
+        expect(only(item, 'prompt').text).toBe(quiz.questions[0].question);
+        expect(find(item, 'simpleChoice').map(choice => choice.text)).toEqual(quiz.questions[0].options);
+    });
+
+    it('offers True and False for a true-false question without options', () => {
+        const item = file('items/item-2.xml');
+
+        expect(find(item, 'simpleChoice').map(choice => choice.text)).toEqual(['True', 'False']);
+    });
+
+    it('exports a choice question whose answer isn\'t an option as short-answer', () => {
+        const odd: Quiz = {
+            ...quiz,
+            questions: [{ ...quiz.questions[0], correctAnswer: 'Something else' }],
+        };
+        const [, , item] = readZip(renderQuizExport(odd, 'qti') as Uint8Array);
+        const parsed = parseXml(item.content);
+
+        expect(find(parsed, 'choiceInteraction')).toHaveLength(0);
+        expect(only(only(parsed, 'correctResponse'), 'value').text).toBe('Something else');
+    });
+});
+
+describe('GIFT export', () => {
+    const { category, questions } = parseGift(renderQuizExport(quiz, 'gift') as string);
+
+    it('files the questions under the topic, without slashes that would start subcategories', () => {
+        expect(category).toBe('C C++ Pointers');
+        expect(questions.map(question => question.title))
+            .toEqual(['Question 1', 'Question 2', 'Question 3', 'Question 4']);
+    });
+
+    it('keeps each question\'s type, answers, points and explanation', () => {
+        expect(questions.map(({ type, answers, points, feedback }) => ({ type, answers, points, feedback }))).toEqual([
+            {
+                type: 'multiple-choice',
+                answers: [
+                    { correct: true, text: 'Dereference <p>' },
+                    { correct: false, text: 'Take the address & store it' },
+                    { correct: false, text: "Nothing, it's a comment" },
+                ],
+                points: 2,
+                feedback: 'It reads the value p points to: *p.',
+            },
+            { type: 'true-false', answers: [{ correct: true, text: 'True' }], points: 1, feedback: 'nullptr is a valid pointer value.' },
+            { type: 'short-answer', answers: [{ correct: true, text: '&' }], points: 3, feedback: 'Unary & gives the address of its operand.' },
+            { type: 'true-false', answers: [{ correct: true, text: 'False' }], points: 1, feedback: 'They are addresses with a type.' },
+        ]);
+    });
+
+    it('escapes GIFT\'s special characters in question text', () => {
+        const gift = renderQuizExport(quiz, 'gift') as string;
+
+        expect(gift).toContain('in \\{a\\} \\= \\~b \\#1\\: x?\\nPick one.{');
+        expect(questions[0].text).toBe(quiz.questions[0].question);
+    });
+});
+
+describe('JSON export', () => {
+    it('is the quiz as stored', () => {
+        expect(JSON.parse(renderQuizExport(quiz, 'json') as string)).toEqual(quiz);
+    });
+});
+
+describe('quizExportFileName', () => {
+    it('names the file after the topic and the day the quiz was made', () => {
+        expect(quizExportFileName(quiz, 'qti')).toBe('c-c-pointers-quiz-2026-10-19-qti.zip');
+        expect(quizExportFileName(quiz, 'gift')).toBe('c-c-pointers-quiz-2026-10-19-gift.txt');
+        expect(quizExportFileName(quiz, 'json')).toBe('c-c-pointers-quiz-2026-10-19.json');
+    });
+});
@@ -0,0 +1,270 @@
+/**
+ * Quiz exports for learning management systems: an IMS QTI 2.1 content
+ * package (a zip of the manifest, an assessment test and one item per
+ * question), Moodle GIFT text, or the quiz itself as JSON. Both LMS formats
+ * give each question its points and show its explanation as feedback.
+ *
+ * Multiple-choice and true-false questions become choice questions. A
+ * short-answer question, or a choice question whose answer isn't one of its
+ * choices, becomes a text entry question that accepts the answer ignoring
+ * case.
+ */
+import { Quiz, QuizExportFormat, QuizQuestion } from '../types';
+import { topicSlug } from './sessionExport';
+import { createZip } from './zip';
+
+export const QUIZ_EXPORT_CONTENT_TYPES: Record<QuizExportFormat, string> = {
+    qti: 'application/zip',
+    gift: 'text/plain; charset=utf-8',
+    json: 'application/json; charset=utf-8',
+};
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_SCHEMA_LOCATION = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+
+export function renderQuizExport(quiz: Quiz, format: QuizExportFormat): string | Uint8Array {
+    switch (format) {
+        case 'qti':
+            return renderQtiPackage(quiz);
+        case 'gift':
+            return renderGift(quiz);
+        case 'json':
+            return JSON.stringify(quiz, null, 2);
+    }
+}
+
+// e.g. "javascript-closures-quiz-2025-01-31-qti.zip"; Moodle imports GIFT as .txt
+export function quizExportFileName(quiz: Quiz, format: QuizExportFormat): string {
+    const date = new Date(quiz.createdAt).toISOString().slice(0, 10);
+    const name = `${topicSlug(quiz.topic, 'quiz')}-quiz-${date}`;
+    switch (format) {
+        case 'qti':
+            return `${name}-qti.zip`;
+        case 'gift':
+            return `${name}-gift.txt`;
+        case 'json':
+            return `${name}.json`;
+    }
+}
+
+// The choices a question offers and which one is right; null to export it as short-answer
+function choicesOf(question: QuizQuestion): { options: string[]; correct: number } | null {
+    if (question.type === 'short-answer') {
+        return null;
+    }
+
+    const options = question.options && question.options.length > 0
+        ? question.options
+        : question.type === 'true-false' ? ['True', 'False'] : [];
+    const answer = question.correctAnswer.trim().toLowerCase();
+    const correct = options.findIndex(option => option.trim().toLowerCase() === answer);
+
+    return correct >= 0 ? { options, correct } : null;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+// Escaped, with line breaks kept
+function xmlText(text: string): string {
+    return escapeXml(text).replace(/\n/g, '<br/>');
+}
+
+function itemFile(index: number): string {
+    return `items/item-${index + 1}.xml`;
+}
+
+// QTI identifiers must be XML names, so items are numbered rather than named by question id
+function itemIdentifier(index: number): string {
+    return `ITEM_${index + 1}`;
+}
+
+function renderQtiPackage(quiz: Quiz): Uint8Array {
+    return createZip([
+        { path: 'imsmanifest.xml', content: renderQtiManifest(quiz) },
+        { path: 'assessment.xml', content: renderQtiTest(quiz) },
+        ...quiz.questions.map((question, index) => ({ path: itemFile(index), content: renderQtiItem(question, index) })),
+    ], new Date(quiz.createdAt));
+}
+
+function renderQtiManifest(quiz: Quiz): string {
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="MANIFEST_1">`,
+        '  <metadata>',
+        '    <schema>QTIv2.1 Package</schema>',
+        '    <schemaversion>1.0.0</schemaversion>',
+        '  </metadata>',
+        '  <organizations/>',
+        '  <resources>',
+        '    <resource identifier="TEST" type="imsqti_test_xmlv2p1" href="assessment.xml">',
+        '      <file href="assessment.xml"/>',
+        ...quiz.questions.map((_, index) => `      <dependency identifierref="${itemIdentifier(index)}"/>`),
+        '    </resource>',
+    ];
+    quiz.questions.forEach((_, index) => {
+        lines.push(
+            `    <resource identifier="${itemIdentifier(index)}" type="imsqti_item_xmlv2p1" href="${itemFile(index)}">`,
+            `      <file href="${itemFile(index)}"/>`,
+            '    </resource>'
+        );
+    });
+    lines.push('  </resources>', '</manifest>', '');
+    return lines.join('\n');
+}
+
+// One section holding every item; the test's score is the sum of the items'
+function renderQtiTest(quiz: Quiz): string {
+    const title = escapeXml(`${quiz.topic} (${quiz.difficulty})`);
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<assessmentTest xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"`,
+        `    xsi:schemaLocation="${QTI_SCHEMA_LOCATION}" identifier="TEST" title="${title}">`,
+        '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>',
+        '  <testPart identifier="PART_1" navigationMode="linear" submissionMode="simultaneous">',
+        `    <assessmentSection identifier="SECTION_1" title="${title}" visible="true">`,
+        ...quiz.questions.map((_, index) =>
+            `      <assessmentItemRef identifier="${itemIdentifier(index)}" href="${itemFile(index)}"/>`
+        ),
+        '    </assessmentSection>',
+        '  </testPart>',
+        '  <outcomeProcessing>',
+        '    <setOutcomeValue identifier="SCORE">',
+        '      <sum><testVariables variableIdentifier="SCORE"/></sum>',
+        '    </setOutcomeValue>',
+        '  </outcomeProcessing>',
+        '</assessmentTest>',
+        '',
+    ].join('\n');
+}
+
+/**
+ * A choice or text entry item. SCORE becomes the question's points when the
+ * response is correct, MAXSCORE holds them, and the explanation is shown as
+ * modal feedback once the item is answered.
+ */
+function renderQtiItem(question: QuizQuestion, index: number): string {
+    const choices = choicesOf(question);
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"`,
+        `    xsi:schemaLocation="${QTI_SCHEMA_LOCATION}"`,
+        `    identifier="${itemIdentifier(index)}" title="Question ${index + 1}" adaptive="false" timeDependent="false">`,
+    ];
+
+    if (choices) {
+        lines.push(
+            '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">',
+            `    <correctResponse><value>CHOICE_${choices.correct + 1}</value></correctResponse>`,
+            '  </responseDeclaration>'
+        );
+    } else {
+        lines.push(
+            '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">',
+            `    <correctResponse><value>${escapeXml(question.correctAnswer)}</value></correctResponse>`,
+            '  </responseDeclaration>'
+        );
+    }
+
+    lines.push(
+        '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">',
+        '    <defaultValue><value>0</value></defaultValue>',
+        '  </outcomeDeclaration>',
+        '  <outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float">',
+        `    <defaultValue><value>${question.points}</value></defaultValue>`,
+        '  </outcomeDeclaration>',
+        '  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>',
+        '  <itemBody>'
+    );
+
+    if (choices) {
+        lines.push(
+            '    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">',
+            `      <prompt>${xmlText(question.question)}</prompt>`,
+            ...choices.options.map((option, choice) =>
+                `      <simpleChoice identifier="CHOICE_${choice + 1}">${xmlText(option)}</simpleChoice>`
+            ),
+            '    </choiceInteraction>'
+        );
+    } else {
+        lines.push(
+            `    <p>${xmlText(question.question)}</p>`,
+            '    <p><textEntryInteraction responseIdentifier="RESPONSE"/></p>'
+        );
+    }
+
+    const isCorrect = choices
+        ? '<match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>'
+        : '<stringMatch caseSensitive="false"><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></stringMatch>';
+
+    lines.push(
+        '  </itemBody>',
+        '  <responseProcessing>',
+        '    <responseCondition>',
+        '      <responseIf>',
+        `        ${isCorrect}`,
+        '        <setOutcomeValue identifier="SCORE">',
+        `          <baseValue baseType="float">${question.points}</baseValue>`,
+        '        </setOutcomeValue>',
+        '      </responseIf>',
+        '    </responseCondition>',
+        '    <setOutcomeValue identifier="FEEDBACK">',
+        '      <baseValue baseType="identifier">EXPLANATION</baseValue>',
+        '    </setOutcomeValue>',
+        '  </responseProcessing>',
+        `  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${xmlText(question.explanation)}</modalFeedback>`,
+        '</assessmentItem>',
+        ''
+    );
+    return lines.join('\n');
+}
+
+// GIFT's special characters are escaped with a backslash; line breaks become \n
+function giftText(text: string): string {
+    return text.replace(/[\\~=#{}:]/g, match => `\\${match}`).replace(/\n/g, '\\n');
+}
+
+/**
+ * Moodle GIFT: one question per block, in a category named after the
+ * topic. GIFT has no syntax for a question's points, so they are noted in a
+ * comment above it; the explanation is the question's general feedback.
+ */
+function renderGift(quiz: Quiz): string {
+    const blocks = [
+        `// ${quiz.topic} (${quiz.difficulty}), ${quiz.questions.length} questions`,
+        // Slashes would start subcategories
+        `$CATEGORY: ${quiz.topic.replace(/[/\n]/g, ' ').trim()}`,
+    ];
+
+    quiz.questions.forEach((question, index) => {
+        const choices = choicesOf(question);
+        const correct = choices ? choices.options[choices.correct].trim().toLowerCase() : null;
+        let answers: string;
+
+        if (question.type === 'true-false' && (correct === 'true' || correct === 'false')) {
+            answers = correct.toUpperCase();
+        } else if (choices) {
+            answers = choices.options
+                .map((option, choice) => `${choice === choices.correct ? '=' : '~'}${giftText(option)}`)
+                .join('\n');
+        } else {
+            answers = `=${giftText(question.correctAnswer)}`;
+        }
+
+        blocks.push([
+            `// ${question.points} ${question.points === 1 ? 'point' : 'points'}`,
+            `::Question ${index + 1}::[markdown]${giftText(question.question)}{`,
+            answers,
+            `####${giftText(question.explanation)}`,
+            '}',
+        ].join('\n'));
+    });
+
+    return blocks.join('\n\n') + '\n';
+}
@@ -0,0 +1,248 @@
+import { describe, expect, it } from 'vitest';
+import { Difficulty, GradedQuizResult, SessionExport, TutorMode } from '../types';
+import { exportFileName, renderExport, topicSlug } from './sessionExport';
+
+const start = Date.parse('2026-06-10T20:00:00Z');
+
+function attempt(score: number, completedAt: number): GradedQuizResult {
+    return {
+        quizId: 'quiz_1',
+        score,
+        maxScore: 20,
+        percentage: (score / 20) * 100,
+        completedAt,
+        timeSpent: 120,
+        answers: [],
+        review: [
+            {
+                questionId: 'q1',
+                question: 'What does a closure capture?',
+                type: 'short-answer',
+                answer: 'Its scope',
+                correctAnswer: 'Its lexical scope',
+                explanation: 'A closure keeps the variables of the scope it was created in.',
+                isCorrect: true,
+                pointsEarned: 8.5,
+                points: 10,
+                feedback: 'Mention that the scope is lexical.',
+            },
+            {
+                questionId: 'q2',
+                question: 'Is `var` block-scoped?',
+                type: 'true-false',
+                answer: null,
+                correctAnswer: 'False',
+                explanation: '`var` is function-scoped.',
+                isCorrect: false,
+                pointsEarned: 0,
+                points: 10,
+            },
+        ],
+    };
+}
+
+function exportData(overrides: Partial<SessionExport> = {}): SessionExport {
+    return {
+        session: {
+            id: 'session_1',
+            topic: 'JavaScript Closures',
+            duration: 30,
+            difficulty: 'intermediate',
+            startTime: start,
+            endTime: start + 45 * 60 * 1000,
+            status: 'completed',
+            endReason: 'timeout',
+            mode: 'socratic',
+            summary: {
+                overview: 'Went over closures and scope.',
+                conceptsCovered: ['Lexical scope', 'Closures in loops'],
+                strengths: [],
+                gaps: ['Hoisting'],
+                nextSteps: ['Practise currying'],
+            },
+        },
+        activeMinutes: 24.6,
+        transcript: [
+            { id: 1, role: 'user', content: 'What is a closure?', timestamp: start + 60_000 },
+            { id: 2, role: 'assistant', content: 'A function with its scope.', timestamp: start + 120_000, interrupted: true },
+        ],
+        quizzes: [{
+            quizId: 'quiz_1',
+            topic: 'JavaScript Closures',
+            difficulty: 'intermediate',
+            createdAt: start + 30 * 60 * 1000,
+            attempts: [attempt(8.5, start + 35 * 60 * 1000), attempt(20, start + 40 * 60 * 1000)],
+        }],
+        exportedAt: start + 24 * 60 * 60 * 1000,
+        timeZone: 'UTC',
+        ...overrides,
+    };
+}
+
+describe('renderExport as Markdown', () => {
+    const markdown = renderExport(exportData(), 'md');
+    const lines = markdown.split('\n');
+
+    it('lists the session\'s details under its topic', () => {
+        expect(lines[0]).toBe('# JavaScript Closures');
+        expect(lines).toContain('- **Difficulty:** intermediate');
+        expect(lines).toContain('- **Tutor mode:** socratic');
+        expect(lines).toContain('- **Status:** Ran out of time');
+        expect(lines).toContain('- **Study time:** 25 of 30 minutes');
+        expect(lines).toContain('- **Messages:** 2');
+        expect(lines).toContain('- **Quizzes taken:** 1');
+    });
+
+    it('includes the summary and leaves out its empty lists', () => {
+        expect(markdown).toContain('## Summary\n\nWent over closures and scope.');
+        expect(markdown).toContain('### Concepts covered\n\n- Lexical scope\n- Closures in loops');
+        expect(markdown).toContain('### Gaps\n\n- Hoisting');
+        expect(markdown).toContain('### Next steps\n\n- Practise currying');
+        expect(markdown).not.toContain('### Strengths');
+    });
+
+    it('writes the transcript with speakers and stopped responses', () => {
+        const transcript = markdown.slice(markdown.indexOf('## Transcript'), markdown.indexOf('## Quizzes'));
+
+        expect(transcript).toMatch(/### You · [^\n]+\n\nWhat is a closure\?/);
+        expect(transcript).toMatch(/### Tutor · [^\n]+\n\nA function with its scope\.\n\n_Response stopped_/);
+    });
+
+    it('lists each attempt\'s answers, scores and feedback', () => {
+        expect(markdown).toContain('### Quiz 1: JavaScript Closures (intermediate)');
+        expect(markdown).toMatch(/#### Attempt 1: 8\.5\/20 \(43%\), /);
+        expect(markdown).toMatch(/#### Attempt 2: 20\/20 \(100%\), /);
+        expect(markdown).toContain([
+            '1. What does a closure capture?',
+            '',
+            '    - Your answer: Its scope ✓ (8.5/10)',
+            '    - Correct answer: Its lexical scope',
+            '    - A closure keeps the variables of the scope it was created in.',
+            '    - Feedback: Mention that the scope is lexical.',
+        ].join('\n'));
+        expect(markdown).toContain('    - Your answer: _(no answer)_ ✗ (0/10)');
+    });
+
+    it('labels attempts only when a quiz was taken more than once', () => {
+        const [quiz] = exportData().quizzes;
+        const once = renderExport(exportData({ quizzes: [{ ...quiz, attempts: [quiz.attempts[0]] }] }), 'md');
+
+        expect(once).toMatch(/#### 8\.5\/20 \(43%\), /);
+        expect(once).not.toContain('Attempt 1');
+    });
+
+    it('notes an empty transcript and leaves out sections without content', () => {
+        const data = exportData();
+        const empty = renderExport(exportData({
+            session: { ...data.session, status: 'paused', endTime: undefined, summary: undefined },
+            transcript: [],
+            quizzes: [],
+        }), 'md');
+
+        expect(empty).toContain('## Transcript\n\n_No messages._');
+        expect(empty).toContain('- **Status:** Paused');
+        expect(empty).not.toContain('## Summary');
+        expect(empty).not.toContain('## Quizzes');
+    });
+
+    it('shows dates in the user\'s time zone', () => {
+        // 20:00 UTC on 10 June is already 11 June in Tokyo
+        const tokyo = renderExport(exportData({ timeZone: 'Asia/Tokyo' }), 'md');
+
+        expect(markdown).toMatch(/- \*\*Date:\*\* Jun 10, 2026/);
+        expect(tokyo).toMatch(/- \*\*Date:\*\* Jun 11, 2026/);
+    });
+});
+
+describe('renderExport as HTML', () => {
+    const html = renderExport(exportData(), 'html');
+
+    it('is a standalone page titled with the topic', () => {
+        expect(html.startsWith('<!DOCTYPE html>\n<html lang="en">')).toBe(true);
+        expect(html).toContain('<title>JavaScript Closures</title>');
+        expect(html).toContain('<style>');
+        expect(html).toContain('<dt>Status</dt><dd>Ran out of time</dd>');
+        expect(html).toContain('<div class="message assistant">');
+        expect(html).toContain('<div class="note">Response stopped</div>');
+        expect(html).toContain('<li class="incorrect">Your answer: <em>no answer</em> ✗ (0/10)</li>');
+    });
+
+    it('escapes every field it interpolates', () => {
+        const payload = '<img src=x onerror="alert(\'&\')">';
+        const escaped = '&lt;img src=x onerror=&quot;alert(&#39;&amp;&#39;)&quot;&gt;';
+        const data = exportData();
+        const { session } = data;
+        const [quiz] = data.quizzes;
+        const hostile = exportData({
+            session: {
+                ...session,
+                topic: payload,
+                // Typed as enums, but a stored value could be anything
+                difficulty: payload as Difficulty,
+                mode: payload as TutorMode,
+                summary: { overview: payload, conceptsCovered: [payload], strengths: [payload], gaps: [payload], nextSteps: [payload] },
+            },
+            transcript: data.transcript.map(message => ({ ...message, content: payload })),
+            quizzes: [{
+                ...quiz,
+                topic: payload,
+                difficulty: payload as Difficulty,
+                attempts: [{
+                    ...quiz.attempts[0],
+                    review: [{
+                        ...quiz.attempts[0].review[0],
+                        question: payload,
+                        answer: payload,
+                        correctAnswer: payload,
+                        explanation: payload,
+                        feedback: payload,
+                    }],
+                }],
+            }],
+        });
+
+        const page = renderExport(hostile, 'html');
+
+        expect(page).not.toContain('<img');
+        expect(page).not.toContain('onerror="');
+        // Topic (title and heading), difficulty, mode, 5 summary fields,
+        // 2 messages, quiz topic and difficulty, 5 review fields
+        expect(page.split(escaped).length - 1).toBe(2 + 1 + 1 + 5 + 2 + 2 + 5);
+    });
+
+    it('escapes each field exactly once', () => {
+        const data = exportData();
+        const tagged = renderExport(exportData({
+            session: { ...data.session, topic: 'Closures <b>&</b>' },
+            transcript: [{ ...data.transcript[0], content: 'Is a && b a closure?' }],
+        }), 'html');
+
+        expect(tagged).toContain('<h1>Closures &lt;b&gt;&amp;&lt;/b&gt;</h1>');
+        expect(tagged).toContain('<div class="content">Is a &amp;&amp; b a closure?</div>');
+        expect(tagged).not.toContain('&amp;amp;');
+        expect(tagged).not.toContain('&amp;lt;');
+    });
+});
+
+describe('renderExport as JSON', () => {
+    it('is the export data as is', () => {
+        const data = exportData();
+
+        expect(JSON.parse(renderExport(data, 'json'))).toEqual(data);
+    });
+});
+
+describe('exportFileName', () => {
+    it('names the file by topic, start date and format', () => {
+        const { session } = exportData();
+
+        expect(exportFileName(session, 'md')).toBe('javascript-closures-2026-06-10.md');
+        expect(exportFileName({ ...session, topic: '¿¿??' }, 'html')).toBe('session-2026-06-10.html');
+    });
+
+    it('slugs topics to at most 60 characters', () => {
+        expect(topicSlug('  C++ & Rust: Memory!  ', 'x')).toBe('c-rust-memory');
+        expect(topicSlug('a'.repeat(80), 'x')).toHaveLength(60);
+        expect(topicSlug('', 'fallback')).toBe('fallback');
+    });
+});
@@ -0,0 +1,264 @@
+/**
+ * Session exports: a session's details, AI summary, transcript and quizzes as
+ * a Markdown document, a standalone print-friendly HTML page or the raw
+ * SessionExport as JSON.
+ */
+import { ExportFormat, ExportedQuiz, GradedQuizResult, SessionEndReason, SessionExport, StudySession } from '../types';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+    md: 'text/markdown; charset=utf-8',
+    html: 'text/html; charset=utf-8',
+    json: 'application/json; charset=utf-8',
+};
+
+const END_REASON_LABELS: Record<SessionEndReason, string> = {
+    manual: 'Completed',
+    timeout: 'Ran out of time',
+    idle: 'Ended after inactivity',
+};
+
+export function renderExport(data: SessionExport, format: ExportFormat): string {
+    switch (format) {
+        case 'md':
+            return renderMarkdown(data);
+        case 'html':
+            return renderHtml(data);
+        case 'json':
+            return JSON.stringify(data, null, 2);
+    }
+}
+
+// e.g. "javascript-closures-2025-01-31.md"
+export function exportFileName(session: StudySession, format: ExportFormat): string {
+    const date = new Date(session.startTime).toISOString().slice(0, 10);
+    return `${topicSlug(session.topic, 'session')}-${date}.${format}`;
+}
+
+// A topic as a file name part: "JavaScript Closures" -> "javascript-closures"
+export function topicSlug(topic: string, fallback: string): string {
+    return topic.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || fallback;
+}
+
+// Dates and times in the user's time zone
+function formatter(data: SessionExport, options: Intl.DateTimeFormatOptions): (timestamp: number) => string {
+    const format = new Intl.DateTimeFormat('en-US', { ...options, timeZone: data.timeZone });
+    return timestamp => format.format(timestamp);
+}
+
+// The session's details as label/value pairs, shared by both documents
+function sessionFacts(data: SessionExport): [string, string][] {
+    const { session } = data;
+    const dateTime = formatter(data, { dateStyle: 'medium', timeStyle: 'short' });
+    const time = formatter(data, { timeStyle: 'short' });
+
+    const status = session.status === 'completed'
+        ? END_REASON_LABELS[session.endReason ?? 'manual']
+        : session.status === 'paused' ? 'Paused' : 'In progress';
+
+    return [
+        ['Date', session.endTime ? `${dateTime(session.startTime)} – ${time(session.endTime)}` : dateTime(session.startTime)],
+        ['Difficulty', session.difficulty],
+        ['Tutor mode', session.mode ?? 'standard'],
+        ['Status', status],
+        ['Study time', `${Math.round(data.activeMinutes)} of ${session.duration} minutes`],
+        ['Messages', String(data.transcript.length)],
+        ['Quizzes taken', String(data.quizzes.length)],
+    ];
+}
+
+// The summary's lists, in the order they are shown
+function summaryLists(data: SessionExport): [string, string[]][] {
+    const summary = data.session.summary;
+    if (!summary) {
+        return [];
+    }
+
+    return [
+        ['Concepts covered', summary.conceptsCovered],
+        ['Strengths', summary.strengths],
+        ['Gaps', summary.gaps],
+        ['Next steps', summary.nextSteps],
+    ].filter((list): list is [string, string[]] => list[1].length > 0);
+}
+
+function speaker(role: string): string {
+    return role === 'user' ? 'You' : role === 'assistant' ? 'Tutor' : 'System';
+}
+
+function attemptHeading(quiz: ExportedQuiz, attempt: GradedQuizResult, index: number, dateTime: (timestamp: number) => string): string {
+    const label = quiz.attempts.length > 1 ? `Attempt ${index + 1}: ` : '';
+    return `${label}${attempt.score}/${attempt.maxScore} (${Math.round(attempt.percentage)}%), ${dateTime(attempt.completedAt)}`;
+}
+
+function renderMarkdown(data: SessionExport): string {
+    const { session } = data;
+    const dateTime = formatter(data, { dateStyle: 'medium', timeStyle: 'short' });
+    const time = formatter(data, { timeStyle: 'short' });
+    const lines: string[] = [`# ${session.topic}`, ''];
+
+    for (const [label, value] of sessionFacts(data)) {
+        lines.push(`- **${label}:** ${value}`);
+    }
+
+    if (session.summary) {
+        lines.push('', '## Summary', '', session.summary.overview);
+        for (const [title, items] of summaryLists(data)) {
+            lines.push('', `### ${title}`, '', ...items.map(item => `- ${item}`));
+        }
+    }
+
+    lines.push('', '## Transcript');
+    if (data.transcript.length === 0) {
+        lines.push('', '_No messages._');
+    }
+    for (const message of data.transcript) {
+        lines.push('', `### ${speaker(message.role)} · ${time(message.timestamp)}`, '', message.content);
+        if (message.interrupted) {
+            lines.push('', '_Response stopped_');
+        }
+    }
+
+    if (data.quizzes.length > 0) {
+        lines.push('', '## Quizzes');
+    }
+    data.quizzes.forEach((quiz, quizIndex) => {
+        lines.push('', `### Quiz ${quizIndex + 1}: ${quiz.topic} (${quiz.difficulty})`);
+        quiz.attempts.forEach((attempt, index) => {
+            lines.push('', `#### ${attemptHeading(quiz, attempt, index, dateTime)}`);
+            attempt.review.forEach((item, number) => {
+                lines.push(
+                    '',
+                    `${number + 1}. ${item.question}`,
+                    '',
+                    `    - Your answer: ${item.answer ?? '_(no answer)_'} ${item.isCorrect ? '✓' : '✗'} (${item.pointsEarned}/${item.points})`,
+                    `    - Correct answer: ${item.correctAnswer}`,
+                    `    - ${item.explanation}`
+                );
+                if (item.feedback) {
+                    lines.push(`    - Feedback: ${item.feedback}`);
+                }
+            });
+        });
+    });
+
+    lines.push('', '---', '', `_Exported ${dateTime(data.exportedAt)}_`, '');
+    return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+// Kept inline so the page prints and opens offline as a single file
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #111827; line-height: 1.55; max-width: 48rem; margin: 2rem auto; padding: 0 1.5rem; }
+h1 { font-size: 1.75rem; margin-bottom: 0.5rem; }
+h2 { font-size: 1.25rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; margin-top: 2rem; }
+h3 { font-size: 1.05rem; margin-bottom: 0.25rem; }
+dl.facts { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+dl.facts dt { color: #6b7280; }
+dl.facts dd { margin: 0; }
+.message { margin: 0.75rem 0; padding: 0.75rem 1rem; border-radius: 0.5rem; background: #f3f4f6; break-inside: avoid; }
+.message.user { background: #eef2ff; }
+.message .meta { font-size: 0.8rem; color: #6b7280; margin-bottom: 0.25rem; }
+.content { white-space: pre-wrap; overflow-wrap: anywhere; }
+.note { font-size: 0.8rem; color: #6b7280; font-style: italic; }
+ol.questions > li { margin-bottom: 0.75rem; break-inside: avoid; }
+.correct { color: #047857; }
+.incorrect { color: #b91c1c; }
+footer { margin-top: 2rem; font-size: 0.8rem; color: #6b7280; }
+@media print {
+    body { margin: 0; max-width: none; font-size: 11pt; }
+    h2 { break-after: avoid; }
+    .message { background: none; border: 1px solid #d1d5db; }
+}
+`;
+
+/**
+ * A standalone page with its own print styles. Message text is shown as
+ * written rather than rendered as Markdown, and everything is escaped, so
+ * nothing in the transcript can add markup to the page.
+ */
+function renderHtml(data: SessionExport): string {
+    const { session } = data;
+    const dateTime = formatter(data, { dateStyle: 'medium', timeStyle: 'short' });
+    const time = formatter(data, { timeStyle: 'short' });
+    const parts: string[] = [];
+
+    parts.push(`<h1>${escapeHtml(session.topic)}</h1>`);
+    parts.push('<dl class="facts">');
+    for (const [label, value] of sessionFacts(data)) {
+        parts.push(`<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`);
+    }
+    parts.push('</dl>');
+
+    if (session.summary) {
+        parts.push('<h2>Summary</h2>', `<p>${escapeHtml(session.summary.overview)}</p>`);
+        for (const [title, items] of summaryLists(data)) {
+            parts.push(`<h3>${escapeHtml(title)}</h3>`, '<ul>');
+            parts.push(...items.map(item => `<li>${escapeHtml(item)}</li>`));
+            parts.push('</ul>');
+        }
+    }
+
+    parts.push('<h2>Transcript</h2>');
+    if (data.transcript.length === 0) {
+        parts.push('<p class="note">No messages.</p>');
+    }
+    for (const message of data.transcript) {
+        parts.push(
+            `<div class="message ${message.role}">`,
+            `<div class="meta">${speaker(message.role)} · ${escapeHtml(time(message.timestamp))}</div>`,
+            `<div class="content">${escapeHtml(message.content)}</div>`,
+            message.interrupted ? '<div class="note">Response stopped</div>' : '',
+            '</div>'
+        );
+    }
+
+    if (data.quizzes.length > 0) {
+        parts.push('<h2>Quizzes</h2>');
+    }
+    data.quizzes.forEach((quiz, quizIndex) => {
+        parts.push(`<h3>Quiz ${quizIndex + 1}: ${escapeHtml(quiz.topic)} (${escapeHtml(quiz.difficulty)})</h3>`);
+        quiz.attempts.forEach((attempt, index) => {
+            parts.push(`<p><strong>${escapeHtml(attemptHeading(quiz, attempt, index, dateTime))}</strong></p>`, '<ol class="questions">');
+            for (const item of attempt.review) {
+                parts.push(
+                    '<li>',
+                    `<div class="content">${escapeHtml(item.question)}</div>`,
+                    '<ul>',
+                    `<li class="${item.isCorrect ? 'correct' : 'incorrect'}">Your answer: ${item.answer !== null ? escapeHtml(item.answer) : '<em>no answer</em>'} ${item.isCorrect ? '✓' : '✗'} (${item.pointsEarned}/${item.points})</li>`,
+                    `<li>Correct answer: ${escapeHtml(item.correctAnswer)}</li>`,
+                    `<li>${escapeHtml(item.explanation)}</li>`,
+                    item.feedback ? `<li>Feedback: ${escapeHtml(item.feedback)}</li>` : '',
+                    '</ul>',
+                    '</li>'
+                );
+            }
+            parts.push('</ol>');
+        });
+    });
+
+    parts.push(`<footer>Exported ${escapeHtml(dateTime(data.exportedAt))}</footer>`);
+
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="utf-8">',
+        '<meta name="viewport" content="width=device-width, initial-scale=1">',
+        `<title>${escapeHtml(session.topic)}</title>`,
+        `<style>${HTML_STYLE}</style>`,
+        '</head>',
+        '<body>',
+        ...parts.filter(Boolean),
+        '</body>',
+        '</html>',
+        '',
+    ].join('\n');
+}
@@ -0,0 +1,99 @@
+/**
+ * A minimal ZIP writer for export packages. Files are stored without
+ * compression, which every unzip tool and LMS importer reads, so no
+ * compression library is needed in the worker.
+ */
+
+export interface ZipEntry {
+    path: string; // forward slashes, e.g. "items/item-1.xml"
+    content: string; // written as UTF-8
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function createZip(entries: ZipEntry[], modified: Date): Uint8Array {
+    const encoder = new TextEncoder();
+    // MS-DOS date and time, as ZIP headers store them
+    const time = (modified.getUTCHours() << 11) | (modified.getUTCMinutes() << 5) | (modified.getUTCSeconds() >> 1);
+    const date = ((modified.getUTCFullYear() - 1980) << 9) | ((modified.getUTCMonth() + 1) << 5) | modified.getUTCDate();
+
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.path);
+        const data = encoder.encode(entry.content);
+        const crc = crc32(data);
+
+        const local = new Uint8Array(30 + name.length + data.length);
+        const header = new DataView(local.buffer);
+        header.setUint32(0, 0x04034b50, true); // local file header signature
+        header.setUint16(4, 20, true); // version needed to extract
+        header.setUint16(6, 0x0800, true); // names are UTF-8
+        header.setUint16(8, 0, true); // stored
+        header.setUint16(10, time, true);
+        header.setUint16(12, date, true);
+        header.setUint32(14, crc, true);
+        header.setUint32(18, data.length, true);
+        header.setUint32(22, data.length, true);
+        header.setUint16(26, name.length, true);
+        local.set(name, 30);
+        local.set(data, 30 + name.length);
+
+        const central = new Uint8Array(46 + name.length);
+        const record = new DataView(central.buffer);
+        record.setUint32(0, 0x02014b50, true); // central directory signature
+        record.setUint16(4, 20, true); // version made by
+        record.setUint16(6, 20, true);
+        record.setUint16(8, 0x0800, true);
+        record.setUint16(10, 0, true);
+        record.setUint16(12, time, true);
+        record.setUint16(14, date, true);
+        record.setUint32(16, crc, true);
+        record.setUint32(20, data.length, true);
+        record.setUint32(24, data.length, true);
+        record.setUint16(28, name.length, true);
+        record.setUint32(42, offset, true); // where the local header starts
+        central.set(name, 46);
+
+        localParts.push(local);
+        centralParts.push(central);
+        offset += local.length;
+    }
+
+    const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+    const end = new Uint8Array(22);
+    const trailer = new DataView(end.buffer);
+    trailer.setUint32(0, 0x06054b50, true); // end of central directory signature
+    trailer.setUint16(8, entries.length, true);
+    trailer.setUint16(10, entries.length, true);
+    trailer.setUint32(12, centralSize, true);
+    trailer.setUint32(16, offset, true);
+
+    const zip = new Uint8Array(offset + centralSize + end.length);
+    let position = 0;
+    for (const part of [...localParts, ...centralParts, end]) {
+        zip.set(part, position);
+        position += part.length;
+    }
+    return zip;
+}
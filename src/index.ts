@@ -1,10 +1,22 @@
-import { Env, StudySession, ChatMessage, Quiz, ProgressData } from './types';
+import { Account, AuthUser, CardExport, Env, StudySession, ChatMessage, ChatTurn, AIStreamChunk, Quiz, QuizAnswer, QuizResult, GradedQuizResult, ProgressData, SessionExport, TopicProgress, QuizGenerationStatus, QuizWorkflowOutput, TutorContext, TutorMode, UserSettings, WorkflowStatus, MAX_IMPORT_ROWS } from './types';
 import { AIService } from './llm/aiService';
+import { hashPassword, verifyPassword } from './auth/passwords';
+import { TokenClaims, signToken, verifyToken } from './auth/tokens';
+import { toPublicQuiz } from './quiz/redaction';
+import { validateGeneratedQuestions } from './quiz/questions';
+import { EXPORT_CONTENT_TYPES, exportFileName, renderExport } from './export/sessionExport';
+import { CARD_FILE_CONTENT_TYPES, cardFileName, parseCardFile, renderCardFile } from './export/cardFiles';
+import { QUIZ_EXPORT_CONTENT_TYPES, quizExportFileName, renderQuizExport } from './export/quizExport';
+import { apiContract, ApiResponse, DueReviewsResponse, FlashcardResponse, FlashcardsResponse, ImportFlashcardsResponse, RouteName, SearchResponse } from './shared/api';
+import { encodeSSE } from './shared/sse';
+import { FieldError, ValidationResult, Validator, validate } from './shared/validation';
 import { StudyState } from './durableObjects/StudyState';
+import { AccountState } from './durableObjects/AccountState';
+import { branchEnd, historyBefore, lastExchange } from './durableObjects/chatBranches';
 import { StudySessionWorkflow } from './workflows/studySession';
 import { QuizGenerationWorkflow } from './workflows/quizGenerator';
 
-export { StudyState, StudySessionWorkflow, QuizGenerationWorkflow };
+export { StudyState, AccountState, StudySessionWorkflow, QuizGenerationWorkflow };
 
 export default {
     async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
@@ -27,149 +39,394 @@ export default {
             // Initialize services
             const aiService = new AIService(env.AI);
 
+            if (path === '/' || path === '/health') {
+                return new Response(JSON.stringify({ status: 'healthy', service: 'AI Study Buddy' }), {
+                    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                });
+            } else if (path.startsWith('/api/auth')) {
+                return await handleAuth(request, env, corsHeaders);
+            }
+
+            // Every other route acts on the signed-in user's own state; the
+            // Durable Object is chosen by the token's subject and nothing else
+            const auth = await authenticate(request, env);
+            if (!auth) {
+                return errorResponse('Authentication required', 401, corsHeaders);
+            }
+            const userId = auth.sub;
+
             // Route handling
             if (path.startsWith('/api/chat')) {
-                return await handleChat(request, env, aiService, corsHeaders);
+                return await handleChat(request, env, aiService, corsHeaders, ctx, userId);
             } else if (path.startsWith('/api/study')) {
-                return await handleStudy(request, env, aiService, corsHeaders, ctx);
+                return await handleStudy(request, env, aiService, corsHeaders, ctx, userId);
             } else if (path.startsWith('/api/quiz')) {
-                return await handleQuiz(request, env, aiService, corsHeaders, ctx);
+                return await handleQuiz(request, env, aiService, corsHeaders, ctx, userId);
             } else if (path.startsWith('/api/progress')) {
-                return await handleProgress(request, env, corsHeaders);
-            } else if (path === '/' || path === '/health') {
-                return new Response(JSON.stringify({ status: 'healthy', service: 'AI Study Buddy' }), {
-                    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-                });
+                return await handleProgress(request, env, corsHeaders, userId);
+            } else if (path.startsWith('/api/review')) {
+                return await handleReview(request, env, corsHeaders, userId);
+            } else if (path.startsWith('/api/settings')) {
+                return await handleSettings(request, env, corsHeaders, userId);
+            } else if (path.startsWith('/api/flashcards')) {
+                return await handleFlashcards(request, env, corsHeaders, userId);
+            } else if (path.startsWith('/api/search')) {
+                return await handleSearch(request, env, corsHeaders, userId);
             }
 
             return new Response('Not Found', { status: 404, headers: corsHeaders });
         } catch (error) {
             console.error('Worker error:', error);
-            return new Response(JSON.stringify({ error: 'Internal Server Error' }), {
-                status: 500,
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
+            return errorResponse('Internal Server Error', 500, corsHeaders);
         }
     },
 };
 
-async function handleChat(
+async function handleAuth(
     request: Request,
     env: Env,
-    aiService: AIService,
     corsHeaders: Record<string, string>
 ): Promise<Response> {
     const url = new URL(request.url);
 
-    if (request.method === 'POST' && url.pathname === '/api/chat') {
-        const body = await request.json() as { message: string; sessionId: string; userId?: string };
-        const { message, sessionId, userId = 'default-user' } = body;
+    if (request.method === 'POST' && url.pathname === apiContract.signUp.path) {
+        const body = await readBody(request, apiContract.signUp.request);
+        if (!body.ok) {
+            return invalidRequest(body.errors, corsHeaders);
+        }
+
+        const email = normalizeEmail(body.value.email);
+        const account: Account = {
+            id: `user_${crypto.randomUUID()}`,
+            email,
+            passwordHash: await hashPassword(body.value.password),
+            createdAt: Date.now(),
+        };
 
-        // Validate input
-        if (!message || message.trim().length === 0) {
-            return new Response(JSON.stringify({ error: 'Message is required' }), {
-                status: 400,
+        const response = await accountStub(env, email).fetch('http://internal/account/create', {
+            method: 'POST',
+            body: JSON.stringify(account),
+        });
+
+        if (!response.ok) {
+            return new Response(response.body, {
+                status: response.status,
                 headers: { ...corsHeaders, 'Content-Type': 'application/json' },
             });
         }
 
-        if (message.length > 10000) {
-            return new Response(JSON.stringify({ error: 'Message too long' }), {
-                status: 400,
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
+        const user: AuthUser = { id: account.id, email };
+        const token = await signToken({ sub: user.id, email }, authSecret(env));
+
+        return json('signUp', { token, user }, corsHeaders, 201);
+    }
+
+    if (request.method === 'POST' && url.pathname === apiContract.signIn.path) {
+        const body = await readBody(request, apiContract.signIn.request);
+        if (!body.ok) {
+            return invalidRequest(body.errors, corsHeaders);
+        }
+
+        const email = normalizeEmail(body.value.email);
+        const response = await accountStub(env, email).fetch('http://internal/account/get');
+        const account = response.ok ? await response.json() as Account : null;
+
+        // Same answer for an unknown email and a wrong password
+        if (!account || !(await verifyPassword(body.value.password, account.passwordHash))) {
+            return errorResponse('Invalid email or password', 401, corsHeaders);
         }
 
+        const user: AuthUser = { id: account.id, email: account.email };
+        const token = await signToken({ sub: user.id, email: user.email }, authSecret(env));
+
+        return json('signIn', { token, user }, corsHeaders);
+    }
+
+    if (request.method === 'GET' && url.pathname === apiContract.currentUser.path) {
+        const auth = await authenticate(request, env);
+        if (!auth) {
+            return errorResponse('Authentication required', 401, corsHeaders);
+        }
+
+        return json('currentUser', { user: { id: auth.sub, email: auth.email } }, corsHeaders);
+    }
+
+    return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
+}
+
+async function handleChat(
+    request: Request,
+    env: Env,
+    aiService: AIService,
+    corsHeaders: Record<string, string>,
+    ctx: ExecutionContext,
+    userId: string
+): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (request.method === 'POST' && url.pathname === apiContract.chat.path) {
+        const body = await readBody(request, apiContract.chat.request);
+        if (!body.ok) {
+            return invalidRequest(body.errors, corsHeaders);
+        }
+
+        const { message, sessionId, mode, editOf } = body.value;
+
         // Get Durable Object for this user
         const id = env.STUDY_STATE.idFromName(userId);
         const stub = env.STUDY_STATE.get(id);
 
-        // Get conversation history
-        const history = await stub.fetch('http://internal/chat/history', {
-            method: 'POST',
-            body: JSON.stringify({ sessionId }),
-        }).then(r => r.json()) as ChatMessage[];
+        // Get conversation history and what the tutor should know about the session
+        const [branch, context] = await Promise.all([
+            loadChatHistory(stub, sessionId),
+            loadTutorContext(stub, sessionId, mode),
+        ]);
+
+        // An edited question is answered as if the conversation had stopped before it
+        const history = editOf === undefined ? branch : historyBefore(branch, editOf);
+        if (!history) {
+            return errorResponse('Message to edit not found', 404, corsHeaders);
+        }
 
         // Generate AI response
-        const response = await aiService.chat(message, history);
+        const response = await aiService.chat(message, history, context);
 
         // Save message to history
-        await stub.fetch('http://internal/chat/save', {
-            method: 'POST',
-            body: JSON.stringify({
-                sessionId,
-                userMessage: message,
-                aiResponse: response,
-            }),
+        await saveChatTurn(stub, {
+            sessionId,
+            userMessage: message,
+            aiResponse: response,
+            mode,
+            parentId: branchEnd(history),
         });
 
-        return new Response(JSON.stringify({ response, sessionId }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
+        // Condense the oldest turns once the history outgrows the prompt budget
+        ctx.waitUntil(compactChat(stub, sessionId));
+
+        return json('chat', { response, sessionId }, corsHeaders);
     }
 
-    if (request.method === 'GET' && url.pathname === '/api/chat/history') {
-        const sessionId = url.searchParams.get('sessionId');
-        const userId = url.searchParams.get('userId') || 'default-user';
+    if (request.method === 'POST' && url.pathname === apiContract.chatStream.path) {
+        const body = await readBody(request, apiContract.chatStream.request);
+        if (!body.ok) {
+            return invalidRequest(body.errors, corsHeaders);
+        }
+
+        const { message, sessionId, mode, editOf } = body.value;
+
+        const id = env.STUDY_STATE.idFromName(userId);
+        const stub = env.STUDY_STATE.get(id);
+
+        const [branch, context] = await Promise.all([
+            loadChatHistory(stub, sessionId),
+            loadTutorContext(stub, sessionId, mode),
+        ]);
+
+        const history = editOf === undefined ? branch : historyBefore(branch, editOf);
+        if (!history) {
+            return errorResponse('Message to edit not found', 404, corsHeaders);
+        }
 
+        return streamChatReply(
+            ctx,
+            aiService,
+            stub,
+            corsHeaders,
+            { message, history, context },
+            { sessionId, userMessage: message, mode, parentId: branchEnd(history) }
+        );
+    }
+
+    if (request.method === 'POST' && url.pathname === apiContract.chatRegenerate.path) {
+        const body = await readBody(request, apiContract.chatRegenerate.request);
+        if (!body.ok) {
+            return invalidRequest(body.errors, corsHeaders);
+        }
+
+        const { sessionId, mode } = body.value;
+
+        const id = env.STUDY_STATE.idFromName(userId);
+        const stub = env.STUDY_STATE.get(id);
+
+        const [branch, context] = await Promise.all([
+            loadChatHistory(stub, sessionId),
+            loadTutorContext(stub, sessionId, mode),
+        ]);
+
+        // The new reply answers the same question and sits beside the old one
+        const exchange = lastExchange(branch);
+        if (!exchange) {
+            return errorResponse('There is no reply to regenerate yet', 409, corsHeaders);
+        }
+
+        return streamChatReply(
+            ctx,
+            aiService,
+            stub,
+            corsHeaders,
+            { message: exchange.question.content, history: exchange.history, context },
+            { sessionId, mode, parentId: exchange.question.id }
+        );
+    }
+
+    if (request.method === 'GET' && url.pathname === apiContract.chatHistory.path) {
+        const sessionId = url.searchParams.get('sessionId');
         if (!sessionId) {
-            return new Response(JSON.stringify({ error: 'sessionId required' }), {
-                status: 400,
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
+            return invalidRequest([{ field: 'sessionId', message: 'sessionId required' }], corsHeaders);
         }
 
         const id = env.STUDY_STATE.idFromName(userId);
         const stub = env.STUDY_STATE.get(id);
 
-        const history = await stub.fetch('http://internal/chat/history', {
-            method: 'POST',
-            body: JSON.stringify({ sessionId }),
-        }).then(r => r.json());
+        const history = await loadChatHistory(stub, sessionId);
+
+        return json('chatHistory', { history }, corsHeaders);
+    }
+
+    if (request.method === 'POST' && url.pathname === apiContract.chatBranch.path) {
+        const body = await readBody(request, apiContract.chatBranch.request);
+        if (!body.ok) {
+            return invalidRequest(body.errors, corsHeaders);
+        }
+
+        const id = env.STUDY_STATE.idFromName(userId);
+        const stub = env.STUDY_STATE.get(id);
 
-        return new Response(JSON.stringify({ history }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        const response = await stub.fetch('http://internal/chat/branch', {
+            method: 'POST',
+            body: JSON.stringify(body.value),
         });
+
+        // No such message in the session
+        if (!response.ok) {
+            return new Response(response.body, {
+                status: response.status,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+        }
+
+        const history = await response.json() as ChatMessage[];
+
+        return json('chatBranch', { history }, corsHeaders);
     }
 
     return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
 }
 
+/**
+ * Stream the tutor's reply as Server-Sent Events and save the turn once it
+ * ends. Tokens are pumped in the background; a failed write means the client
+ * went away (e.g. pressed Stop), so whatever was generated is kept.
+ */
+function streamChatReply(
+    ctx: ExecutionContext,
+    aiService: AIService,
+    stub: DurableObjectStub,
+    corsHeaders: Record<string, string>,
+    prompt: { message: string; history: ChatMessage[]; context: TutorContext | null },
+    turn: Omit<ChatTurn, 'aiResponse' | 'interrupted'>
+): Response {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const encoder = new TextEncoder();
+    const send = (chunk: AIStreamChunk) => writer.write(encoder.encode(encodeSSE(chunk)));
+
+    ctx.waitUntil((async () => {
+        const tokens = aiService.chatStream(prompt.message, prompt.history, prompt.context);
+        let aiResponse = '';
+        let interrupted = false;
+
+        try {
+            for await (const content of tokens) {
+                aiResponse += content;
+                await send({ content, done: false });
+            }
+        } catch (error) {
+            interrupted = true;
+            await tokens.return(undefined);
+
+            if (aiResponse.length === 0) {
+                console.error('Chat stream failed:', error);
+                await send({ content: '', done: true, error: 'Failed to generate AI response' }).catch(() => undefined);
+            }
+            await writer.abort(error).catch(() => undefined);
+        }
+
+        await saveChatTurn(stub, { ...turn, aiResponse, interrupted });
+
+        // The last event waits for the save, so a client reloading the
+        // history on it sees the new messages
+        if (!interrupted) {
+            await send({ content: '', done: true })
+                .then(() => writer.close())
+                .catch(() => undefined);
+        }
+
+        await compactChat(stub, turn.sessionId);
+    })());
+
+    return new Response(readable, {
+        headers: {
+            ...corsHeaders,
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+        },
+    });
+}
+
+// The branch of the conversation the session is showing
+async function loadChatHistory(stub: DurableObjectStub, sessionId: string): Promise<ChatMessage[]> {
+    return await stub.fetch('http://internal/chat/history', {
+        method: 'POST',
+        body: JSON.stringify({ sessionId }),
+    }).then(r => r.json()) as ChatMessage[];
+}
+
+async function saveChatTurn(stub: DurableObjectStub, turn: ChatTurn): Promise<void> {
+    await stub.fetch('http://internal/chat/save', {
+        method: 'POST',
+        body: JSON.stringify(turn),
+    });
+}
+
+// A mode sent with the message takes over from the session's
+async function loadTutorContext(
+    stub: DurableObjectStub,
+    sessionId: string,
+    mode: TutorMode | undefined
+): Promise<TutorContext | null> {
+    const { context } = await stub.fetch('http://internal/chat/context', {
+        method: 'POST',
+        body: JSON.stringify({ sessionId }),
+    }).then(r => r.json()) as { context: TutorContext | null };
+
+    return context && mode ? { ...context, mode } : context;
+}
+
+async function compactChat(stub: DurableObjectStub, sessionId: string): Promise<void> {
+    await stub.fetch('http://internal/chat/compact', {
+        method: 'POST',
+        body: JSON.stringify({ sessionId }),
+    });
+}
+
 async function handleStudy(
     request: Request,
     env: Env,
     aiService: AIService,
     corsHeaders: Record<string, string>,
-    ctx: ExecutionContext
+    ctx: ExecutionContext,
+    userId: string
 ): Promise<Response> {
     const url = new URL(request.url);
 
-    if (request.method === 'POST' && url.pathname === '/api/study/start') {
-        const body = await request.json() as { topic: string; duration: number; difficulty: string; userId?: string };
-        const { topic, duration, difficulty, userId = 'default-user' } = body;
-
-        // Validate input
-        if (!topic || topic.trim().length === 0) {
-            return new Response(JSON.stringify({ error: 'Topic is required' }), {
-                status: 400,
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
+    if (request.method === 'POST' && url.pathname === apiContract.startStudy.path) {
+        const body = await readBody(request, apiContract.startStudy.request);
+        if (!body.ok) {
+            return invalidRequest(body.errors, corsHeaders);
         }
 
-        if (duration < 5 || duration > 120) {
-            return new Response(JSON.stringify({ error: 'Duration must be between 5 and 120 minutes' }), {
-                status: 400,
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
-        }
-
-        const validDifficulties = ['beginner', 'intermediate', 'advanced'];
-        if (!validDifficulties.includes(difficulty)) {
-            return new Response(JSON.stringify({ error: 'Invalid difficulty level' }), {
-                status: 400,
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
-        }
+        const { topic, duration, difficulty, mode } = body.value;
 
         // Create session ID
         const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -183,9 +440,10 @@ async function handleStudy(
             id: sessionId,
             topic,
             duration,
-            difficulty: difficulty as 'beginner' | 'intermediate' | 'advanced',
+            difficulty,
             startTime: Date.now(),
             status: 'active',
+            mode,
         };
 
         await stub.fetch('http://internal/session/create', {
@@ -199,53 +457,186 @@ async function handleStudy(
                 params: { sessionId, topic, duration, difficulty, userId },
             });
 
-            return new Response(JSON.stringify({ session, workflowId: workflow.id }), {
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
+            return json('startStudy', { session, workflowId: workflow.id }, corsHeaders);
         } catch (error) {
             console.error('Failed to start workflow:', error);
             // Return session even if workflow fails
-            return new Response(JSON.stringify({ session, workflowId: null }), {
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
+            return json('startStudy', { session, workflowId: null }, corsHeaders);
         }
     }
 
-    if (request.method === 'GET' && url.pathname === '/api/study/current') {
-        const userId = url.searchParams.get('userId') || 'default-user';
-
+    if (request.method === 'GET' && url.pathname === apiContract.currentSession.path) {
         const id = env.STUDY_STATE.idFromName(userId);
         const stub = env.STUDY_STATE.get(id);
 
-        const session = await stub.fetch('http://internal/session/current').then(r => r.json());
+        const { session } = await stub.fetch('http://internal/session/current')
+            .then(r => r.json()) as { session: StudySession | null };
+
+        return json('currentSession', { session }, corsHeaders);
+    }
+
+    if (request.method === 'POST' && url.pathname === apiContract.completeStudy.path) {
+        const body = await readBody(request, apiContract.completeStudy.request);
+        if (!body.ok) {
+            return invalidRequest(body.errors, corsHeaders);
+        }
+
+        const { sessionId } = body.value;
+
+        const id = env.STUDY_STATE.idFromName(userId);
+        const stub = env.STUDY_STATE.get(id);
 
-        return new Response(JSON.stringify({ session }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        await stub.fetch('http://internal/session/complete', {
+            method: 'POST',
+            body: JSON.stringify({ sessionId }),
         });
+
+        // Summarizing takes a model call; the client polls the session for it
+        ctx.waitUntil(stub.fetch('http://internal/session/summarize', {
+            method: 'POST',
+            body: JSON.stringify({ sessionId }),
+        }));
+
+        return json('completeStudy', { success: true }, corsHeaders);
     }
 
-    if (request.method === 'POST' && url.pathname === '/api/study/complete') {
-        const body = await request.json() as { sessionId: string; userId?: string };
-        const { sessionId, userId = 'default-user' } = body;
+    if (request.method === 'GET' && url.pathname === apiContract.listSessions.path) {
+        const query = readQuery(url, apiContract.listSessions.query);
+        if (!query.ok) {
+            return invalidRequest(query.errors, corsHeaders);
+        }
 
-        if (!sessionId) {
-            return new Response(JSON.stringify({ error: 'sessionId required' }), {
-                status: 400,
+        const id = env.STUDY_STATE.idFromName(userId);
+        const stub = env.STUDY_STATE.get(id);
+
+        const page = await stub.fetch('http://internal/session/list', {
+            method: 'POST',
+            body: JSON.stringify(query.value),
+        }).then(r => r.json()) as ApiResponse<'listSessions'>;
+
+        return json('listSessions', page, corsHeaders);
+    }
+
+    const exportMatch = url.pathname.match(/^\/api\/study\/sessions\/([^/]+)\/export$/);
+    if (request.method === 'GET' && exportMatch) {
+        const query = readQuery(url, apiContract.exportSession.query);
+        if (!query.ok) {
+            return invalidRequest(query.errors, corsHeaders);
+        }
+
+        const sessionId = decodeURIComponent(exportMatch[1]);
+        const format = query.value.format ?? 'md';
+
+        const id = env.STUDY_STATE.idFromName(userId);
+        const stub = env.STUDY_STATE.get(id);
+
+        const response = await stub.fetch('http://internal/session/export', {
+            method: 'POST',
+            body: JSON.stringify({ sessionId }),
+        });
+
+        if (!response.ok) {
+            return new Response(response.body, {
+                status: response.status,
                 headers: { ...corsHeaders, 'Content-Type': 'application/json' },
             });
         }
 
+        const data = await response.json() as SessionExport;
+
+        return new Response(renderExport(data, format), {
+            headers: {
+                ...corsHeaders,
+                'Content-Type': EXPORT_CONTENT_TYPES[format],
+                'Content-Disposition': `attachment; filename="${exportFileName(data.session, format)}"`,
+                // Lets the browser client read the file name
+                'Access-Control-Expose-Headers': 'Content-Disposition',
+            },
+        });
+    }
+
+    const sessionMatch = url.pathname.match(/^\/api\/study\/sessions\/([^/]+)$/);
+    if (request.method === 'GET' && sessionMatch) {
+        const sessionId = decodeURIComponent(sessionMatch[1]);
+
         const id = env.STUDY_STATE.idFromName(userId);
         const stub = env.STUDY_STATE.get(id);
 
-        await stub.fetch('http://internal/session/complete', {
+        const response = await stub.fetch('http://internal/session/get', {
             method: 'POST',
             body: JSON.stringify({ sessionId }),
         });
 
-        return new Response(JSON.stringify({ success: true }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        if (!response.ok) {
+            return new Response(response.body, {
+                status: response.status,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+        }
+
+        const { session } = await response.json() as { session: StudySession };
+
+        return json('studySession', { session }, corsHeaders);
+    }
+
+    if (
+        request.method === 'POST' &&
+        (url.pathname === apiContract.pauseStudy.path || url.pathname === apiContract.resumeStudy.path)
+    ) {
+        const route = url.pathname === apiContract.pauseStudy.path ? 'pauseStudy' : 'resumeStudy';
+
+        const body = await readBody(request, apiContract[route].request);
+        if (!body.ok) {
+            return invalidRequest(body.errors, corsHeaders);
+        }
+
+        const id = env.STUDY_STATE.idFromName(userId);
+        const stub = env.STUDY_STATE.get(id);
+
+        const action = route === 'pauseStudy' ? 'pause' : 'resume';
+        const response = await stub.fetch(`http://internal/session/${action}`, {
+            method: 'POST',
+            body: JSON.stringify({ sessionId: body.value.sessionId }),
+        });
+
+        // Unknown session or one that is already paused/resumed
+        if (!response.ok) {
+            return new Response(response.body, {
+                status: response.status,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+        }
+
+        const { session } = await response.json() as { session: StudySession };
+
+        return json(route, { session }, corsHeaders);
+    }
+
+    if (request.method === 'POST' && url.pathname === apiContract.extendStudy.path) {
+        const body = await readBody(request, apiContract.extendStudy.request);
+        if (!body.ok) {
+            return invalidRequest(body.errors, corsHeaders);
+        }
+
+        const id = env.STUDY_STATE.idFromName(userId);
+        const stub = env.STUDY_STATE.get(id);
+
+        const response = await stub.fetch('http://internal/session/extend', {
+            method: 'POST',
+            body: JSON.stringify(body.value),
         });
+
+        // Unknown session or one that has already ended
+        if (!response.ok) {
+            return new Response(response.body, {
+                status: response.status,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+        }
+
+        const { session } = await response.json() as { session: StudySession };
+
+        return json('extendStudy', { session }, corsHeaders);
     }
 
     return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
@@ -256,56 +647,35 @@ async function handleQuiz(
     env: Env,
     aiService: AIService,
     corsHeaders: Record<string, string>,
-    ctx: ExecutionContext
+    ctx: ExecutionContext,
+    userId: string
 ): Promise<Response> {
     const url = new URL(request.url);
 
-    if (request.method === 'POST' && url.pathname === '/api/quiz/generate') {
-        const body = await request.json() as { topic: string; questionCount: number; difficulty: string; userId?: string };
-        const { topic, questionCount, difficulty, userId = 'default-user' } = body;
-
-        // Validate input
-        if (!topic || topic.trim().length === 0) {
-            return new Response(JSON.stringify({ error: 'Topic is required' }), {
-                status: 400,
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
-        }
-
-        if (questionCount < 1 || questionCount > 20) {
-            return new Response(JSON.stringify({ error: 'Question count must be between 1 and 20' }), {
-                status: 400,
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
+    if (request.method === 'POST' && url.pathname === apiContract.generateQuiz.path) {
+        const body = await readBody(request, apiContract.generateQuiz.request);
+        if (!body.ok) {
+            return invalidRequest(body.errors, corsHeaders);
         }
 
-        const validDifficulties = ['beginner', 'intermediate', 'advanced'];
-        if (!validDifficulties.includes(difficulty)) {
-            return new Response(JSON.stringify({ error: 'Invalid difficulty level' }), {
-                status: 400,
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
-        }
+        const { topic, questionCount, difficulty, sessionId } = body.value;
 
         // Start quiz generation workflow
         try {
             const workflow = await env.QUIZ_WORKFLOW.create({
-                params: { topic, questionCount, difficulty, userId },
+                params: { topic, questionCount, difficulty, userId, sessionId },
             });
 
-            // In a real implementation, you would poll for workflow completion
-            // For now, return the workflow ID
-            return new Response(JSON.stringify({
-                workflowId: workflow.id,
-                message: 'Quiz generation started'
-            }), {
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
+            // The client polls /api/quiz/status/:workflowId for the finished quiz
+            return json('generateQuiz', { workflowId: workflow.id, status: 'running' }, corsHeaders);
         } catch (error) {
             console.error('Failed to start quiz workflow:', error);
 
             // Fallback: generate quiz directly
-            const questions = await aiService.generateQuiz(topic, questionCount, difficulty);
+            const questions = validateGeneratedQuestions(
+                await aiService.generateQuiz(topic, questionCount, difficulty),
+                questionCount
+            );
             const quizId = `quiz_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
             const id = env.STUDY_STATE.idFromName(userId);
@@ -314,98 +684,517 @@ async function handleQuiz(
             const quiz: Quiz = {
                 id: quizId,
                 topic,
-                difficulty: difficulty as 'beginner' | 'intermediate' | 'advanced',
+                difficulty,
                 questions,
                 createdAt: Date.now(),
+                sessionId,
             };
 
-            await stub.fetch('http://internal/quiz/save', {
+            const response = await stub.fetch('http://internal/quiz/save', {
                 method: 'POST',
                 body: JSON.stringify(quiz),
             });
 
-            return new Response(JSON.stringify({
-                quizId,
-                questions,
-                totalPoints: questions.reduce((sum, q) => sum + q.points, 0)
-            }), {
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
+            if (!response.ok) {
+                return new Response(response.body, {
+                    status: response.status,
+                    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                });
+            }
+
+            return json('generateQuiz', {
+                workflowId: null,
+                status: 'completed',
+                quiz: toPublicQuiz(quiz),
+            }, corsHeaders);
         }
     }
 
-    if (request.method === 'POST' && url.pathname === '/api/quiz/submit') {
-        const body = await request.json() as { quizId: string; answers: Record<string, string>; userId?: string };
-        const { quizId, answers, userId = 'default-user' } = body;
+    const statusMatch = url.pathname.match(/^\/api\/quiz\/status\/([^/]+)$/);
+    if (request.method === 'GET' && statusMatch) {
+        const workflowId = decodeURIComponent(statusMatch[1]);
+
+        let workflowStatus: WorkflowStatus;
+        try {
+            const instance = await env.QUIZ_WORKFLOW.get(workflowId);
+            workflowStatus = await instance.status();
+        } catch (error) {
+            console.error('Failed to load quiz workflow:', error);
+            return errorResponse('Quiz generation not found', 404, corsHeaders);
+        }
+
+        const result: QuizGenerationStatus = {
+            workflowId,
+            status: toQuizGenerationState(workflowStatus.status),
+        };
+
+        if (result.status === 'completed') {
+            const output = workflowStatus.output as QuizWorkflowOutput | undefined;
+
+            if (output && output.userId !== userId) {
+                return errorResponse('Quiz generation not found', 404, corsHeaders);
+            }
 
-        if (!quizId || !answers) {
-            return new Response(JSON.stringify({ error: 'quizId and answers required' }), {
-                status: 400,
+            if (!output?.quiz || output.quiz.questions.length === 0) {
+                result.status = 'failed';
+                result.error = 'Quiz generation finished without any questions';
+            } else {
+                const { quizId, topic, difficulty, questions, totalPoints } = output.quiz;
+                result.quiz = { quizId, topic, difficulty, questions, totalPoints };
+            }
+        } else if (result.status === 'failed') {
+            result.error = workflowStatus.error || 'Quiz generation failed';
+        }
+
+        return json('quizStatus', result, corsHeaders);
+    }
+
+    if (request.method === 'POST' && url.pathname === apiContract.submitQuiz.path) {
+        const body = await readBody(request, apiContract.submitQuiz.request);
+        if (!body.ok) {
+            return invalidRequest(body.errors, corsHeaders);
+        }
+
+        const { quizId, answers, timeSpent } = body.value;
+
+        const id = env.STUDY_STATE.idFromName(userId);
+        const stub = env.STUDY_STATE.get(id);
+
+        const answerList: QuizAnswer[] = answers.map(a => ({ questionId: a.questionId, answer: a.answer }));
+
+        const response = await stub.fetch('http://internal/quiz/submit', {
+            method: 'POST',
+            body: JSON.stringify({ quizId, answers: answerList, timeSpent }),
+        });
+
+        if (!response.ok) {
+            return new Response(response.body, {
+                status: response.status,
                 headers: { ...corsHeaders, 'Content-Type': 'application/json' },
             });
         }
 
+        const result = await response.json() as GradedQuizResult;
+
+        return json('submitQuiz', result, corsHeaders);
+    }
+
+    const exportMatch = url.pathname.match(/^\/api\/quiz\/([^/]+)\/export$/);
+    if (request.method === 'GET' && exportMatch) {
+        const query = readQuery(url, apiContract.exportQuiz.query);
+        if (!query.ok) {
+            return invalidRequest(query.errors, corsHeaders);
+        }
+
+        const quizId = decodeURIComponent(exportMatch[1]);
+        const format = query.value.format ?? 'qti';
+
         const id = env.STUDY_STATE.idFromName(userId);
         const stub = env.STUDY_STATE.get(id);
 
-        const result = await stub.fetch('http://internal/quiz/submit', {
+        const response = await stub.fetch('http://internal/quiz/get', {
             method: 'POST',
-            body: JSON.stringify({ quizId, answers }),
-        }).then(r => r.json());
+            body: JSON.stringify({ quizId }),
+        });
 
-        return new Response(JSON.stringify(result), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        if (!response.ok) {
+            return new Response(response.body, {
+                status: response.status,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+        }
+
+        const { quiz } = await response.json() as { quiz: Quiz };
+
+        return new Response(renderQuizExport(quiz, format), {
+            headers: {
+                ...corsHeaders,
+                'Content-Type': QUIZ_EXPORT_CONTENT_TYPES[format],
+                'Content-Disposition': `attachment; filename="${quizExportFileName(quiz, format)}"`,
+                'Access-Control-Expose-Headers': 'Content-Disposition',
+            },
         });
     }
 
-    if (request.method === 'GET' && url.pathname === '/api/quiz/results') {
-        const userId = url.searchParams.get('userId') || 'default-user';
-
+    if (request.method === 'GET' && url.pathname === apiContract.quizResults.path) {
         const id = env.STUDY_STATE.idFromName(userId);
         const stub = env.STUDY_STATE.get(id);
 
-        const results = await stub.fetch('http://internal/quiz/results').then(r => r.json());
+        const results = await stub.fetch('http://internal/quiz/results').then(r => r.json()) as QuizResult[];
 
-        return new Response(JSON.stringify({ results }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
+        return json('quizResults', { results }, corsHeaders);
     }
 
     return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
 }
 
+// Collapse the runtime's instance states into what the client needs to act on
+function toQuizGenerationState(status: WorkflowStatus['status']): QuizGenerationStatus['status'] {
+    switch (status) {
+        case 'complete':
+            return 'completed';
+        case 'errored':
+        case 'terminated':
+            return 'failed';
+        default:
+            return 'running';
+    }
+}
+
 async function handleProgress(
     request: Request,
     env: Env,
-    corsHeaders: Record<string, string>
+    corsHeaders: Record<string, string>,
+    userId: string
 ): Promise<Response> {
     const url = new URL(request.url);
 
-    if (request.method === 'GET' && url.pathname === '/api/progress') {
-        const userId = url.searchParams.get('userId') || 'default-user';
+    if (request.method === 'GET' && url.pathname === apiContract.progress.path) {
+        const id = env.STUDY_STATE.idFromName(userId);
+        const stub = env.STUDY_STATE.get(id);
+
+        const progress = await stub.fetch('http://internal/progress/overall').then(r => r.json()) as ProgressData;
+
+        return json('progress', { progress: { ...progress, userId } }, corsHeaders);
+    }
 
+    if (request.method === 'GET' && url.pathname === apiContract.topicProgress.path) {
         const id = env.STUDY_STATE.idFromName(userId);
         const stub = env.STUDY_STATE.get(id);
 
-        const progress = await stub.fetch('http://internal/progress/overall').then(r => r.json());
+        const topics = await stub.fetch('http://internal/progress/topics').then(r => r.json()) as TopicProgress[];
 
-        return new Response(JSON.stringify({ progress }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
+        return json('topicProgress', { topics }, corsHeaders);
     }
 
-    if (request.method === 'GET' && url.pathname === '/api/progress/topics') {
-        const userId = url.searchParams.get('userId') || 'default-user';
+    return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
+}
 
+async function handleReview(
+    request: Request,
+    env: Env,
+    corsHeaders: Record<string, string>,
+    userId: string
+): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (request.method === 'GET' && url.pathname === apiContract.dueReviews.path) {
         const id = env.STUDY_STATE.idFromName(userId);
         const stub = env.STUDY_STATE.get(id);
 
-        const topics = await stub.fetch('http://internal/progress/topics').then(r => r.json());
+        const { items } = await stub.fetch('http://internal/review/due').then(r => r.json()) as DueReviewsResponse;
+
+        return json('dueReviews', { items }, corsHeaders);
+    }
+
+    return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
+}
+
+async function handleFlashcards(
+    request: Request,
+    env: Env,
+    corsHeaders: Record<string, string>,
+    userId: string
+): Promise<Response> {
+    const url = new URL(request.url);
+    const id = env.STUDY_STATE.idFromName(userId);
+    const stub = env.STUDY_STATE.get(id);
+
+    if (request.method === 'GET' && url.pathname === apiContract.listFlashcards.path) {
+        const query = readQuery(url, apiContract.listFlashcards.query);
+        if (!query.ok) {
+            return invalidRequest(query.errors, corsHeaders);
+        }
+
+        const { cards } = await stub.fetch('http://internal/flashcards/list', {
+            method: 'POST',
+            body: JSON.stringify({ topic: query.value.topic, due: query.value.due === 'true' }),
+        }).then(r => r.json()) as FlashcardsResponse;
+
+        return json('listFlashcards', { cards }, corsHeaders);
+    }
+
+    if (request.method === 'POST' && url.pathname === apiContract.createFlashcard.path) {
+        const body = await readBody(request, apiContract.createFlashcard.request);
+        if (!body.ok) {
+            return invalidRequest(body.errors, corsHeaders);
+        }
+
+        const { card } = await stub.fetch('http://internal/flashcards/create', {
+            method: 'POST',
+            body: JSON.stringify(body.value),
+        }).then(r => r.json()) as FlashcardResponse;
 
-        return new Response(JSON.stringify({ topics }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        return json('createFlashcard', { card }, corsHeaders, 201);
+    }
+
+    if (request.method === 'POST' && url.pathname === apiContract.generateFlashcards.path) {
+        const body = await readBody(request, apiContract.generateFlashcards.request);
+        if (!body.ok) {
+            return invalidRequest(body.errors, corsHeaders);
+        }
+
+        const response = await stub.fetch('http://internal/flashcards/generate', {
+            method: 'POST',
+            body: JSON.stringify(body.value),
         });
+
+        // Unknown session, or the model's cards couldn't be read
+        if (!response.ok) {
+            return new Response(response.body, {
+                status: response.status,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+        }
+
+        const { cards } = await response.json() as FlashcardsResponse;
+
+        return json('generateFlashcards', { cards }, corsHeaders);
+    }
+
+    if (request.method === 'GET' && url.pathname === apiContract.exportFlashcards.path) {
+        const query = readQuery(url, apiContract.exportFlashcards.query);
+        if (!query.ok) {
+            return invalidRequest(query.errors, corsHeaders);
+        }
+
+        const { format = 'anki', include, topic } = query.value;
+        const data = await stub.fetch('http://internal/flashcards/export', {
+            method: 'POST',
+            body: JSON.stringify({ include, topic }),
+        }).then(r => r.json()) as CardExport;
+
+        return new Response(renderCardFile(data, format), {
+            headers: {
+                ...corsHeaders,
+                'Content-Type': CARD_FILE_CONTENT_TYPES[format],
+                'Content-Disposition': `attachment; filename="${cardFileName(format, Date.now())}"`,
+                // Lets the browser client read the file name
+                'Access-Control-Expose-Headers': 'Content-Disposition',
+            },
+        });
+    }
+
+    if (request.method === 'POST' && url.pathname === apiContract.importFlashcards.path) {
+        const body = await readBody(request, apiContract.importFlashcards.request);
+        if (!body.ok) {
+            return invalidRequest(body.errors, corsHeaders);
+        }
+
+        const { format, content, ...options } = body.value;
+        const parsed = parseCardFile(content, format);
+        if (!parsed.ok) {
+            return invalidRequest([{ field: 'content', message: parsed.error }], corsHeaders);
+        }
+        if (parsed.rows.length > MAX_IMPORT_ROWS) {
+            return invalidRequest([{ field: 'content', message: `A file can hold at most ${MAX_IMPORT_ROWS} cards` }], corsHeaders);
+        }
+
+        const result = await stub.fetch('http://internal/flashcards/import', {
+            method: 'POST',
+            body: JSON.stringify({ ...options, rows: parsed.rows }),
+        }).then(r => r.json()) as ImportFlashcardsResponse;
+
+        return json('importFlashcards', result, corsHeaders);
+    }
+
+    const reviewMatch = url.pathname.match(/^\/api\/flashcards\/([^/]+)\/review$/);
+    if (request.method === 'POST' && reviewMatch) {
+        const body = await readBody(request, apiContract.reviewFlashcard.request);
+        if (!body.ok) {
+            return invalidRequest(body.errors, corsHeaders);
+        }
+
+        const response = await stub.fetch('http://internal/flashcards/review', {
+            method: 'POST',
+            body: JSON.stringify({ cardId: decodeURIComponent(reviewMatch[1]), rating: body.value.rating }),
+        });
+
+        if (!response.ok) {
+            return new Response(response.body, {
+                status: response.status,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+        }
+
+        const { card } = await response.json() as FlashcardResponse;
+
+        return json('reviewFlashcard', { card }, corsHeaders);
+    }
+
+    const cardMatch = url.pathname.match(/^\/api\/flashcards\/([^/]+)$/);
+    if (cardMatch && (request.method === 'PUT' || request.method === 'DELETE')) {
+        const cardId = decodeURIComponent(cardMatch[1]);
+        let changes = {};
+
+        if (request.method === 'PUT') {
+            const body = await readBody(request, apiContract.updateFlashcard.request);
+            if (!body.ok) {
+                return invalidRequest(body.errors, corsHeaders);
+            }
+            changes = body.value;
+        }
+
+        const action = request.method === 'PUT' ? 'update' : 'delete';
+        const response = await stub.fetch(`http://internal/flashcards/${action}`, {
+            method: 'POST',
+            body: JSON.stringify({ ...changes, cardId }),
+        });
+
+        // No such card
+        if (!response.ok) {
+            return new Response(response.body, {
+                status: response.status,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+        }
+
+        if (action === 'delete') {
+            return json('deleteFlashcard', { success: true }, corsHeaders);
+        }
+
+        const { card } = await response.json() as FlashcardResponse;
+
+        return json('updateFlashcard', { card }, corsHeaders);
+    }
+
+    return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
+}
+
+async function handleSearch(
+    request: Request,
+    env: Env,
+    corsHeaders: Record<string, string>,
+    userId: string
+): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (request.method === 'GET' && url.pathname === apiContract.search.path) {
+        const query = readQuery(url, apiContract.search.query);
+        if (!query.ok) {
+            return invalidRequest(query.errors, corsHeaders);
+        }
+
+        const id = env.STUDY_STATE.idFromName(userId);
+        const stub = env.STUDY_STATE.get(id);
+
+        const { results } = await stub.fetch('http://internal/search', {
+            method: 'POST',
+            body: JSON.stringify(query.value),
+        }).then(r => r.json()) as SearchResponse;
+
+        return json('search', { results }, corsHeaders);
+    }
+
+    return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
+}
+
+async function handleSettings(
+    request: Request,
+    env: Env,
+    corsHeaders: Record<string, string>,
+    userId: string
+): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (request.method === 'GET' && url.pathname === apiContract.settings.path) {
+        const id = env.STUDY_STATE.idFromName(userId);
+        const stub = env.STUDY_STATE.get(id);
+
+        const settings = await stub.fetch('http://internal/settings').then(r => r.json()) as UserSettings;
+
+        return json('settings', { settings }, corsHeaders);
+    }
+
+    if (request.method === 'PUT' && url.pathname === apiContract.updateSettings.path) {
+        const body = await readBody(request, apiContract.updateSettings.request);
+        if (!body.ok) {
+            return invalidRequest(body.errors, corsHeaders);
+        }
+
+        const updates = body.value;
+
+        const id = env.STUDY_STATE.idFromName(userId);
+        const stub = env.STUDY_STATE.get(id);
+
+        const settings = await stub.fetch('http://internal/settings/update', {
+            method: 'POST',
+            body: JSON.stringify(updates),
+        }).then(r => r.json()) as UserSettings;
+
+        return json('updateSettings', { settings }, corsHeaders);
     }
 
     return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
-}
\ No newline at end of file
+}
+
+// Auth helpers
+
+function authSecret(env: Env): string {
+    if (!env.AUTH_SECRET) {
+        throw new Error('AUTH_SECRET is not configured');
+    }
+    return env.AUTH_SECRET;
+}
+
+// Claims of a valid `Authorization: Bearer <token>` header, or null
+async function authenticate(request: Request, env: Env): Promise<TokenClaims | null> {
+    const header = request.headers.get('Authorization') || '';
+    const match = header.match(/^Bearer\s+(\S+)$/i);
+
+    return match ? verifyToken(match[1], authSecret(env)) : null;
+}
+
+function normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+}
+
+function accountStub(env: Env, email: string): DurableObjectStub {
+    return env.ACCOUNTS.get(env.ACCOUNTS.idFromName(email));
+}
+
+// Response helpers
+
+// The route name ties the body to its response type in the shared contract
+function json<N extends RouteName>(
+    _route: N,
+    body: ApiResponse<N>,
+    corsHeaders: Record<string, string>,
+    status = 200
+): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+}
+
+function errorResponse(
+    error: string,
+    status: number,
+    corsHeaders: Record<string, string>,
+    fieldErrors?: FieldError[]
+): Response {
+    return new Response(JSON.stringify(fieldErrors ? { error, fieldErrors } : { error }), {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+}
+
+function invalidRequest(errors: FieldError[], corsHeaders: Record<string, string>): Response {
+    return errorResponse(errors[0]?.message || 'Invalid request', 400, corsHeaders, errors);
+}
+
+function readQuery<T>(url: URL, validator: Validator<T>): ValidationResult<T> {
+    return validate(validator, Object.fromEntries(url.searchParams));
+}
+
+async function readBody<T>(request: Request, validator: Validator<T>): Promise<ValidationResult<T>> {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return { ok: false, errors: [{ field: 'body', message: 'Request body must be valid JSON' }] };
+    }
+
+    return validate(validator, body);
+}
@@ -1,10 +1,16 @@
-import { ChatMessage, AIResponse, QuizQuestion } from '../types';
+import { ChatMessage, DraftFlashcard, QuizQuestion, SessionSummary, TutorContext } from '../types';
+import { readSSE } from '../shared/sse';
+import { buildChatMessages } from './tutorPrompt';
+import { tutorMode } from './tutorModes';
 
 // Workers AI response type
 interface AiTextGenerationOutput {
     response?: string;
 }
 
+// Characters of transcript sent for a session summary; keeps the prompt within the context window
+const SUMMARY_TRANSCRIPT_LIMIT = 12000;
+
 export class AIService {
     private ai: Ai;
 
@@ -13,36 +19,17 @@ export class AIService {
     }
 
     /**
-     * Generate a chat response with context
+     * Generate a chat response with context. The session context keeps the
+     * tutor on the session's topic and level.
      */
-    async chat(userMessage: string, history: ChatMessage[]): Promise<string> {
-        const systemPrompt = `You are an encouraging and patient AI study tutor. Your goals:
-- Help students understand complex topics through clear explanations
-- Break down difficult concepts into simpler parts
-- Use analogies and examples to illustrate ideas
-- Ask probing questions to check understanding
-- Adjust explanations based on student responses
-- Encourage critical thinking and curiosity
-- Stay focused on educational content
-- Be supportive and positive
-
-When explaining:
-- Start with high-level concepts, then dive deeper
-- Use concrete examples
-- Check for understanding regularly
-- Relate new concepts to familiar ones`;
-
-        const messages = [
-            { role: 'system', content: systemPrompt },
-            ...history.slice(-10), // Keep last 10 messages for context
-            { role: 'user', content: userMessage },
-        ];
+    async chat(userMessage: string, history: ChatMessage[], context: TutorContext | null = null): Promise<string> {
+        const messages = buildChatMessages(userMessage, history, context);
 
         try {
             const response = await this.ai.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', {
                 messages,
                 max_tokens: 1024,
-                temperature: 0.7,
+                temperature: tutorMode(context?.mode).temperature,
             }) as AiTextGenerationOutput;
 
             return response.response || 'I apologize, but I encountered an error. Please try again.';
@@ -52,6 +39,42 @@ When explaining:
         }
     }
 
+    /**
+     * Stream a chat response token by token. Yields text deltas as Workers AI
+     * produces them; cancelling the iterator cancels the upstream stream.
+     */
+    async *chatStream(
+        userMessage: string,
+        history: ChatMessage[],
+        context: TutorContext | null = null
+    ): AsyncGenerator<string> {
+        const messages = buildChatMessages(userMessage, history, context);
+
+        let stream: ReadableStream<Uint8Array>;
+        try {
+            stream = await this.ai.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', {
+                messages,
+                max_tokens: 1024,
+                temperature: tutorMode(context?.mode).temperature,
+                stream: true,
+            }) as ReadableStream<Uint8Array>;
+        } catch (error) {
+            console.error('AI chat stream error:', error);
+            throw new Error('Failed to generate AI response');
+        }
+
+        for await (const data of readSSE(stream)) {
+            if (data === '[DONE]') {
+                return;
+            }
+
+            const chunk = JSON.parse(data) as AiTextGenerationOutput;
+            if (chunk.response) {
+                yield chunk.response;
+            }
+        }
+    }
+
     /**
      * Generate an explanation for a topic
      */
@@ -148,6 +171,118 @@ Requirements:
         }
     }
 
+    /**
+     * Draft grading criteria for a short-answer question
+     */
+    async generateRubric(question: string, referenceAnswer: string, points: number): Promise<string[]> {
+        const prompt = `Write a grading rubric for this short-answer quiz question worth ${points} points.
+
+Question: ${question}
+Reference answer: ${referenceAnswer}
+
+Return ONLY valid JSON in this exact format (no other text):
+{
+  "criteria": ["Criterion 1", "Criterion 2", "Criterion 3"]
+}
+
+Requirements:
+- 2-5 criteria, each a single observable point a good answer makes
+- Criteria should accept equivalent wording, not just the reference phrasing`;
+
+        try {
+            const response = await this.ai.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', {
+                messages: [
+                    { role: 'system', content: 'You are an experienced examiner. Return only valid JSON.' },
+                    { role: 'user', content: prompt },
+                ],
+                max_tokens: 400,
+                temperature: 0.3,
+            }) as AiTextGenerationOutput;
+
+            const jsonMatch = (response.response || '').match(/\{[\s\S]*\}/);
+            if (!jsonMatch) {
+                throw new Error('No JSON found in response');
+            }
+
+            const parsed = JSON.parse(jsonMatch[0]);
+            if (!Array.isArray(parsed.criteria) || parsed.criteria.length === 0) {
+                throw new Error('Invalid rubric format');
+            }
+
+            return parsed.criteria.map((c: unknown) => String(c));
+        } catch (error) {
+            console.error('AI rubric error:', error);
+            return [
+                'Directly addresses the question',
+                'Consistent with the reference answer',
+                'Uses correct terminology',
+            ];
+        }
+    }
+
+    /**
+     * Score a short-answer response against the reference answer and rubric.
+     * Returns the fraction of credit earned (0-1); throws if the model's
+     * verdict can't be parsed so callers can fall back to another grader.
+     */
+    async gradeShortAnswer(
+        question: string,
+        referenceAnswer: string,
+        rubric: string[],
+        answer: string
+    ): Promise<{ score: number; feedback: string }> {
+        const prompt = `Grade a student's answer to a short-answer quiz question.
+
+Question: ${question}
+Reference answer: ${referenceAnswer}
+Rubric:
+${rubric.map((c, i) => `${i + 1}. ${c}`).join('\n')}
+
+Student answer: ${answer}
+
+Return ONLY valid JSON in this exact format (no other text):
+{
+  "score": 0.5,
+  "feedback": "One or two sentences explaining the grade to the student"
+}
+
+Requirements:
+- score is the fraction of the rubric satisfied, from 0 to 1
+- Award partial credit for partially correct answers
+- Accept equivalent wording and correct answers beyond the reference
+- Feedback should name what was missing, if anything`;
+
+        try {
+            const response = await this.ai.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', {
+                messages: [
+                    { role: 'system', content: 'You are a fair, consistent examiner. Return only valid JSON.' },
+                    { role: 'user', content: prompt },
+                ],
+                max_tokens: 300,
+                temperature: 0.1,
+            }) as AiTextGenerationOutput;
+
+            const jsonMatch = (response.response || '').match(/\{[\s\S]*\}/);
+            if (!jsonMatch) {
+                throw new Error('No JSON found in response');
+            }
+
+            const parsed = JSON.parse(jsonMatch[0]);
+            const score = Number(parsed.score);
+            if (!Number.isFinite(score)) {
+                throw new Error('Invalid grade format');
+            }
+
+            return {
+                score: Math.max(0, Math.min(1, score)),
+                feedback: typeof parsed.feedback === 'string' ? parsed.feedback : '',
+            };
+        } catch (error) {
+            console.error('AI grading error:', error);
+            throw new Error('Failed to grade answer');
+        }
+    }
+
     /**
      * Generate study recommendations
      */
@@ -179,44 +314,199 @@ Be actionable and specific.`;
     }
 
     /**
-     * Generate session summary
+     * Summarize a study session from its transcript. Long transcripts are cut
+     * from the front so the end of the conversation is always included.
      */
     async summarizeSession(
         topic: string,
         messages: ChatMessage[],
         duration: number
-    ): Promise<string> {
+    ): Promise<SessionSummary> {
         const conversationText = messages
-            .map(m => `${m.role}: ${m.content}`)
-            .join('\n');
+            .map(m => `${m.role === 'user' ? 'Student' : 'Tutor'}: ${m.content}`)
+            .join('\n')
+            .slice(-SUMMARY_TRANSCRIPT_LIMIT);
 
-        const prompt = `Summarize this ${duration}-minute study session on ${topic}:
+        const prompt = `Summarize this ${duration}-minute study session on ${topic} for the student.
 
+Transcript:
 ${conversationText}
 
-Provide a brief summary including:
-1. Main concepts covered
-2. Questions asked
-3. Areas of strength
-4. Areas needing more practice
-5. Suggested next steps
+Return ONLY valid JSON in this exact format (no other text):
+{
+  "overview": "Two or three sentences on what the session covered",
+  "conceptsCovered": ["Concept 1", "Concept 2"],
+  "strengths": ["What the student understood well"],
+  "gaps": ["What the student struggled with or didn't get to"],
+  "nextSteps": ["Concrete suggestion for the next session"]
+}
 
-Keep it concise (150-200 words).`;
+Requirements:
+- Base every point on the transcript; don't invent topics that weren't discussed
+- 1-5 short items per list; use an empty list when the transcript gives nothing to say
+- Address the student as "you"`;
 
         try {
             const response = await this.ai.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', {
                 messages: [
-                    { role: 'system', content: 'You are a session summarizer.' },
+                    { role: 'system', content: 'You are a study session summarizer. Return only valid JSON.' },
                     { role: 'user', content: prompt },
                 ],
-                max_tokens: 400,
-                temperature: 0.5,
+                max_tokens: 600,
+                temperature: 0.3,
             }) as AiTextGenerationOutput;
 
-            return response.response || 'Session completed successfully.';
+            const jsonMatch = (response.response || '').match(/\{[\s\S]*\}/);
+            if (!jsonMatch) {
+                throw new Error('No JSON found in response');
+            }
+
+            const parsed = JSON.parse(jsonMatch[0]);
+            if (typeof parsed.overview !== 'string' || parsed.overview.length === 0) {
+                throw new Error('Invalid summary format');
+            }
+
+            const list = (value: unknown) => (Array.isArray(value) ? value.map(item => String(item)) : []);
+
+            return {
+                overview: parsed.overview,
+                conceptsCovered: list(parsed.conceptsCovered),
+                strengths: list(parsed.strengths),
+                gaps: list(parsed.gaps),
+                nextSteps: list(parsed.nextSteps),
+            };
         } catch (error) {
             console.error('AI summary error:', error);
-            return `Studied ${topic} for ${duration} minutes. Continue practicing to reinforce learning.`;
+            return {
+                overview: `You studied ${topic} for ${duration} minutes.`,
+                conceptsCovered: [],
+                strengths: [],
+                gaps: [],
+                nextSteps: [`Continue practicing ${topic} to reinforce what you learned.`],
+            };
+        }
+    }
+
+    /**
+     * Fold older chat turns into the running summary of a conversation. The
+     * summary is for the tutor, not the student, and replaces `previous`.
+     */
+    async summarizeConversation(topic: string, previous: string | null, messages: ChatMessage[]): Promise<string> {
+        const conversationText = messages
+            .map(m => `${m.role === 'user' ? 'Student' : 'Tutor'}: ${m.content}`)
+            .join('\n')
+            .slice(-SUMMARY_TRANSCRIPT_LIMIT);
+
+        const prompt = `You keep notes on a tutoring conversation about ${topic} so the tutor can remember it.
+
+${previous ? `Notes so far:\n${previous}\n\n` : ''}Newer part of the conversation:
+${conversationText}
+
+Rewrite the notes to cover everything above in at most 200 words:
+- What was explained, with any examples or analogies the tutor used
+- Questions the student asked and where they struggled
+- Anything the tutor promised to come back to
+Return only the notes.`;
+
+        try {
+            const response = await this.ai.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', {
+                messages: [
+                    { role: 'system', content: 'You summarize tutoring conversations concisely and accurately.' },
+                    { role: 'user', content: prompt },
+                ],
+                max_tokens: 400,
+                temperature: 0.3,
+            }) as AiTextGenerationOutput;
+
+            const notes = (response.response || '').trim();
+            if (!notes) {
+                throw new Error('Empty conversation summary');
+            }
+
+            return notes;
+        } catch (error) {
+            console.error('AI conversation summary error:', error);
+            throw new Error('Failed to summarize conversation');
+        }
+    }
+
+    /**
+     * Draft flashcards from the student's material: chat messages, or quiz
+     * questions they got wrong. Each card names the excerpt it was drawn
+     * from. Throws if the model's cards can't be parsed.
+     */
+    async extractFlashcards(
+        topic: string,
+        kind: 'transcript' | 'mistakes',
+        excerpts: string[],
+        maxCards: number
+    ): Promise<DraftFlashcard[]> {
+        // Keep the newest excerpts that fit, numbered by their place in `excerpts`
+        let first = excerpts.length;
+        for (let length = 0; first > 0 && length + excerpts[first - 1].length <= SUMMARY_TRANSCRIPT_LIMIT; first--) {
+            length += excerpts[first - 1].length;
+        }
+        const material = excerpts
+            .slice(first)
+            .map((text, index) => `[${first + index + 1}] ${text}`)
+            .join('\n\n');
+
+        const task = kind === 'transcript'
+            ? `Below is a tutoring conversation about ${topic}. Turn the facts, definitions and ideas the tutor explained into flashcards.`
+            : `Below are quiz questions on ${topic} that the student answered wrong. Write flashcards that would fix each misunderstanding.`;
+
+        const prompt = `${task}
+
+${material}
+
+Return ONLY valid JSON in this exact format (no other text):
+{
+  "cards": [
+    { "front": "A specific question or prompt", "back": "The answer", "source": 1 }
+  ]
+}
+
+Requirements:
+- At most ${maxCards} cards, none repeating another
+- One idea per card; the back is one or two sentences
+- Only use what the excerpts say
+- "source" is the number of the excerpt the card is drawn from`;
+
+        try {
+            const response = await this.ai.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', {
+                messages: [
+                    { role: 'system', content: 'You write concise, accurate study flashcards. Return only valid JSON.' },
+                    { role: 'user', content: prompt },
+                ],
+                max_tokens: 1500,
+                temperature: 0.4,
+            }) as AiTextGenerationOutput;
+
+            const jsonMatch = (response.response || '').match(/\{[\s\S]*\}/);
+            if (!jsonMatch) {
+                throw new Error('No JSON found in response');
+            }
+
+            const parsed = JSON.parse(jsonMatch[0]);
+            if (!Array.isArray(parsed.cards)) {
+                throw new Error('Invalid flashcard format');
+            }
+
+            return parsed.cards
+                .filter((card: { front?: unknown; back?: unknown; source?: unknown }) =>
+                    typeof card.front === 'string' && card.front.trim() &&
+                    typeof card.back === 'string' && card.back.trim() &&
+                    Number.isInteger(card.source) && Number(card.source) > first && Number(card.source) <= excerpts.length
+                )
+                .slice(0, maxCards)
+                .map((card: { front: string; back: string; source: number }) => ({
+                    front: card.front.trim(),
+                    back: card.back.trim(),
+                    excerpt: card.source - 1,
+                }));
+        } catch (error) {
+            console.error('AI flashcard error:', error);
+            throw new Error('Failed to generate flashcards');
         }
     }
 
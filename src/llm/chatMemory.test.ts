@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, ChatSummary } from '../types';
+import {
+    CHAT_HISTORY_TOKEN_BUDGET,
+    applicableSummary,
+    contextTurns,
+    estimateMessageTokens,
+    estimateTokens,
+    planSummaryFold,
+    recentTurns,
+} from './chatMemory';
+
+// A stored message of exactly `tokens` estimated tokens (4 of them overhead)
+function message(id: number, tokens = 1000): ChatMessage {
+    return {
+        id,
+        role: id % 2 === 1 ? 'user' : 'assistant',
+        content: 'x'.repeat((tokens - 4) * 4),
+        timestamp: id * 1000,
+    };
+}
+
+function chat(count: number, tokens = 1000): ChatMessage[] {
+    return Array.from({ length: count }, (_, index) => message(index + 1, tokens));
+}
+
+function summary(messageCount: number, lastMessageId: number | null): ChatSummary {
+    return { content: 'Earlier turns', messageCount, lastMessageId, updatedAt: 1 };
+}
+
+const ids = (messages: ChatMessage[]) => messages.map(m => m.id);
+
+describe('estimateTokens', () => {
+    it('counts about four characters per token, rounding up', () => {
+        expect(estimateTokens('')).toBe(0);
+        expect(estimateTokens('abcd')).toBe(1);
+        expect(estimateTokens('abcde')).toBe(2);
+        expect(estimateMessageTokens(message(1, 250))).toBe(250);
+    });
+});
+
+describe('recentTurns', () => {
+    it('keeps the newest messages that fit the budget, oldest first', () => {
+        expect(ids(recentTurns(chat(5), 3000))).toEqual([3, 4, 5]);
+        expect(ids(recentTurns(chat(5), 2999))).toEqual([4, 5]);
+        expect(ids(recentTurns(chat(2), 3000))).toEqual([1, 2]);
+    });
+
+    it('keeps the latest message even when it alone is over budget', () => {
+        const messages = [message(1, 100), message(2, 5000)];
+
+        expect(ids(recentTurns(messages, 3000))).toEqual([2]);
+        expect(ids(recentTurns(messages, 0))).toEqual([2]);
+        expect(recentTurns([], 3000)).toEqual([]);
+    });
+});
+
+describe('applicableSummary', () => {
+    const messages = chat(4);
+
+    it('applies a summary that ends at the message it recorded', () => {
+        const covering = summary(2, 2);
+
+        expect(applicableSummary(messages, covering)).toBe(covering);
+        expect(ids(contextTurns(messages, covering))).toEqual([3, 4]);
+    });
+
+    it('rejects a summary from another branch', () => {
+        // Same length of history, but message 2 was edited into message 7
+        const edited = [messages[0], message(7), message(8)];
+
+        expect(applicableSummary(edited, summary(2, 2))).toBeNull();
+        expect(ids(contextTurns(edited, summary(2, 2)))).toEqual([1, 7, 8]);
+    });
+
+    it('rejects a summary longer than the branch or without a last message', () => {
+        expect(applicableSummary(messages, summary(6, 6))).toBeNull();
+        expect(applicableSummary(messages, summary(2, null))).toBeNull();
+        expect(applicableSummary(messages, null)).toBeNull();
+    });
+});
+
+describe('planSummaryFold', () => {
+    it('folds nothing while the unsummarized turns fit the budget', () => {
+        const atBudget = chat(3);
+        expect(atBudget.reduce((total, m) => total + estimateMessageTokens(m), 0)).toBe(CHAT_HISTORY_TOKEN_BUDGET);
+
+        expect(planSummaryFold(atBudget, null)).toBeNull();
+    });
+
+    it('folds all but the target\'s worth of turns once over the budget', () => {
+        const messages = chat(4);
+
+        const plan = planSummaryFold(messages, null);
+
+        expect(plan).not.toBeNull();
+        expect(ids(plan!.messages)).toEqual([1, 2, 3]);
+        expect(plan!.messageCount).toBe(3);
+        expect(plan!.previous).toBeNull();
+    });
+
+    it('counts only the turns the summary doesn\'t cover', () => {
+        const messages = chat(5);
+
+        // Three of the five are unsummarized, which fits the budget
+        expect(planSummaryFold(messages, summary(2, 2))).toBeNull();
+    });
+
+    it('counts the summary\'s messages in messageCount after a fold', () => {
+        const messages = chat(6);
+        const previous = summary(2, 2);
+
+        const plan = planSummaryFold(messages, previous);
+
+        expect(ids(plan!.messages)).toEqual([3, 4, 5]);
+        expect(plan!.messageCount).toBe(5);
+        expect(plan!.previous).toBe(previous);
+        // The summary that results covers everything but the last message
+        expect(ids(contextTurns(messages, summary(plan!.messageCount, 5)))).toEqual([6]);
+    });
+
+    it('starts over from the branch when the summary belongs to another one', () => {
+        const messages = chat(4);
+
+        const plan = planSummaryFold(messages, summary(2, 99));
+
+        expect(ids(plan!.messages)).toEqual([1, 2, 3]);
+        expect(plan!.messageCount).toBe(3);
+        expect(plan!.previous).toBeNull();
+    });
+
+    it('folds nothing when the only pending turn is over budget', () => {
+        expect(planSummaryFold([message(1, 5000)], null)).toBeNull();
+    });
+});
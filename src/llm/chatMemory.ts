@@ -0,0 +1,96 @@
+/**
+ * Long-conversation memory for tutor chat. The oldest turns of a session are
+ * condensed into a running summary; the newest are sent verbatim within a
+ * token budget.
+ */
+import { ChatMessage, ChatSummary } from '../types';
+
+// Tokens of verbatim history sent with each message
+export const CHAT_HISTORY_TOKEN_BUDGET = 3000;
+
+// Once the unsummarized turns outgrow the budget, fold all but this many
+// tokens' worth, so summaries are written in batches rather than every turn
+export const CHAT_HISTORY_TOKEN_TARGET = 1500;
+
+// Per-message overhead of the chat template (role markers, separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Rough token count for Llama's tokenizer: about four characters of English
+ * per token. Errs high for short words, which keeps the budget safe.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+export function estimateMessageTokens(message: ChatMessage): number {
+    return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * The newest messages that fit in `budget` tokens, oldest first. The latest
+ * message is always kept, however long.
+ */
+export function recentTurns(messages: ChatMessage[], budget: number): ChatMessage[] {
+    let used = 0;
+    let start = messages.length;
+
+    while (start > 0) {
+        const tokens = estimateMessageTokens(messages[start - 1]);
+        if (start < messages.length && used + tokens > budget) {
+            break;
+        }
+        used += tokens;
+        start--;
+    }
+
+    return messages.slice(start);
+}
+
+/**
+ * The summary if it covers the start of these messages. One written on
+ * another branch (before a question was edited, or for a variant the student
+ * has switched away from) doesn't.
+ */
+export function applicableSummary(messages: ChatMessage[], summary: ChatSummary | null): ChatSummary | null {
+    const last = summary ? messages[summary.messageCount - 1] : undefined;
+    return summary && last?.id !== undefined && last.id === summary.lastMessageId ? summary : null;
+}
+
+// Messages the running summary doesn't cover yet
+export function unsummarized(messages: ChatMessage[], summary: ChatSummary | null): ChatMessage[] {
+    return messages.slice(applicableSummary(messages, summary)?.messageCount ?? 0);
+}
+
+/**
+ * The verbatim history to send: what the summary doesn't cover, trimmed to
+ * the budget in case folding has fallen behind.
+ */
+export function contextTurns(messages: ChatMessage[], summary: ChatSummary | null): ChatMessage[] {
+    return recentTurns(unsummarized(messages, summary), CHAT_HISTORY_TOKEN_BUDGET);
+}
+
+/**
+ * Which messages to fold into the summary next, or null while the
+ * unsummarized turns still fit the budget. `messageCount` is how many
+ * messages the summary covers once they are folded, and `previous` the
+ * summary they are folded into.
+ */
+export function planSummaryFold(
+    messages: ChatMessage[],
+    summary: ChatSummary | null
+): { messages: ChatMessage[]; messageCount: number; previous: ChatSummary | null } | null {
+    const pending = unsummarized(messages, summary);
+    const pendingTokens = pending.reduce((total, message) => total + estimateMessageTokens(message), 0);
+
+    if (pendingTokens <= CHAT_HISTORY_TOKEN_BUDGET) {
+        return null;
+    }
+
+    const keep = recentTurns(pending, CHAT_HISTORY_TOKEN_TARGET).length;
+    const fold = pending.slice(0, pending.length - keep);
+
+    return fold.length > 0
+        ? { messages: fold, messageCount: messages.length - keep, previous: applicableSummary(messages, summary) }
+        : null;
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, TutorContext } from '../types';
+import { buildChatMessages, buildTutorSystemPrompt } from './tutorPrompt';
+import { TUTOR_MODE_REGISTRY } from './tutorModes';
+
+const context: TutorContext = {
+    topic: 'Closures',
+    difficulty: 'intermediate',
+    mode: 'standard',
+    masteryLevel: 0,
+    learningPath: null,
+    missedQuestions: [],
+    memory: null,
+};
+
+function message(id: number, role: ChatMessage['role'], content: string): ChatMessage {
+    return { id, role, content, timestamp: id * 1000 };
+}
+
+describe('buildTutorSystemPrompt', () => {
+    it('is the general tutor in standard mode without a context', () => {
+        const prompt = buildTutorSystemPrompt(null);
+
+        expect(prompt).toContain('You are an encouraging and patient AI study tutor.');
+        expect(prompt).toContain(TUTOR_MODE_REGISTRY.standard.instructions);
+        expect(prompt).toContain('Format replies in Markdown.');
+        expect(prompt).not.toContain('This study session:');
+        expect(prompt).not.toContain('Keep the conversation on');
+    });
+
+    it('uses the session\'s tutor mode', () => {
+        const prompt = buildTutorSystemPrompt({ ...context, mode: 'socratic' });
+
+        expect(prompt).toContain(TUTOR_MODE_REGISTRY.socratic.instructions);
+        expect(prompt).not.toContain(TUTOR_MODE_REGISTRY.standard.instructions);
+    });
+
+    it('describes the topic, level and prior mastery', () => {
+        const prompt = buildTutorSystemPrompt({ ...context, masteryLevel: 42.6 });
+
+        expect(prompt).toContain([
+            'This study session:',
+            '- Topic: Closures',
+            '- Level: intermediate',
+            '- Prior mastery: 43/100 (still building the fundamentals)',
+        ].join('\n'));
+    });
+
+    it('pitches the session by mastery band', () => {
+        const band = (masteryLevel: number) =>
+            buildTutorSystemPrompt({ ...context, masteryLevel }).match(/- Prior mastery: \d+\/100 \((.+)\)/)?.[1];
+
+        expect(band(0)).toBe('new to this topic');
+        expect(band(1)).toBe('still building the fundamentals');
+        expect(band(49)).toBe('still building the fundamentals');
+        expect(band(50)).toBe('comfortable with the basics');
+        expect(band(79)).toBe('comfortable with the basics');
+        expect(band(80)).toBe('strong on this topic');
+        expect(band(100)).toBe('strong on this topic');
+    });
+
+    it('includes the learning path\'s approach and focus areas', () => {
+        const prompt = buildTutorSystemPrompt({
+            ...context,
+            learningPath: { approach: 'reinforcement', focusAreas: ['Practice problems', 'Common misconceptions'] },
+        });
+
+        expect(prompt).toContain('- Approach: reinforcement');
+        expect(prompt).toContain('Focus areas for this session:\n- Practice problems\n- Common misconceptions');
+    });
+
+    it('leaves out the approach and focus areas until the learning path is planned', () => {
+        const planned = buildTutorSystemPrompt({ ...context, learningPath: { approach: 'advanced', focusAreas: [] } });
+        const unplanned = buildTutorSystemPrompt(context);
+
+        expect(planned).toContain('- Approach: advanced');
+        expect(planned).not.toContain('Focus areas');
+        expect(unplanned).not.toContain('- Approach:');
+        expect(unplanned).not.toContain('Focus areas');
+    });
+
+    it('lists the questions the student recently missed', () => {
+        const prompt = buildTutorSystemPrompt({
+            ...context,
+            missedQuestions: [
+                { question: 'What does a closure capture?', studentAnswer: 'Its arguments', correctAnswer: 'Its lexical scope' },
+                { question: 'Are closures created per call?', studentAnswer: 'No', correctAnswer: 'Yes' },
+            ],
+        });
+
+        expect(prompt).toContain([
+            'Quiz questions the student recently got wrong; revisit these ideas when they come up:',
+            '- What does a closure capture? (answered "Its arguments", correct: "Its lexical scope")',
+            '- Are closures created per call? (answered "No", correct: "Yes")',
+        ].join('\n'));
+        expect(buildTutorSystemPrompt(context)).not.toContain('recently got wrong');
+    });
+
+    it('adds the conversation summary as notes on the earlier conversation', () => {
+        const prompt = buildTutorSystemPrompt({
+            ...context,
+            memory: { content: 'The student confused closures with callbacks.', messageCount: 4, lastMessageId: 4, updatedAt: 1 },
+        });
+
+        expect(prompt).toContain(
+            'Notes on the earlier part of this conversation, which is no longer shown:\nThe student confused closures with callbacks.'
+        );
+        expect(buildTutorSystemPrompt(context)).not.toContain('Notes on the earlier part');
+    });
+
+    it('ends by keeping the student on the session\'s topic', () => {
+        const prompt = buildTutorSystemPrompt(context);
+
+        expect(prompt.endsWith(
+            'Keep the conversation on Closures. If the student asks about something unrelated, say briefly that it is outside this session and steer back to Closures.'
+        )).toBe(true);
+    });
+});
+
+describe('buildChatMessages', () => {
+    const history = [
+        message(1, 'user', 'What is a closure?'),
+        message(2, 'assistant', 'A function with its scope.'),
+        message(3, 'user', 'Show me one.'),
+        message(4, 'assistant', 'Here is an example.'),
+    ];
+
+    it('sends the system prompt, the history and then the new message', () => {
+        const messages = buildChatMessages('Why does that work?', history, context);
+
+        expect(messages).toEqual([
+            { role: 'system', content: buildTutorSystemPrompt(context) },
+            { role: 'user', content: 'What is a closure?' },
+            { role: 'assistant', content: 'A function with its scope.' },
+            { role: 'user', content: 'Show me one.' },
+            { role: 'assistant', content: 'Here is an example.' },
+            { role: 'user', content: 'Why does that work?' },
+        ]);
+    });
+
+    it('replaces the turns a summary covers with the summary', () => {
+        const memory = { content: 'Covered the definition.', messageCount: 2, lastMessageId: 2, updatedAt: 1 };
+
+        const messages = buildChatMessages('Why does that work?', history, { ...context, memory });
+
+        expect(messages[0].content).toContain('Covered the definition.');
+        expect(messages.slice(1).map(m => m.content)).toEqual(['Show me one.', 'Here is an example.', 'Why does that work?']);
+    });
+
+    it('ignores a summary written for another branch', () => {
+        const memory = { content: 'Covered another branch.', messageCount: 2, lastMessageId: 99, updatedAt: 1 };
+
+        const messages = buildChatMessages('Why does that work?', history, { ...context, memory });
+
+        expect(messages[0].content).not.toContain('Covered another branch.');
+        expect(messages).toHaveLength(history.length + 2);
+    });
+});
@@ -0,0 +1,89 @@
+/**
+ * System prompt and message list for tutor chat. Kept free of model calls so
+ * the prompt can be checked on its own.
+ */
+import { ChatMessage, TutorContext } from '../types';
+import { applicableSummary, contextTurns } from './chatMemory';
+import { tutorMode } from './tutorModes';
+
+const PERSONA = 'You are an encouraging and patient AI study tutor.';
+
+// Replies are rendered as Markdown with KaTeX math and highlighted code
+const FORMATTING = 'Format replies in Markdown. Put code in fenced blocks tagged with the language, and write math as LaTeX between $ signs (inline) or $$ signs (on their own lines).';
+
+// How to pitch the session given what the student already knows
+function describeMastery(masteryLevel: number): string {
+    if (masteryLevel === 0) return 'new to this topic';
+    if (masteryLevel < 50) return 'still building the fundamentals';
+    if (masteryLevel < 80) return 'comfortable with the basics';
+    return 'strong on this topic';
+}
+
+/**
+ * The tutor's system prompt: persona, the session's tutor mode, then what is
+ * known about the session. Without a context (an unknown session) it is the
+ * general tutor in standard mode.
+ */
+export function buildTutorSystemPrompt(context: TutorContext | null): string {
+    const base = `${PERSONA} ${tutorMode(context?.mode).instructions}\n\n${FORMATTING}`;
+
+    if (!context) {
+        return base;
+    }
+
+    const { topic, difficulty, masteryLevel, learningPath, missedQuestions } = context;
+    const sections = [
+        base,
+        [
+            'This study session:',
+            `- Topic: ${topic}`,
+            `- Level: ${difficulty}`,
+            `- Prior mastery: ${Math.round(masteryLevel)}/100 (${describeMastery(masteryLevel)})`,
+            ...(learningPath ? [`- Approach: ${learningPath.approach}`] : []),
+        ].join('\n'),
+    ];
+
+    if (learningPath && learningPath.focusAreas.length > 0) {
+        sections.push([
+            'Focus areas for this session:',
+            ...learningPath.focusAreas.map(area => `- ${area}`),
+        ].join('\n'));
+    }
+
+    if (missedQuestions.length > 0) {
+        sections.push([
+            'Quiz questions the student recently got wrong; revisit these ideas when they come up:',
+            ...missedQuestions.map(missed =>
+                `- ${missed.question} (answered "${missed.studentAnswer}", correct: "${missed.correctAnswer}")`
+            ),
+        ].join('\n'));
+    }
+
+    if (context.memory) {
+        sections.push(`Notes on the earlier part of this conversation, which is no longer shown:\n${context.memory.content}`);
+    }
+
+    sections.push(`Keep the conversation on ${topic}. If the student asks about something unrelated, say briefly that it is outside this session and steer back to ${topic}.`);
+
+    return sections.join('\n\n');
+}
+
+/**
+ * System prompt, then the turns the conversation summary doesn't cover (as
+ * many as fit the token budget), then the new message. The summary is left
+ * out when it was written for another branch than `history`.
+ */
+export function buildChatMessages(
+    userMessage: string,
+    history: ChatMessage[],
+    context: TutorContext | null
+): Array<{ role: string; content: string }> {
+    const memory = applicableSummary(history, context?.memory ?? null);
+    const turns = contextTurns(history, memory);
+
+    return [
+        { role: 'system', content: buildTutorSystemPrompt(context && { ...context, memory }) },
+        ...turns.map(m => ({ role: m.role, content: m.content })),
+        { role: 'user', content: userMessage },
+    ];
+}
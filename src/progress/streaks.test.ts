@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { computeStreaks, localDay, startOfLocalDay } from './streaks';
+
+const LA = 'America/Los_Angeles';
+
+// Noon on a June 2026 day in Los Angeles (PDT, UTC-7)
+function june(day: number, time = '12:00'): number {
+    return Date.parse(`2026-06-${String(day).padStart(2, '0')}T${time}:00-07:00`);
+}
+
+describe('localDay', () => {
+    it('splits days at local midnight, not UTC midnight', () => {
+        const beforeMidnight = Date.parse('2026-06-10T23:30:00-07:00'); // 06:30 UTC on the 11th
+        const afterMidnight = Date.parse('2026-06-11T00:30:00-07:00'); // 07:30 UTC on the 11th
+
+        expect(localDay(afterMidnight, LA) - localDay(beforeMidnight, LA)).toBe(1);
+        expect(localDay(afterMidnight, 'UTC')).toBe(localDay(beforeMidnight, 'UTC'));
+    });
+
+    it('numbers days consecutively across the spring DST change', () => {
+        // Clocks skip from 02:00 PST to 03:00 PDT on 8 March 2026, a 23-hour day
+        const saturday = localDay(Date.parse('2026-03-07T23:30:00-08:00'), LA);
+        const sundayStart = localDay(Date.parse('2026-03-08T00:30:00-08:00'), LA);
+        const sundayEnd = localDay(Date.parse('2026-03-08T23:30:00-07:00'), LA);
+        const monday = localDay(Date.parse('2026-03-09T00:30:00-07:00'), LA);
+
+        expect(sundayStart).toBe(saturday + 1);
+        expect(sundayEnd).toBe(sundayStart);
+        expect(monday).toBe(sundayEnd + 1);
+    });
+
+    it('keeps both 01:30s of the autumn DST change on one day', () => {
+        // Clocks go back from 02:00 PDT to 01:00 PST on 1 November 2026, a 25-hour day
+        const first = localDay(Date.parse('2026-11-01T01:30:00-07:00'), LA);
+        const second = localDay(Date.parse('2026-11-01T01:30:00-08:00'), LA);
+        const lateEvening = localDay(Date.parse('2026-11-01T23:59:00-08:00'), LA);
+
+        expect(second).toBe(first);
+        expect(lateEvening).toBe(first);
+    });
+});
+
+describe('startOfLocalDay', () => {
+    it('is local midnight on either side of UTC', () => {
+        const day = localDay(june(11), LA);
+
+        expect(startOfLocalDay(day, LA)).toBe(Date.parse('2026-06-11T00:00:00-07:00'));
+        expect(startOfLocalDay(day, 'Asia/Tokyo')).toBe(Date.parse('2026-06-11T00:00:00+09:00'));
+        expect(startOfLocalDay(day, 'Asia/Kolkata')).toBe(Date.parse('2026-06-11T00:00:00+05:30'));
+        expect(startOfLocalDay(day, 'UTC')).toBe(Date.parse('2026-06-11T00:00:00Z'));
+    });
+
+    it('uses the offset in force at midnight on DST change days', () => {
+        const spring = localDay(Date.parse('2026-03-08T12:00:00-07:00'), LA);
+        const autumn = localDay(Date.parse('2026-11-01T12:00:00-08:00'), LA);
+
+        expect(startOfLocalDay(spring, LA)).toBe(Date.parse('2026-03-08T00:00:00-08:00'));
+        expect(startOfLocalDay(spring + 1, LA)).toBe(Date.parse('2026-03-09T00:00:00-07:00'));
+        expect(startOfLocalDay(autumn, LA)).toBe(Date.parse('2026-11-01T00:00:00-07:00'));
+        expect(startOfLocalDay(autumn + 1, LA)).toBe(Date.parse('2026-11-02T00:00:00-08:00'));
+    });
+
+    it('starts a day that skips midnight when the clocks jump', () => {
+        // Santiago's clocks go from 00:00 straight to 01:00 on 6 September 2026
+        const santiago = 'America/Santiago';
+        const day = localDay(Date.parse('2026-09-06T12:00:00-03:00'), santiago);
+
+        expect(startOfLocalDay(day, santiago)).toBe(Date.parse('2026-09-06T01:00:00-03:00'));
+        expect(startOfLocalDay(day - 1, santiago)).toBe(Date.parse('2026-09-05T00:00:00-04:00'));
+    });
+});
+
+describe('computeStreaks', () => {
+    const options = { timeZone: LA, freezeDays: 0 };
+
+    it('has no streak without activity', () => {
+        expect(computeStreaks([], june(10), options)).toEqual({ currentStreak: 0, longestStreak: 0 });
+    });
+
+    it('counts activity on either side of local midnight as two days', () => {
+        const timestamps = [june(9, '23:30'), june(10, '00:30')];
+
+        expect(computeStreaks(timestamps, june(10), options)).toEqual({ currentStreak: 2, longestStreak: 2 });
+        // The same moments fall on one UTC day
+        expect(computeStreaks(timestamps, june(10), { ...options, timeZone: 'UTC' }))
+            .toEqual({ currentStreak: 1, longestStreak: 1 });
+    });
+
+    it('counts a streak through a DST change', () => {
+        const timestamps = [
+            Date.parse('2026-03-07T21:00:00-08:00'),
+            Date.parse('2026-03-08T23:30:00-07:00'),
+            Date.parse('2026-03-09T00:15:00-07:00'),
+        ];
+
+        expect(computeStreaks(timestamps, Date.parse('2026-03-09T12:00:00-07:00'), options))
+            .toEqual({ currentStreak: 3, longestStreak: 3 });
+    });
+
+    it('counts several activities on one day once', () => {
+        const timestamps = [june(10, '08:00'), june(10, '12:00'), june(10, '23:59'), june(9)];
+
+        expect(computeStreaks(timestamps, june(10), options)).toEqual({ currentStreak: 2, longestStreak: 2 });
+    });
+
+    it('picks up backfilled activity in any order', () => {
+        const recorded = [june(10), june(8)];
+        const backfilled = [june(10), june(8), june(9), june(7)];
+
+        expect(computeStreaks(recorded, june(10), options)).toEqual({ currentStreak: 1, longestStreak: 1 });
+        expect(computeStreaks(backfilled, june(10), options)).toEqual({ currentStreak: 4, longestStreak: 4 });
+    });
+
+    it('ignores activity dated after now', () => {
+        expect(computeStreaks([june(10), june(11), june(12)], june(10), options))
+            .toEqual({ currentStreak: 1, longestStreak: 1 });
+    });
+
+    it('bridges a gap no longer than freezeDays without counting the frozen days', () => {
+        const timestamps = [june(5), june(6), june(8), june(9)]; // the 7th missed
+
+        expect(computeStreaks(timestamps, june(9), { ...options, freezeDays: 1 }))
+            .toEqual({ currentStreak: 4, longestStreak: 4 });
+        expect(computeStreaks(timestamps, june(9), options))
+            .toEqual({ currentStreak: 2, longestStreak: 2 });
+    });
+
+    it('breaks on a gap longer than freezeDays', () => {
+        const timestamps = [june(3), june(4), june(5), june(8), june(9)]; // the 6th and 7th missed
+
+        expect(computeStreaks(timestamps, june(9), { ...options, freezeDays: 1 }))
+            .toEqual({ currentStreak: 2, longestStreak: 3 });
+        expect(computeStreaks(timestamps, june(9), { ...options, freezeDays: 2 }))
+            .toEqual({ currentStreak: 5, longestStreak: 5 });
+    });
+
+    it('keeps a streak current when there is no activity yet today', () => {
+        const timestamps = [june(8), june(9)];
+
+        expect(computeStreaks(timestamps, june(10, '08:00'), options))
+            .toEqual({ currentStreak: 2, longestStreak: 2 });
+    });
+
+    it('ends the current streak once a whole day passes without activity', () => {
+        const timestamps = [june(7), june(8)];
+
+        expect(computeStreaks(timestamps, june(10), options)).toEqual({ currentStreak: 0, longestStreak: 2 });
+        // A freeze day covers the missed 9th
+        expect(computeStreaks(timestamps, june(10), { ...options, freezeDays: 1 }))
+            .toEqual({ currentStreak: 2, longestStreak: 2 });
+    });
+});
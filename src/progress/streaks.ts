@@ -0,0 +1,96 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StreakOptions {
+    timeZone: string;
+    freezeDays: number; // missed days in a row that don't break a streak
+}
+
+export interface Streaks {
+    currentStreak: number;
+    longestStreak: number;
+}
+
+/**
+ * Calendar day of a timestamp in the given IANA time zone, as a day count
+ * since the Unix epoch. Consecutive local dates give consecutive numbers
+ * regardless of DST changes.
+ */
+export function localDay(timestamp: number, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+    }).formatToParts(new Date(timestamp));
+
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+    return Date.UTC(part('year'), part('month') - 1, part('day')) / DAY_MS;
+}
+
+// How far the time zone's wall clock is ahead of UTC at a timestamp
+function zoneOffset(timestamp: number, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+    }).formatToParts(new Date(timestamp));
+
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+    const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+
+    return wallClock - (timestamp - (timestamp % 1000));
+}
+
+/**
+ * The first instant of a day from localDay in the given time zone. That is
+ * local midnight, or the end of the DST gap on days that skip midnight.
+ */
+export function startOfLocalDay(day: number, timeZone: string): number {
+    const utcMidnight = day * DAY_MS;
+
+    // Take the offset at the guess again, in case a DST change falls in between
+    const guess = utcMidnight - zoneOffset(utcMidnight, timeZone);
+    const start = utcMidnight - zoneOffset(guess, timeZone);
+
+    return localDay(start, timeZone) === day ? start : guess;
+}
+
+/**
+ * Compute streaks from every activity timestamp. Streaks are recomputed from
+ * the full history, so backfilled activity and time zone changes are picked
+ * up, and several activities on one day count once.
+ *
+ * Today doesn't need activity yet: a streak stays current until a whole day
+ * (beyond the allowed freeze days) passes without any. Frozen days bridge the
+ * gap but don't add to the streak's length.
+ */
+export function computeStreaks(timestamps: number[], now: number, options: StreakOptions): Streaks {
+    const today = localDay(now, options.timeZone);
+    const days = [...new Set(timestamps.map(t => localDay(t, options.timeZone)))]
+        .filter(day => day <= today)
+        .sort((a, b) => a - b);
+
+    if (days.length === 0) {
+        return { currentStreak: 0, longestStreak: 0 };
+    }
+
+    let run = 1;
+    let longestStreak = 1;
+
+    for (let i = 1; i < days.length; i++) {
+        const missed = days[i] - days[i - 1] - 1;
+        run = missed <= options.freezeDays ? run + 1 : 1;
+        longestStreak = Math.max(longestStreak, run);
+    }
+
+    const missedSinceLast = today - days[days.length - 1] - 1;
+    const currentStreak = missedSinceLast <= options.freezeDays ? run : 0;
+
+    return { currentStreak, longestStreak };
+}
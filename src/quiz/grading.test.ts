@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from 'vitest';
+import { QuizQuestion } from '../types';
+import { AIService } from '../llm/aiService';
+import { AnswerGrade, AnswerGrader, ExactMatchGrader, LLMAnswerGrader, gradeAnswer } from './grading';
+
+const shortAnswer: QuizQuestion = {
+    id: 'q1',
+    question: 'What does a closure capture?',
+    type: 'short-answer',
+    correctAnswer: 'Its lexical scope',
+    explanation: 'A closure keeps the variables of the scope it was created in.',
+    points: 3,
+    rubric: ['Mentions the enclosing scope'],
+};
+
+const multipleChoice: QuizQuestion = {
+    id: 'q2',
+    question: 'Which keyword declares a block-scoped variable?',
+    type: 'multiple-choice',
+    options: ['var', 'let', 'function'],
+    correctAnswer: 'let',
+    explanation: '`let` is block-scoped.',
+    points: 2,
+};
+
+// A grader that gives every short answer the same grade
+class FixedGrader implements AnswerGrader {
+    private grade: AnswerGrade;
+    calls = 0;
+
+    constructor(grade: AnswerGrade) {
+        this.grade = grade;
+    }
+
+    async gradeShortAnswer(): Promise<AnswerGrade> {
+        this.calls++;
+        return this.grade;
+    }
+}
+
+// An AIService whose model scores every answer with `score`, or fails when it is an Error
+function fakeAI(score: number | Error) {
+    const gradeShortAnswer = vi.fn(async () => {
+        if (score instanceof Error) {
+            throw score;
+        }
+        return { score, feedback: 'Close enough' };
+    });
+    const generateRubric = vi.fn(async () => ['Names the scope']);
+
+    return {
+        ai: { gradeShortAnswer, generateRubric } as unknown as AIService,
+        gradeShortAnswer,
+        generateRubric,
+    };
+}
+
+describe('gradeAnswer', () => {
+    it('routes short answers to the injected grader', async () => {
+        const grader = new FixedGrader({ isCorrect: false, pointsEarned: 1, feedback: 'Partly right' });
+
+        const grade = await gradeAnswer(shortAnswer, 'the scope around it', grader);
+
+        expect(grader.calls).toBe(1);
+        expect(grade).toEqual({ isCorrect: false, pointsEarned: 1, feedback: 'Partly right' });
+    });
+
+    it('grades objective questions by exact match without the grader', async () => {
+        const grader = new FixedGrader({ isCorrect: false, pointsEarned: 0 });
+
+        expect(await gradeAnswer(multipleChoice, '  LET ', grader)).toEqual({ isCorrect: true, pointsEarned: 2 });
+        expect(await gradeAnswer(multipleChoice, 'var', grader)).toEqual({ isCorrect: false, pointsEarned: 0 });
+        expect(grader.calls).toBe(0);
+    });
+
+    it('scores an empty answer 0 without grading it', async () => {
+        const grader = new FixedGrader({ isCorrect: true, pointsEarned: 3 });
+
+        expect(await gradeAnswer(shortAnswer, '   ', grader)).toEqual({ isCorrect: false, pointsEarned: 0 });
+        expect(grader.calls).toBe(0);
+    });
+
+    it('matches short answers exactly with ExactMatchGrader', async () => {
+        const grader = new ExactMatchGrader();
+
+        expect(await gradeAnswer(shortAnswer, 'its lexical scope', grader)).toEqual({ isCorrect: true, pointsEarned: 3 });
+        expect(await gradeAnswer(shortAnswer, 'its scope', grader)).toEqual({ isCorrect: false, pointsEarned: 0 });
+    });
+});
+
+describe('LLMAnswerGrader', () => {
+    it('awards partial credit without rounding it to whole points', async () => {
+        const { ai } = fakeAI(0.5);
+
+        const grade = await gradeAnswer(shortAnswer, 'the scope', new LLMAnswerGrader(ai));
+
+        // 3 points * 0.5 = 1.5
+        expect(grade.pointsEarned).toBe(1.5);
+        expect(grade.feedback).toBe('Close enough');
+    });
+
+    it('keeps a fractional score on a one-point question to the hundredth', async () => {
+        const onePoint = { ...shortAnswer, points: 1 };
+
+        const low = await gradeAnswer(onePoint, 'the scope', new LLMAnswerGrader(fakeAI(0.4).ai));
+        const fine = await gradeAnswer(onePoint, 'the scope', new LLMAnswerGrader(fakeAI(0.333).ai));
+
+        expect(low.pointsEarned).toBe(0.4);
+        expect(fine.pointsEarned).toBe(0.33);
+    });
+
+    it('counts an answer as correct from a score of 0.7', async () => {
+        const below = await gradeAnswer(shortAnswer, 'the scope', new LLMAnswerGrader(fakeAI(0.69).ai));
+        const at = await gradeAnswer(shortAnswer, 'the scope', new LLMAnswerGrader(fakeAI(0.7).ai));
+
+        expect(below).toMatchObject({ isCorrect: false, pointsEarned: 2.07 });
+        expect(at).toMatchObject({ isCorrect: true, pointsEarned: 2.1 });
+    });
+
+    it('drafts a rubric only for questions without one', async () => {
+        const withRubric = fakeAI(1);
+        const withoutRubric = fakeAI(1);
+
+        const kept = await gradeAnswer(shortAnswer, 'its lexical scope', new LLMAnswerGrader(withRubric.ai));
+        const drafted = await gradeAnswer(
+            { ...shortAnswer, rubric: undefined },
+            'its lexical scope',
+            new LLMAnswerGrader(withoutRubric.ai)
+        );
+
+        expect(withRubric.generateRubric).not.toHaveBeenCalled();
+        expect(kept.rubric).toBeUndefined();
+        expect(drafted.rubric).toEqual(['Names the scope']);
+    });
+
+    it('falls back to exact match when the model fails', async () => {
+        const { ai, gradeShortAnswer } = fakeAI(new Error('model unavailable'));
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const grader = new LLMAnswerGrader(ai);
+
+        const right = await gradeAnswer(shortAnswer, 'Its lexical scope', grader);
+        const wrong = await gradeAnswer(shortAnswer, 'the scope', grader);
+
+        expect(gradeShortAnswer).toHaveBeenCalledTimes(2);
+        expect(right).toEqual({
+            isCorrect: true,
+            pointsEarned: 3,
+            feedback: 'Automatic grading was unavailable, so this answer was compared to the reference answer.',
+        });
+        expect(wrong).toMatchObject({ isCorrect: false, pointsEarned: 0 });
+        expect(wrong.feedback).toBe(right.feedback);
+    });
+});
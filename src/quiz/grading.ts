@@ -0,0 +1,103 @@
+import { QuizQuestion } from '../types';
+import { AIService } from '../llm/aiService';
+
+// Share of a question's points at which a partially credited answer counts as correct
+const CORRECT_THRESHOLD = 0.7;
+
+// Partial credit is kept to the hundredth of a point
+export function roundPoints(points: number): number {
+    return Math.round(points * 100) / 100;
+}
+
+export interface AnswerGrade {
+    isCorrect: boolean;
+    pointsEarned: number;
+    feedback?: string;
+    rubric?: string[]; // set when the grader had to draft a rubric for the question
+}
+
+/**
+ * Grades free-text answers. Objective question types are always graded by
+ * exact match; only short-answer questions go through the grader, so tests
+ * can swap in a deterministic implementation.
+ */
+export interface AnswerGrader {
+    gradeShortAnswer(question: QuizQuestion, answer: string): Promise<AnswerGrade>;
+}
+
+export function gradeExactMatch(question: QuizQuestion, answer: string): AnswerGrade {
+    const isCorrect = answer.trim().toLowerCase() === question.correctAnswer.trim().toLowerCase();
+
+    return {
+        isCorrect,
+        pointsEarned: isCorrect ? question.points : 0,
+    };
+}
+
+/**
+ * Deterministic grader: short answers must match the reference answer
+ */
+export class ExactMatchGrader implements AnswerGrader {
+    async gradeShortAnswer(question: QuizQuestion, answer: string): Promise<AnswerGrade> {
+        return gradeExactMatch(question, answer);
+    }
+}
+
+/**
+ * Asks the model to score short answers against the reference answer and the
+ * question's rubric, awarding partial credit
+ */
+export class LLMAnswerGrader implements AnswerGrader {
+    private aiService: AIService;
+
+    constructor(aiService: AIService) {
+        this.aiService = aiService;
+    }
+
+    async gradeShortAnswer(question: QuizQuestion, answer: string): Promise<AnswerGrade> {
+        const rubric = question.rubric?.length
+            ? question.rubric
+            : await this.aiService.generateRubric(question.question, question.correctAnswer, question.points);
+
+        try {
+            const { score, feedback } = await this.aiService.gradeShortAnswer(
+                question.question,
+                question.correctAnswer,
+                rubric,
+                answer
+            );
+
+            return {
+                isCorrect: score >= CORRECT_THRESHOLD,
+                pointsEarned: roundPoints(question.points * score),
+                feedback,
+                rubric: question.rubric?.length ? undefined : rubric,
+            };
+        } catch (error) {
+            console.error('Falling back to exact-match grading:', error);
+            return {
+                ...gradeExactMatch(question, answer),
+                feedback: 'Automatic grading was unavailable, so this answer was compared to the reference answer.',
+            };
+        }
+    }
+}
+
+/**
+ * Grade a single answer, routing short answers to the pluggable grader
+ */
+export async function gradeAnswer(
+    question: QuizQuestion,
+    answer: string,
+    grader: AnswerGrader
+): Promise<AnswerGrade> {
+    if (answer.trim().length === 0) {
+        return { isCorrect: false, pointsEarned: 0 };
+    }
+
+    if (question.type === 'short-answer') {
+        return grader.gradeShortAnswer(question, answer);
+    }
+
+    return gradeExactMatch(question, answer);
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { validateGeneratedQuestions } from './questions';
+
+describe('validateGeneratedQuestions', () => {
+    it('drops questions missing the text, answer or explanation', () => {
+        const questions = validateGeneratedQuestions([
+            { question: 'No answer', explanation: 'Because' },
+            { question: 'No explanation', correctAnswer: 'A' },
+            { correctAnswer: 'A', explanation: 'No question' },
+            { question: 'Complete', correctAnswer: 'A', explanation: 'Because' },
+        ], 10);
+
+        expect(questions.map(q => q.question)).toEqual(['Complete']);
+    });
+
+    it('fills in the id, type and points the model left out', () => {
+        const [question] = validateGeneratedQuestions([
+            { question: 'What is a closure?', correctAnswer: 'A function with its scope', explanation: 'It keeps its scope' },
+        ], 10);
+
+        expect(question).toEqual({
+            id: 'q1',
+            question: 'What is a closure?',
+            type: 'short-answer',
+            options: undefined,
+            correctAnswer: 'A function with its scope',
+            explanation: 'It keeps its scope',
+            points: 10,
+        });
+    });
+
+    it('keeps at most the requested number of questions', () => {
+        const generated = Array.from({ length: 5 }, (_, index) => ({
+            id: `g${index}`,
+            question: `Question ${index}`,
+            correctAnswer: 'A',
+            explanation: 'Because',
+        }));
+
+        expect(validateGeneratedQuestions(generated, 3).map(q => q.id)).toEqual(['g0', 'g1', 'g2']);
+    });
+});
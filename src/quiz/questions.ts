@@ -0,0 +1,34 @@
+import { QuizQuestion } from '../types';
+
+// Points for a generated question that doesn't say how much it is worth
+const DEFAULT_POINTS = 10;
+
+/**
+ * Keep the generated questions a quiz can be graded against, filling in
+ * the fields the model may leave out, and at most `questionCount` of them.
+ * Both the quiz workflow and the direct fallback in the worker store only
+ * what this returns.
+ */
+export function validateGeneratedQuestions(questions: Partial<QuizQuestion>[], questionCount: number): QuizQuestion[] {
+    const validated: QuizQuestion[] = [];
+
+    for (const q of questions) {
+        // Ensure required fields
+        if (!q.question || !q.correctAnswer || !q.explanation) {
+            continue;
+        }
+
+        // Ensure proper structure
+        validated.push({
+            id: q.id || `q${validated.length + 1}`,
+            question: q.question,
+            type: q.type || 'short-answer',
+            options: q.options,
+            correctAnswer: q.correctAnswer,
+            explanation: q.explanation,
+            points: q.points || DEFAULT_POINTS,
+        });
+    }
+
+    return validated.slice(0, questionCount);
+}
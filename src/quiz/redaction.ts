@@ -0,0 +1,68 @@
+import { Quiz, QuizQuestion, QuizAnswer, PublicQuiz, PublicQuizQuestion, QuizReviewItem } from '../types';
+
+/**
+ * Strip the answer and explanation from a question before it leaves the worker
+ */
+export function toPublicQuestion(question: QuizQuestion): PublicQuizQuestion {
+    const publicQuestion: PublicQuizQuestion = {
+        id: question.id,
+        question: question.question,
+        type: question.type,
+        points: question.points,
+    };
+
+    if (question.options) {
+        publicQuestion.options = question.options;
+    }
+
+    return publicQuestion;
+}
+
+export function toPublicQuestions(questions: QuizQuestion[]): PublicQuizQuestion[] {
+    return questions.map(toPublicQuestion);
+}
+
+/**
+ * Student view of a stored quiz
+ */
+export function toPublicQuiz(quiz: Quiz): PublicQuiz {
+    return {
+        quizId: quiz.id,
+        topic: quiz.topic,
+        difficulty: quiz.difficulty,
+        questions: toPublicQuestions(quiz.questions),
+        totalPoints: quiz.questions.reduce((sum, q) => sum + q.points, 0),
+    };
+}
+
+/**
+ * Pair each question with the graded answer so the results screen can show
+ * what was expected and why. Only call this after the attempt has been graded.
+ */
+export function buildQuizReview(quiz: Quiz, answers: QuizAnswer[]): QuizReviewItem[] {
+    return quiz.questions.map(question => {
+        const answer = answers.find(a => a.questionId === question.id);
+
+        const item: QuizReviewItem = {
+            questionId: question.id,
+            question: question.question,
+            type: question.type,
+            answer: answer?.answer ?? null,
+            correctAnswer: question.correctAnswer,
+            explanation: question.explanation,
+            isCorrect: answer?.isCorrect ?? false,
+            pointsEarned: answer?.pointsEarned ?? 0,
+            points: question.points,
+        };
+
+        if (question.options) {
+            item.options = question.options;
+        }
+
+        if (answer?.feedback) {
+            item.feedback = answer.feedback;
+        }
+
+        return item;
+    });
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EASE_FACTOR, createRepetitionItem, reviewItem } from './spacedRepetition';
+
+const LA = 'America/Los_Angeles';
+
+// 22:00 on 10 June 2026 in Los Angeles, already 11 June in UTC
+const lateEvening = Date.parse('2026-06-10T22:00:00-07:00');
+
+describe('reviewItem', () => {
+    it('schedules the next review for local midnight in the user\'s time zone', () => {
+        const item = createRepetitionItem('Closures', lateEvening);
+
+        const inLA = reviewItem(item, 4, lateEvening, LA);
+        const inUTC = reviewItem(item, 4, lateEvening, 'UTC');
+
+        expect(inLA.interval).toBe(1);
+        expect(inLA.nextReview).toBe(Date.parse('2026-06-11T00:00:00-07:00'));
+        expect(inUTC.nextReview).toBe(Date.parse('2026-06-12T00:00:00Z'));
+    });
+
+    it('counts intervals in calendar days across a DST change', () => {
+        const saturday = Date.parse('2026-03-07T09:00:00-08:00');
+        const item = { ...createRepetitionItem('Closures', saturday), repetitions: 1, interval: 1 };
+
+        const reviewed = reviewItem(item, 5, saturday, LA);
+
+        expect(reviewed.interval).toBe(6);
+        expect(reviewed.nextReview).toBe(Date.parse('2026-03-13T00:00:00-07:00'));
+    });
+
+    it('restarts the schedule after a lapse', () => {
+        const item = { ...createRepetitionItem('Closures', lateEvening), repetitions: 3, interval: 15 };
+
+        const reviewed = reviewItem(item, 2, lateEvening, LA);
+
+        expect(reviewed).toMatchObject({ repetitions: 0, interval: 1, lastQuality: 2, lastReviewed: lateEvening });
+        expect(reviewed.easeFactor).toBeLessThan(DEFAULT_EASE_FACTOR);
+        expect(reviewed.nextReview).toBe(Date.parse('2026-06-11T00:00:00-07:00'));
+    });
+});
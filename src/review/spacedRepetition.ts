@@ -0,0 +1,89 @@
+import { FlashcardRating, SpacedRepetitionItem } from '../types';
+import { localDay, startOfLocalDay } from '../progress/streaks';
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+
+// Finishing a study session without a quiz counts as a correct recall with some effort
+export const SESSION_COMPLETION_QUALITY = 4;
+
+// Walking away from a session counts as a lapse, so the topic comes back soon
+export const SESSION_ABANDONED_QUALITY = 2;
+
+/**
+ * Map a quiz percentage onto SM-2's 0-5 recall quality. Anything below 3 is a
+ * lapse and restarts the topic's schedule.
+ */
+export function qualityFromScore(percentage: number): number {
+    if (percentage >= 90) return 5;
+    if (percentage >= 75) return 4;
+    if (percentage >= 60) return 3;
+    if (percentage >= 40) return 2;
+    if (percentage >= 20) return 1;
+    return 0;
+}
+
+// SM-2 quality of each flashcard rating; "again" is a lapse
+export const RATING_QUALITY: Record<FlashcardRating, number> = {
+    again: 1,
+    hard: 3,
+    good: 4,
+    easy: 5,
+};
+
+// The SM-2 state reviewItem works on; topics and flashcards both carry it
+export type RepetitionSchedule = Omit<SpacedRepetitionItem, 'topic'>;
+
+export function createRepetitionItem(topic: string, now: number): SpacedRepetitionItem {
+    return { topic, ...newSchedule(now) };
+}
+
+// A schedule that has never been reviewed, due at `now`
+export function newSchedule(now: number): RepetitionSchedule {
+    return {
+        nextReview: now,
+        interval: 0,
+        easeFactor: DEFAULT_EASE_FACTOR,
+        repetitions: 0,
+    };
+}
+
+/**
+ * Apply one SM-2 review. Reviews are scheduled on day boundaries in the
+ * user's time zone so a topic due "tomorrow" shows up at the start of that
+ * day rather than 24h later.
+ */
+export function reviewItem<T extends RepetitionSchedule>(item: T, quality: number, now: number, timeZone: string): T {
+    const q = Math.max(0, Math.min(5, Math.round(quality)));
+
+    let { interval, repetitions } = item;
+
+    if (q >= 3) {
+        if (repetitions === 0) {
+            interval = 1;
+        } else if (repetitions === 1) {
+            interval = 6;
+        } else {
+            interval = Math.round(interval * item.easeFactor);
+        }
+        repetitions++;
+    } else {
+        repetitions = 0;
+        interval = 1;
+    }
+
+    const easeFactor = Math.max(
+        MIN_EASE_FACTOR,
+        item.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+    );
+
+    return {
+        ...item,
+        interval,
+        repetitions,
+        easeFactor,
+        nextReview: startOfLocalDay(localDay(now, timeZone) + interval, timeZone),
+        lastReviewed: now,
+        lastQuality: q,
+    };
+}
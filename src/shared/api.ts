@@ -0,0 +1,925 @@
+/**
+ * Request and response contract for every public route.
+ *
+ * The worker validates request bodies with these validators and types its
+ * response bodies against the interfaces; the frontend APIClient validates
+ * every response before handing it to the UI.
+ */
+import {
+    AIStreamChunk,
+    ActiveInterval,
+    ActivityRecord,
+    AuthUser,
+    CARD_FILE_FORMATS,
+    CardFileFormat,
+    CardImportRow,
+    ChatMessage,
+    DIFFICULTIES,
+    Difficulty,
+    EXPORT_FORMATS,
+    ExportFormat,
+    FLASHCARD_RATINGS,
+    Flashcard,
+    FlashcardRating,
+    GradedQuizResult,
+    LinkedQuiz,
+    MAX_CARD_TEXT_LENGTH,
+    MAX_SESSION_PAGE_SIZE,
+    ProgressData,
+    PublicQuiz,
+    PublicQuizQuestion,
+    QUIZ_EXPORT_FORMATS,
+    QuizAnswer,
+    QuizExportFormat,
+    QuizGenerationStatus,
+    QuizResult,
+    QuizReviewItem,
+    MAX_SEARCH_LIMIT,
+    SearchResult,
+    SearchSnippetPart,
+    SessionHistoryEntry,
+    SessionSummary,
+    SpacedRepetitionItem,
+    StudySession,
+    TopicProgress,
+    TUTOR_MODES,
+    TutorMode,
+    MAX_STREAK_FREEZE_DAYS,
+    UserSettings,
+} from './models';
+import { QuizSubmission, quizSubmissionValidator } from './quizSubmission';
+import {
+    Validator,
+    array,
+    boolean,
+    nullable,
+    number,
+    numericString,
+    object,
+    oneOf,
+    optional,
+    record,
+    refine,
+    string,
+} from './validation';
+
+// Model validators
+const difficulty: Validator<Difficulty> = oneOf(DIFFICULTIES, 'Invalid difficulty level');
+
+const tutorMode: Validator<TutorMode> = oneOf(TUTOR_MODES, 'Invalid tutor mode');
+
+export const chatMessageValidator = object<ChatMessage>({
+    id: optional(number()),
+    role: oneOf(['user', 'assistant', 'system'] as const),
+    content: string(),
+    timestamp: number(),
+    interrupted: optional(boolean()),
+    variants: optional(array(number())),
+});
+
+export const aiStreamChunkValidator = object<AIStreamChunk>({
+    content: string(),
+    done: boolean(),
+    error: optional(string()),
+});
+
+export const sessionSummaryValidator = object<SessionSummary>({
+    overview: string(),
+    conceptsCovered: array(string()),
+    strengths: array(string()),
+    gaps: array(string()),
+    nextSteps: array(string()),
+});
+
+const sessionStatus = oneOf(['active', 'completed', 'paused'] as const);
+
+export const studySessionValidator = object<StudySession>({
+    id: string(),
+    topic: string(),
+    duration: number(),
+    difficulty,
+    startTime: number(),
+    endTime: optional(number()),
+    status: sessionStatus,
+    mode: optional(tutorMode),
+    activeIntervals: optional(array(object<ActiveInterval>({
+        start: number(),
+        end: optional(number()),
+    }))),
+    endReason: optional(oneOf(['manual', 'timeout', 'idle'] as const)),
+    messagesCount: optional(number()),
+    summary: optional(sessionSummaryValidator),
+});
+
+export const sessionHistoryEntryValidator = object<SessionHistoryEntry>({
+    session: studySessionValidator,
+    messageCount: number(),
+    activeMinutes: number(),
+    quizzes: array(object<LinkedQuiz>({
+        quizId: string(),
+        createdAt: number(),
+        attempts: number(),
+        bestPercentage: optional(number()),
+    })),
+});
+
+export const searchResultValidator = object<SearchResult>({
+    kind: oneOf(['message', 'summary', 'quiz'] as const),
+    topic: string(),
+    timestamp: number(),
+    snippet: array(object<SearchSnippetPart>({
+        text: string(),
+        match: boolean(),
+    })),
+    sessionId: optional(string()),
+    messageId: optional(number()),
+    quizId: optional(string()),
+});
+
+const questionType = oneOf(['multiple-choice', 'short-answer', 'true-false'] as const);
+
+export const publicQuizQuestionValidator = object<PublicQuizQuestion>({
+    id: string(),
+    question: string(),
+    type: questionType,
+    options: optional(array(string())),
+    points: number(),
+});
+
+export const publicQuizValidator = object<PublicQuiz>({
+    quizId: string(),
+    topic: string(),
+    difficulty,
+    questions: array(publicQuizQuestionValidator),
+    totalPoints: number(),
+});
+
+export const quizGenerationStatusValidator = object<QuizGenerationStatus>({
+    workflowId: nullable(string()),
+    status: oneOf(['running', 'completed', 'failed'] as const),
+    quiz: optional(publicQuizValidator),
+    error: optional(string()),
+});
+
+const quizAnswerValidator = object<QuizAnswer>({
+    questionId: string(),
+    answer: string(),
+    isCorrect: optional(boolean()),
+    pointsEarned: optional(number()),
+    feedback: optional(string()),
+});
+
+const quizResultShape = {
+    quizId: string(),
+    score: number(),
+    maxScore: number(),
+    percentage: number(),
+    completedAt: number(),
+    timeSpent: number(),
+    answers: array(quizAnswerValidator),
+};
+
+export const quizResultValidator = object<QuizResult>(quizResultShape);
+
+const quizReviewItemValidator = object<QuizReviewItem>({
+    questionId: string(),
+    question: string(),
+    type: questionType,
+    options: optional(array(string())),
+    answer: nullable(string()),
+    correctAnswer: string(),
+    explanation: string(),
+    isCorrect: boolean(),
+    pointsEarned: number(),
+    points: number(),
+    feedback: optional(string()),
+});
+
+export const gradedQuizResultValidator = object<GradedQuizResult>({
+    ...quizResultShape,
+    review: array(quizReviewItemValidator),
+});
+
+export const topicProgressValidator = object<TopicProgress>({
+    topic: string(),
+    masteryLevel: number(),
+    timeSpent: number(),
+    sessionsCount: number(),
+    quizAverage: number(),
+    lastStudied: number(),
+    nextReview: optional(number()),
+});
+
+const activityRecordValidator = object<ActivityRecord>({
+    type: oneOf(['session', 'quiz'] as const),
+    topic: string(),
+    timestamp: number(),
+    duration: optional(number()),
+    score: optional(number()),
+});
+
+export const progressDataValidator = object<ProgressData>({
+    userId: string(),
+    totalStudyTime: number(),
+    totalSessions: number(),
+    totalQuizzes: number(),
+    averageScore: number(),
+    currentStreak: number(),
+    longestStreak: number(),
+    topicsStudied: array(topicProgressValidator),
+    recentActivity: array(activityRecordValidator),
+});
+
+export const spacedRepetitionItemValidator = object<SpacedRepetitionItem>({
+    topic: string(),
+    nextReview: number(),
+    interval: number(),
+    easeFactor: number(),
+    repetitions: number(),
+    lastReviewed: optional(number()),
+    lastQuality: optional(number()),
+});
+
+export const flashcardValidator = object<Flashcard>({
+    id: string(),
+    front: string(),
+    back: string(),
+    topic: string(),
+    source: oneOf(['chat', 'quiz', 'manual', 'import'] as const),
+    sessionId: optional(string()),
+    messageId: optional(number()),
+    quizId: optional(string()),
+    questionId: optional(string()),
+    createdAt: number(),
+    nextReview: number(),
+    interval: number(),
+    easeFactor: number(),
+    repetitions: number(),
+    lastReviewed: optional(number()),
+    lastQuality: optional(number()),
+});
+
+export const cardImportRowValidator = object<CardImportRow>({
+    line: number(),
+    front: string(),
+    back: string(),
+    fileTopic: optional(string()),
+    topic: string(),
+    action: oneOf(['create', 'skip'] as const),
+    reason: optional(string()),
+});
+
+export const userSettingsValidator = object<UserSettings>({
+    timeZone: string(),
+    streakFreezeDays: number(),
+});
+
+// Any IANA zone the runtime's Intl knows about
+const timeZone = refine(string({ min: 1 }), (value, path) => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: value });
+        return [];
+    } catch {
+        return [{ field: path, message: `Unknown time zone: ${value}` }];
+    }
+});
+
+const authUserValidator = object<AuthUser>({
+    id: string(),
+    email: string(),
+});
+
+// POST /api/auth/signup, POST /api/auth/signin
+export interface CredentialsRequest {
+    email: string;
+    password: string;
+}
+
+export interface AuthResponse {
+    token: string;
+    user: AuthUser;
+}
+
+// GET /api/auth/me
+export interface CurrentUserResponse {
+    user: AuthUser;
+}
+
+// POST /api/chat
+export interface ChatRequest {
+    message: string;
+    sessionId: string;
+    mode?: TutorMode; // switches the session's tutor mode from this message on
+    editOf?: number; // a user message this one rewrites, starting a new branch from there
+}
+
+export interface ChatResponse {
+    response: string;
+    sessionId: string;
+}
+
+// POST /api/chat/regenerate; streams like /api/chat/stream
+export interface RegenerateRequest {
+    sessionId: string;
+    mode?: TutorMode;
+}
+
+// POST /api/chat/branch
+export interface SwitchBranchRequest {
+    sessionId: string;
+    messageId: number; // the version of a turn to show
+}
+
+// GET /api/chat/history?sessionId=, and POST /api/chat/branch
+export interface ChatHistoryResult {
+    history: ChatMessage[];
+}
+
+// POST /api/study/start
+export interface StartStudyRequest {
+    topic: string;
+    duration: number;
+    difficulty: Difficulty;
+    mode?: TutorMode;
+}
+
+export interface StartStudyResponse {
+    session: StudySession;
+    workflowId: string | null;
+}
+
+// GET /api/study/current
+export interface CurrentSessionResponse {
+    session: StudySession | null;
+}
+
+// GET /api/study/sessions; the newest sessions come first
+export interface ListSessionsQuery {
+    topic?: string; // exact topic, ignoring case
+    status?: StudySession['status'];
+    from?: number; // started at or after (ms since epoch)
+    to?: number; // started before (ms since epoch)
+    cursor?: string; // nextCursor from the previous page
+    limit?: number;
+}
+
+export interface ListSessionsResponse {
+    sessions: SessionHistoryEntry[];
+    nextCursor: string | null;
+}
+
+// GET /api/study/sessions/:sessionId/export
+export interface ExportSessionQuery {
+    format?: ExportFormat; // md when absent
+}
+
+// POST /api/study/complete, /api/study/pause, /api/study/resume
+export interface SessionActionRequest {
+    sessionId: string;
+}
+
+// POST /api/study/extend
+export interface ExtendSessionRequest {
+    sessionId: string;
+    minutes: number; // added to the planned duration
+}
+
+// POST /api/study/pause, /api/study/resume, /api/study/extend, GET /api/study/sessions/:sessionId
+export interface SessionResponse {
+    session: StudySession;
+}
+
+export interface SuccessResponse {
+    success: boolean;
+}
+
+// POST /api/quiz/generate
+export interface GenerateQuizRequest {
+    topic: string;
+    questionCount: number;
+    difficulty: Difficulty;
+    sessionId?: string; // links the quiz to the session it was taken in
+}
+
+// GET /api/quiz/:quizId/export
+export interface ExportQuizQuery {
+    format?: QuizExportFormat; // qti when absent
+}
+
+// GET /api/quiz/results
+export interface QuizResultsResponse {
+    results: QuizResult[];
+}
+
+// GET /api/progress
+export interface ProgressResponse {
+    progress: ProgressData;
+}
+
+// GET /api/progress/topics
+export interface TopicProgressResponse {
+    topics: TopicProgress[];
+}
+
+// GET /api/review/due
+export interface DueReviewsResponse {
+    items: SpacedRepetitionItem[];
+}
+
+// GET /api/settings, PUT /api/settings
+export interface SettingsResponse {
+    settings: UserSettings;
+}
+
+export interface UpdateSettingsRequest {
+    timeZone?: string;
+    streakFreezeDays?: number;
+}
+
+// GET /api/flashcards; soonest due first
+export interface ListFlashcardsQuery {
+    topic?: string;
+    due?: 'true' | 'false'; // 'true' for only the cards due now
+}
+
+export interface FlashcardsResponse {
+    cards: Flashcard[];
+}
+
+// POST /api/flashcards, PUT /api/flashcards/:cardId, POST /api/flashcards/:cardId/review
+export interface FlashcardResponse {
+    card: Flashcard;
+}
+
+export interface CreateFlashcardRequest {
+    front: string;
+    back: string;
+    topic: string;
+}
+
+export interface UpdateFlashcardRequest {
+    front?: string;
+    back?: string;
+    topic?: string;
+}
+
+// POST /api/flashcards/generate; answered with the new cards only
+export interface GenerateFlashcardsRequest {
+    from: 'chat' | 'quiz'; // a session's transcript, or quiz questions answered wrong
+    sessionId?: string; // required for chat; narrows quiz mistakes to the session's quizzes
+    topic?: string; // narrows quiz mistakes to a topic
+}
+
+export interface ReviewFlashcardRequest {
+    rating: FlashcardRating;
+}
+
+// GET /api/flashcards/export
+export interface ExportFlashcardsQuery {
+    format?: CardFileFormat; // anki when absent
+    include?: 'cards' | 'questions' | 'all'; // all when absent
+    topic?: string;
+}
+
+// POST /api/flashcards/import
+export interface ImportFlashcardsRequest {
+    format: CardFileFormat;
+    content: string; // the file's text
+    topic?: string; // for rows that don't name one
+    topicMap?: Record<string, string>; // a topic named in the file -> the topic to file its cards under
+    dryRun?: boolean; // report what would be created or skipped without saving anything
+}
+
+export interface ImportFlashcardsResponse {
+    dryRun: boolean;
+    created: number;
+    skipped: number;
+    rows: CardImportRow[]; // in file order
+}
+
+// GET /api/search?q=; best matches first
+export interface SearchQuery {
+    q: string;
+    limit?: number;
+}
+
+export interface SearchResponse {
+    results: SearchResult[];
+}
+
+// Error body for any 4xx/5xx response
+export interface ErrorResponse {
+    error: string;
+    fieldErrors?: Array<{ field: string; message: string }>;
+}
+
+const chatRequestValidator = object<ChatRequest>({
+    message: string({ min: 1, max: 10000, trim: true }),
+    sessionId: string({ min: 1, message: 'sessionId required' }),
+    mode: optional(tutorMode),
+    editOf: optional(number({ min: 1, integer: true, message: 'editOf must be a message id' })),
+});
+
+const cardFront = string({ min: 1, max: MAX_CARD_TEXT_LENGTH, trim: true, message: 'The front of the card is required' });
+const cardBack = string({ min: 1, max: MAX_CARD_TEXT_LENGTH, trim: true, message: 'The back of the card is required' });
+const cardTopic = string({ min: 1, max: 200, trim: true, message: 'Topic is required' });
+
+const flashcardResponseValidator = object<FlashcardResponse>({
+    card: flashcardValidator,
+});
+
+const chatHistoryResultValidator = object<ChatHistoryResult>({
+    history: array(chatMessageValidator),
+});
+
+const sessionActionRequestValidator = object<SessionActionRequest>({
+    sessionId: string({ min: 1, message: 'sessionId required' }),
+});
+
+const sessionResponseValidator = object<SessionResponse>({
+    session: studySessionValidator,
+});
+
+const email = string({ min: 3, max: 254, trim: true, message: 'A valid email is required' });
+
+const authResponseValidator = object<AuthResponse>({
+    token: string(),
+    user: authUserValidator,
+});
+
+export const apiContract = {
+    signUp: {
+        method: 'POST',
+        path: '/api/auth/signup',
+        request: object<CredentialsRequest>({
+            email: refine(email, (value, path) =>
+                /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? [] : [{ field: path, message: 'A valid email is required' }]
+            ),
+            password: string({ min: 8, max: 256, message: 'Password must be between 8 and 256 characters' }),
+        }),
+        response: authResponseValidator,
+    },
+    signIn: {
+        method: 'POST',
+        path: '/api/auth/signin',
+        request: object<CredentialsRequest>({
+            email,
+            password: string({ min: 1, message: 'Password is required' }),
+        }),
+        response: authResponseValidator,
+    },
+    currentUser: {
+        method: 'GET',
+        path: '/api/auth/me',
+        response: object<CurrentUserResponse>({
+            user: authUserValidator,
+        }),
+    },
+    chat: {
+        method: 'POST',
+        path: '/api/chat',
+        request: chatRequestValidator,
+        response: object<ChatResponse>({
+            response: string(),
+            sessionId: string(),
+        }),
+    },
+    // Responds with text/event-stream; each event's data is an AIStreamChunk
+    chatStream: {
+        method: 'POST',
+        path: '/api/chat/stream',
+        request: chatRequestValidator,
+        event: aiStreamChunkValidator,
+    },
+    // Responds with text/event-stream, like chatStream
+    chatRegenerate: {
+        method: 'POST',
+        path: '/api/chat/regenerate',
+        request: object<RegenerateRequest>({
+            sessionId: string({ min: 1, message: 'sessionId required' }),
+            mode: optional(tutorMode),
+        }),
+        event: aiStreamChunkValidator,
+    },
+    chatHistory: {
+        method: 'GET',
+        path: '/api/chat/history',
+        response: chatHistoryResultValidator,
+    },
+    chatBranch: {
+        method: 'POST',
+        path: '/api/chat/branch',
+        request: object<SwitchBranchRequest>({
+            sessionId: string({ min: 1, message: 'sessionId required' }),
+            messageId: number({ min: 1, integer: true, message: 'messageId must be a message id' }),
+        }),
+        response: chatHistoryResultValidator,
+    },
+    startStudy: {
+        method: 'POST',
+        path: '/api/study/start',
+        request: object<StartStudyRequest>({
+            topic: string({ min: 1, trim: true, message: 'Topic is required' }),
+            duration: number({ min: 5, max: 120, message: 'Duration must be between 5 and 120 minutes' }),
+            difficulty,
+            mode: optional(tutorMode),
+        }),
+        response: object<StartStudyResponse>({
+            session: studySessionValidator,
+            workflowId: nullable(string()),
+        }),
+    },
+    currentSession: {
+        method: 'GET',
+        path: '/api/study/current',
+        response: object<CurrentSessionResponse>({
+            session: nullable(studySessionValidator),
+        }),
+    },
+    completeStudy: {
+        method: 'POST',
+        path: '/api/study/complete',
+        request: sessionActionRequestValidator,
+        response: object<SuccessResponse>({
+            success: boolean(),
+        }),
+    },
+    listSessions: {
+        method: 'GET',
+        path: '/api/study/sessions',
+        query: refine(
+            object<ListSessionsQuery>({
+                topic: optional(string({ min: 1, max: 200, trim: true })),
+                status: optional(sessionStatus),
+                from: optional(numericString({ min: 0, integer: true })),
+                to: optional(numericString({ min: 0, integer: true })),
+                cursor: optional(refine(string({ min: 1 }), (value, path) =>
+                    /^\d+:.+$/.test(value) ? [] : [{ field: path, message: 'Invalid cursor' }]
+                )),
+                limit: optional(numericString({
+                    min: 1,
+                    max: MAX_SESSION_PAGE_SIZE,
+                    integer: true,
+                    message: `limit must be between 1 and ${MAX_SESSION_PAGE_SIZE}`,
+                })),
+            }),
+            (value, path) => value.from !== undefined && value.to !== undefined && value.from > value.to
+                ? [{ field: path ? `${path}.to` : 'to', message: 'to must not be before from' }]
+                : []
+        ),
+        response: object<ListSessionsResponse>({
+            sessions: array(sessionHistoryEntryValidator),
+            nextCursor: nullable(string()),
+        }),
+    },
+    // The summary appears once it has been generated, shortly after completion
+    studySession: {
+        method: 'GET',
+        path: '/api/study/sessions/:sessionId',
+        response: sessionResponseValidator,
+    },
+    // Responds with the session as a file download: Markdown, a printable HTML
+    // page, or a SessionExport as JSON
+    exportSession: {
+        method: 'GET',
+        path: '/api/study/sessions/:sessionId/export',
+        query: object<ExportSessionQuery>({
+            format: optional(oneOf(EXPORT_FORMATS, 'format must be md, html or json')),
+        }),
+    },
+    pauseStudy: {
+        method: 'POST',
+        path: '/api/study/pause',
+        request: sessionActionRequestValidator,
+        response: sessionResponseValidator,
+    },
+    resumeStudy: {
+        method: 'POST',
+        path: '/api/study/resume',
+        request: sessionActionRequestValidator,
+        response: sessionResponseValidator,
+    },
+    extendStudy: {
+        method: 'POST',
+        path: '/api/study/extend',
+        request: object<ExtendSessionRequest>({
+            sessionId: string({ min: 1, message: 'sessionId required' }),
+            minutes: number({ min: 1, max: 120, integer: true, message: 'minutes must be between 1 and 120' }),
+        }),
+        response: sessionResponseValidator,
+    },
+    generateQuiz: {
+        method: 'POST',
+        path: '/api/quiz/generate',
+        request: object<GenerateQuizRequest>({
+            topic: string({ min: 1, trim: true, message: 'Topic is required' }),
+            questionCount: number({ min: 1, max: 20, integer: true, message: 'Question count must be between 1 and 20' }),
+            difficulty,
+            sessionId: optional(string({ min: 1 })),
+        }),
+        response: quizGenerationStatusValidator,
+    },
+    quizStatus: {
+        method: 'GET',
+        path: '/api/quiz/status/:workflowId',
+        response: quizGenerationStatusValidator,
+    },
+    submitQuiz: {
+        method: 'POST',
+        path: '/api/quiz/submit',
+        request: quizSubmissionValidator,
+        response: gradedQuizResultValidator,
+    },
+    // Responds with the quiz as a file download, answer key included: a QTI 2.1
+    // package zip, Moodle GIFT text, or the Quiz as JSON. 409 until the quiz
+    // has been submitted.
+    exportQuiz: {
+        method: 'GET',
+        path: '/api/quiz/:quizId/export',
+        query: object<ExportQuizQuery>({
+            format: optional(oneOf(QUIZ_EXPORT_FORMATS, 'format must be qti, gift or json')),
+        }),
+    },
+    quizResults: {
+        method: 'GET',
+        path: '/api/quiz/results',
+        response: object<QuizResultsResponse>({
+            results: array(quizResultValidator),
+        }),
+    },
+    progress: {
+        method: 'GET',
+        path: '/api/progress',
+        response: object<ProgressResponse>({
+            progress: progressDataValidator,
+        }),
+    },
+    topicProgress: {
+        method: 'GET',
+        path: '/api/progress/topics',
+        response: object<TopicProgressResponse>({
+            topics: array(topicProgressValidator),
+        }),
+    },
+    dueReviews: {
+        method: 'GET',
+        path: '/api/review/due',
+        response: object<DueReviewsResponse>({
+            items: array(spacedRepetitionItemValidator),
+        }),
+    },
+    settings: {
+        method: 'GET',
+        path: '/api/settings',
+        response: object<SettingsResponse>({
+            settings: userSettingsValidator,
+        }),
+    },
+    updateSettings: {
+        method: 'PUT',
+        path: '/api/settings',
+        request: object<UpdateSettingsRequest>({
+            timeZone: optional(timeZone),
+            streakFreezeDays: optional(number({
+                min: 0,
+                max: MAX_STREAK_FREEZE_DAYS,
+                integer: true,
+                message: `Streak freeze must be between 0 and ${MAX_STREAK_FREEZE_DAYS} days`,
+            })),
+        }),
+        response: object<SettingsResponse>({
+            settings: userSettingsValidator,
+        }),
+    },
+    listFlashcards: {
+        method: 'GET',
+        path: '/api/flashcards',
+        query: object<ListFlashcardsQuery>({
+            topic: optional(string({ min: 1, max: 200, trim: true })),
+            due: optional(oneOf(['true', 'false'] as const, 'due must be true or false')),
+        }),
+        response: object<FlashcardsResponse>({
+            cards: array(flashcardValidator),
+        }),
+    },
+    createFlashcard: {
+        method: 'POST',
+        path: '/api/flashcards',
+        request: object<CreateFlashcardRequest>({
+            front: cardFront,
+            back: cardBack,
+            topic: cardTopic,
+        }),
+        response: flashcardResponseValidator,
+    },
+    // Drafted by the model; takes a few seconds
+    generateFlashcards: {
+        method: 'POST',
+        path: '/api/flashcards/generate',
+        request: refine(
+            object<GenerateFlashcardsRequest>({
+                from: oneOf(['chat', 'quiz'] as const, 'from must be chat or quiz'),
+                sessionId: optional(string({ min: 1 })),
+                topic: optional(string({ min: 1, max: 200, trim: true })),
+            }),
+            (value, path) => value.from === 'chat' && value.sessionId === undefined
+                ? [{ field: path ? `${path}.sessionId` : 'sessionId', message: 'sessionId required' }]
+                : []
+        ),
+        response: object<FlashcardsResponse>({
+            cards: array(flashcardValidator),
+        }),
+    },
+    updateFlashcard: {
+        method: 'PUT',
+        path: '/api/flashcards/:cardId',
+        request: object<UpdateFlashcardRequest>({
+            front: optional(cardFront),
+            back: optional(cardBack),
+            topic: optional(cardTopic),
+        }),
+        response: flashcardResponseValidator,
+    },
+    deleteFlashcard: {
+        method: 'DELETE',
+        path: '/api/flashcards/:cardId',
+        response: object<SuccessResponse>({
+            success: boolean(),
+        }),
+    },
+    // Reschedules the card with SM-2
+    reviewFlashcard: {
+        method: 'POST',
+        path: '/api/flashcards/:cardId/review',
+        request: object<ReviewFlashcardRequest>({
+            rating: oneOf(FLASHCARD_RATINGS, 'rating must be again, hard, good or easy'),
+        }),
+        response: flashcardResponseValidator,
+    },
+    // Responds with the deck and/or the questions of submitted quizzes as a
+    // file download: Anki notes or CSV
+    exportFlashcards: {
+        method: 'GET',
+        path: '/api/flashcards/export',
+        query: object<ExportFlashcardsQuery>({
+            format: optional(oneOf(CARD_FILE_FORMATS, 'format must be anki or csv')),
+            include: optional(oneOf(['cards', 'questions', 'all'] as const, 'include must be cards, questions or all')),
+            topic: optional(string({ min: 1, max: 200, trim: true })),
+        }),
+    },
+    importFlashcards: {
+        method: 'POST',
+        path: '/api/flashcards/import',
+        request: object<ImportFlashcardsRequest>({
+            format: oneOf(CARD_FILE_FORMATS, 'format must be anki or csv'),
+            content: string({ min: 1, max: 1_000_000, message: 'The file is empty or larger than 1 MB' }),
+            topic: optional(cardTopic),
+            topicMap: optional(record(cardTopic)),
+            dryRun: optional(boolean()),
+        }),
+        response: object<ImportFlashcardsResponse>({
+            dryRun: boolean(),
+            created: number(),
+            skipped: number(),
+            rows: array(cardImportRowValidator),
+        }),
+    },
+    search: {
+        method: 'GET',
+        path: '/api/search',
+        query: object<SearchQuery>({
+            q: string({ min: 1, max: 200, trim: true, message: 'Enter something to search for' }),
+            limit: optional(numericString({
+                min: 1,
+                max: MAX_SEARCH_LIMIT,
+                integer: true,
+                message: `limit must be between 1 and ${MAX_SEARCH_LIMIT}`,
+            })),
+        }),
+        response: object<SearchResponse>({
+            results: array(searchResultValidator),
+        }),
+    },
+} as const;
+
+export type RouteName = keyof typeof apiContract;
+
+type RouteRequest<R> = R extends { request: Validator<infer T> } ? T : never;
+type RouteResponse<R> = R extends { response: Validator<infer T> } ? T : never;
+type RouteQuery<R> = R extends { query: Validator<infer T> } ? T : never;
+
+// Routes answered with a single JSON body (i.e. everything except streams)
+export type JsonRouteName = {
+    [N in RouteName]: (typeof apiContract)[N] extends { response: Validator<unknown> } ? N : never;
+}[RouteName];
+
+// Routes answered with text/event-stream, one AIStreamChunk per event
+export type StreamRouteName = {
+    [N in RouteName]: (typeof apiContract)[N] extends { event: Validator<unknown> } ? N : never;
+}[RouteName];
+
+export type ApiRequest<N extends RouteName> = RouteRequest<(typeof apiContract)[N]>;
+export type ApiResponse<N extends RouteName> = RouteResponse<(typeof apiContract)[N]>;
+export type ApiQuery<N extends RouteName> = RouteQuery<(typeof apiContract)[N]>;
+
+export type { QuizSubmission };
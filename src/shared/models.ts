@@ -0,0 +1,338 @@
+/**
+ * Domain models that cross the wire between the worker and the frontend.
+ * Keep this file free of Workers and DOM types; `src/types.ts` re-exports it
+ * for the worker.
+ */
+
+export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export const DIFFICULTIES: readonly Difficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+// How the tutor teaches; the instructions for each live in src/llm/tutorModes.ts
+export type TutorMode = 'standard' | 'socratic' | 'eli5' | 'worked-examples' | 'exam-drill';
+
+export const TUTOR_MODES: readonly TutorMode[] = ['standard', 'socratic', 'eli5', 'worked-examples', 'exam-drill'];
+
+export const DEFAULT_TUTOR_MODE: TutorMode = 'standard';
+
+// Chat types
+export interface ChatMessage {
+    id?: number; // set once stored
+    role: 'user' | 'assistant' | 'system';
+    content: string;
+    timestamp: number;
+    interrupted?: boolean; // assistant reply was cut short by the user stopping the stream
+    // Ids of every version of this turn (regenerated replies, edited questions),
+    // oldest first; present only when there is more than one
+    variants?: number[];
+}
+
+// One Server-Sent Event on /api/chat/stream
+export interface AIStreamChunk {
+    content: string;
+    done: boolean;
+    error?: string;
+}
+
+// Study session types
+export interface StudySession {
+    id: string;
+    topic: string;
+    duration: number;
+    difficulty: Difficulty;
+    startTime: number;
+    endTime?: number;
+    status: 'active' | 'completed' | 'paused';
+    mode?: TutorMode; // the tutor mode last chatted in; standard when absent
+    // Periods the session was running, oldest first; the last is open while active
+    activeIntervals?: ActiveInterval[];
+    endReason?: SessionEndReason;
+    messagesCount?: number;
+    summary?: SessionSummary; // written shortly after the session completes
+}
+
+// A quiz generated during a session, with how it went
+export interface LinkedQuiz {
+    quizId: string;
+    createdAt: number;
+    attempts: number;
+    bestPercentage?: number;
+}
+
+// One entry in the session history
+export interface SessionHistoryEntry {
+    session: StudySession;
+    messageCount: number;
+    activeMinutes: number;
+    quizzes: LinkedQuiz[];
+}
+
+export const DEFAULT_SESSION_PAGE_SIZE = 20;
+export const MAX_SESSION_PAGE_SIZE = 50;
+
+// Search across chat messages, session summaries and quiz explanations
+export type SearchResultKind = 'message' | 'summary' | 'quiz';
+
+// A stretch of a result's snippet; `match` parts are the words searched for
+export interface SearchSnippetPart {
+    text: string;
+    match: boolean;
+}
+
+export interface SearchResult {
+    kind: SearchResultKind;
+    topic: string;
+    timestamp: number;
+    snippet: SearchSnippetPart[];
+    sessionId?: string; // absent for a quiz generated outside a session
+    messageId?: number; // message results
+    quizId?: string; // quiz results
+}
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+// File formats a session can be exported in
+export type ExportFormat = 'md' | 'html' | 'json';
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['md', 'html', 'json'];
+
+// File formats a quiz can be exported in for a learning management system:
+// an IMS QTI 2.1 content package, Moodle GIFT, or the quiz itself as JSON
+export type QuizExportFormat = 'qti' | 'gift' | 'json';
+export const QUIZ_EXPORT_FORMATS: readonly QuizExportFormat[] = ['qti', 'gift', 'json'];
+
+// A quiz taken during an exported session, with every graded attempt
+export interface ExportedQuiz {
+    quizId: string;
+    topic: string;
+    difficulty: Difficulty;
+    createdAt: number;
+    attempts: GradedQuizResult[];
+}
+
+// Everything a session export holds; the json format is this object as is
+export interface SessionExport {
+    session: StudySession;
+    activeMinutes: number;
+    transcript: ChatMessage[]; // the branch being shown
+    quizzes: ExportedQuiz[]; // oldest first; quizzes never submitted are left out
+    exportedAt: number;
+    timeZone: string; // the user's; Markdown and HTML exports show times in it
+}
+
+// AI recap of a completed session, drawn from its transcript
+export interface SessionSummary {
+    overview: string;
+    conceptsCovered: string[];
+    strengths: string[];
+    gaps: string[];
+    nextSteps: string[];
+}
+
+// How a completed session ended: the user pressed Complete, it ran out of
+// time, or it went quiet for too long
+export type SessionEndReason = 'manual' | 'timeout' | 'idle';
+
+export interface ActiveInterval {
+    start: number;
+    end?: number;
+}
+
+// Quiz types
+export type QuestionType = 'multiple-choice' | 'short-answer' | 'true-false';
+
+export interface QuizAnswer {
+    questionId: string;
+    answer: string;
+    isCorrect?: boolean;
+    pointsEarned?: number;
+    feedback?: string;
+}
+
+export interface Quiz {
+    id: string;
+    topic: string;
+    difficulty: Difficulty;
+    questions: QuizQuestion[];
+    createdAt: number;
+    sessionId?: string; // study session the quiz was generated from
+}
+
+export interface QuizQuestion {
+    id: string;
+    question: string;
+    type: QuestionType;
+    options?: string[];
+    correctAnswer: string;
+    explanation: string;
+    points: number;
+    rubric?: string[]; // grading criteria for short-answer questions
+}
+
+// Student view of a question: everything needed to answer it, nothing that gives it away
+export type PublicQuizQuestion = Omit<QuizQuestion, 'correctAnswer' | 'explanation' | 'rubric'>;
+
+export interface PublicQuiz {
+    quizId: string;
+    topic: string;
+    difficulty: Difficulty;
+    questions: PublicQuizQuestion[];
+    totalPoints: number;
+}
+
+export interface QuizResult {
+    quizId: string;
+    score: number;
+    maxScore: number;
+    percentage: number;
+    completedAt: number;
+    timeSpent: number;
+    answers: QuizAnswer[];
+}
+
+// Per-question breakdown revealed only once an attempt has been graded
+export interface QuizReviewItem {
+    questionId: string;
+    question: string;
+    type: QuestionType;
+    options?: string[];
+    answer: string | null;
+    correctAnswer: string;
+    explanation: string;
+    isCorrect: boolean;
+    pointsEarned: number;
+    points: number;
+    feedback?: string;
+}
+
+export interface GradedQuizResult extends QuizResult {
+    review: QuizReviewItem[];
+}
+
+// workflowId is null when the worker generated the quiz inline
+export interface QuizGenerationStatus {
+    workflowId: string | null;
+    status: 'running' | 'completed' | 'failed';
+    quiz?: PublicQuiz;
+    error?: string;
+}
+
+// Progress types
+export interface ProgressData {
+    userId: string;
+    totalStudyTime: number;
+    totalSessions: number;
+    totalQuizzes: number;
+    averageScore: number;
+    currentStreak: number;
+    longestStreak: number;
+    topicsStudied: TopicProgress[];
+    recentActivity: ActivityRecord[];
+}
+
+export interface TopicProgress {
+    topic: string;
+    masteryLevel: number; // 0-100
+    timeSpent: number;
+    sessionsCount: number;
+    quizAverage: number;
+    lastStudied: number;
+    nextReview?: number;
+}
+
+export interface ActivityRecord {
+    type: 'session' | 'quiz';
+    topic: string;
+    timestamp: number;
+    duration?: number;
+    score?: number;
+}
+
+export interface SpacedRepetitionItem {
+    topic: string;
+    nextReview: number;
+    interval: number; // days
+    easeFactor: number;
+    repetitions: number;
+    lastReviewed?: number;
+    lastQuality?: number; // SM-2 recall quality 0-5
+}
+
+// Flashcard types
+// Where a card came from: a chat message, a missed quiz question, the
+// student, or an imported file
+export type FlashcardSource = 'chat' | 'quiz' | 'manual' | 'import';
+
+export interface Flashcard {
+    id: string;
+    front: string;
+    back: string;
+    topic: string;
+    source: FlashcardSource;
+    sessionId?: string; // chat cards: the session the message is from
+    messageId?: number; // chat cards: the message the card was drawn from
+    quizId?: string; // quiz cards: the question that was missed
+    questionId?: string;
+    createdAt: number;
+    // SM-2 schedule, as for SpacedRepetitionItem; new cards are due at once
+    nextReview: number;
+    interval: number; // days
+    easeFactor: number;
+    repetitions: number;
+    lastReviewed?: number;
+    lastQuality?: number;
+}
+
+// How well a card was recalled, from forgotten to effortless
+export type FlashcardRating = 'again' | 'hard' | 'good' | 'easy';
+export const FLASHCARD_RATINGS: readonly FlashcardRating[] = ['again', 'hard', 'good', 'easy'];
+
+// File formats cards are exchanged in: Anki's tab-separated notes (front,
+// back, tags) or CSV with a header row
+export type CardFileFormat = 'anki' | 'csv';
+export const CARD_FILE_FORMATS: readonly CardFileFormat[] = ['anki', 'csv'];
+
+export const MAX_CARD_TEXT_LENGTH = 2000; // either side of a card
+export const MAX_IMPORT_ROWS = 5000;
+
+// A question from a submitted quiz, exported alongside the deck
+export interface BankQuestion {
+    quizId: string;
+    topic: string;
+    difficulty: Difficulty;
+    question: QuizQuestion;
+}
+
+// What a card file is written from
+export interface CardExport {
+    cards: Flashcard[];
+    questions: BankQuestion[];
+}
+
+// A row of an imported file and what the import does with it
+export interface CardImportRow {
+    line: number; // where the row starts in the file, from 1
+    front: string;
+    back: string;
+    fileTopic?: string; // the topic the file gave the row, if any
+    topic: string; // the topic the card is filed under; empty if none was found
+    action: 'create' | 'skip';
+    reason?: string; // why the row is skipped
+}
+
+export interface UserSettings {
+    timeZone: string; // IANA name, used to decide which calendar day activity falls on
+    streakFreezeDays: number; // missed days in a row that don't break the study streak
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+    timeZone: 'UTC',
+    streakFreezeDays: 0,
+};
+
+export const MAX_STREAK_FREEZE_DAYS = 3;
+
+export interface AuthUser {
+    id: string;
+    email: string;
+}
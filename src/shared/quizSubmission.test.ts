@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { apiContract } from './api';
+import { QUIZ_SUBMISSION_VERSION, quizSubmissionValidator, validateQuizSubmission } from './quizSubmission';
+
+const valid = {
+    version: QUIZ_SUBMISSION_VERSION,
+    quizId: 'quiz_123',
+    answers: [
+        { questionId: 'q1', answer: 'Option A' },
+        { questionId: 'q2', answer: 'True' },
+    ],
+    timeSpent: 240,
+};
+
+// The fieldErrors /api/quiz/submit responds with for a body
+function fieldErrors(body: unknown) {
+    const result = validateQuizSubmission(body);
+    return result.ok ? [] : result.errors;
+}
+
+describe('quizSubmissionValidator', () => {
+    it('is the validator /api/quiz/submit reads its body with', () => {
+        expect(apiContract.submitQuiz.request).toBe(quizSubmissionValidator);
+    });
+
+    it('accepts a well-formed submission and drops unknown keys', () => {
+        const result = validateQuizSubmission({ ...valid, extra: true });
+
+        expect(result).toEqual({ ok: true, value: valid });
+    });
+
+    it('rejects an unsupported version', () => {
+        expect(fieldErrors({ ...valid, version: 2 })).toEqual([
+            { field: 'version', message: 'Unsupported version; expected 1' },
+        ]);
+        expect(fieldErrors({ ...valid, version: undefined })).toEqual([
+            { field: 'version', message: 'Unsupported version; expected 1' },
+        ]);
+    });
+
+    it('requires a quizId', () => {
+        expect(fieldErrors({ ...valid, quizId: undefined })).toEqual([
+            { field: 'quizId', message: 'quizId is required' },
+        ]);
+        expect(fieldErrors({ ...valid, quizId: '   ' })).toEqual([
+            { field: 'quizId', message: 'quizId is required' },
+        ]);
+    });
+
+    it('reports a duplicate answer at the index of the repeat', () => {
+        const answers = [
+            { questionId: 'q1', answer: 'A' },
+            { questionId: 'q2', answer: 'B' },
+            { questionId: 'q1', answer: 'C' },
+        ];
+
+        expect(fieldErrors({ ...valid, answers })).toEqual([
+            { field: 'answers[2].questionId', message: 'Duplicate answer for q1' },
+        ]);
+    });
+
+    it('checks for duplicates only once the answers are well-formed', () => {
+        const answers = [
+            { questionId: 'q1', answer: 'A' },
+            { questionId: 'q1', answer: 7 },
+        ];
+
+        expect(fieldErrors({ ...valid, answers })).toEqual([
+            { field: 'answers[1].answer', message: 'answers[1].answer must be a string' },
+        ]);
+    });
+
+    it('accepts up to 50 answers', () => {
+        const answers = (count: number) =>
+            Array.from({ length: count }, (_, index) => ({ questionId: `q${index}`, answer: 'A' }));
+
+        expect(fieldErrors({ ...valid, answers: answers(50) })).toEqual([]);
+        expect(fieldErrors({ ...valid, answers: answers(51) })).toEqual([
+            { field: 'answers', message: 'answers must have at most 50 items' },
+        ]);
+    });
+
+    it('accepts answers of up to 5000 characters', () => {
+        const answers = (length: number) => [{ questionId: 'q1', answer: 'x'.repeat(length) }];
+
+        expect(fieldErrors({ ...valid, answers: answers(5000) })).toEqual([]);
+        expect(fieldErrors({ ...valid, answers: answers(5001) })).toEqual([
+            { field: 'answers[0].answer', message: 'answers[0].answer must be at most 5000 characters' },
+        ]);
+    });
+
+    it('rejects a negative timeSpent and allows it to be left out', () => {
+        expect(fieldErrors({ ...valid, timeSpent: -1 })).toEqual([
+            { field: 'timeSpent', message: 'timeSpent must be a non-negative number of seconds' },
+        ]);
+        expect(fieldErrors({ ...valid, timeSpent: undefined })).toEqual([]);
+    });
+
+    it('collects every field error rather than stopping at the first', () => {
+        expect(fieldErrors({ version: 0, quizId: '', answers: [{ questionId: '', answer: 'A' }], timeSpent: -5 })).toEqual([
+            { field: 'version', message: 'Unsupported version; expected 1' },
+            { field: 'quizId', message: 'quizId is required' },
+            { field: 'answers[0].questionId', message: 'answers[0].questionId is required' },
+            { field: 'timeSpent', message: 'timeSpent must be a non-negative number of seconds' },
+        ]);
+    });
+});
@@ -0,0 +1,76 @@
+/**
+ * Quiz submission contract shared by the worker and the frontend.
+ *
+ * Bump QUIZ_SUBMISSION_VERSION (and add a new interface) for any breaking
+ * change to the payload.
+ */
+import {
+    FieldError,
+    ValidationResult,
+    Validator,
+    array,
+    literal,
+    number,
+    object,
+    optional,
+    refine,
+    string,
+    validate,
+} from './validation';
+
+export const QUIZ_SUBMISSION_VERSION = 1;
+
+const MAX_ANSWERS = 50;
+const MAX_ANSWER_LENGTH = 5000;
+
+export interface QuizSubmissionAnswer {
+    questionId: string;
+    answer: string;
+}
+
+export interface QuizSubmissionV1 {
+    version: 1;
+    quizId: string;
+    answers: QuizSubmissionAnswer[];
+    timeSpent?: number; // seconds spent taking the quiz
+}
+
+export type QuizSubmission = QuizSubmissionV1;
+
+export const quizSubmissionValidator: Validator<QuizSubmission> = refine(
+    object<QuizSubmission>({
+        version: literal(QUIZ_SUBMISSION_VERSION, `Unsupported version; expected ${QUIZ_SUBMISSION_VERSION}`),
+        quizId: string({ min: 1, trim: true, message: 'quizId is required' }),
+        answers: array(
+            object<QuizSubmissionAnswer>({
+                questionId: string({ min: 1 }),
+                answer: string({ max: MAX_ANSWER_LENGTH }),
+            }),
+            { max: MAX_ANSWERS }
+        ),
+        timeSpent: optional(number({ min: 0, message: 'timeSpent must be a non-negative number of seconds' })),
+    }),
+    submission => {
+        const seen = new Set<string>();
+        const errors: FieldError[] = [];
+
+        submission.answers.forEach((a, index) => {
+            if (seen.has(a.questionId)) {
+                errors.push({ field: `answers[${index}].questionId`, message: `Duplicate answer for ${a.questionId}` });
+            }
+            seen.add(a.questionId);
+        });
+
+        return errors;
+    }
+);
+
+/**
+ * Validate an untrusted submission body, collecting every field error
+ * rather than stopping at the first one
+ */
+export function validateQuizSubmission(input: unknown): ValidationResult<QuizSubmission> {
+    return validate(quizSubmissionValidator, input);
+}
+
+export type { FieldError, ValidationResult };
@@ -0,0 +1,17 @@
+/**
+ * Active-time accounting for study sessions, shared by the worker (which
+ * records it) and the frontend (which shows a running total).
+ */
+import { ActiveInterval } from './models';
+
+/**
+ * Total time covered by the intervals. An interval that is still open counts
+ * up to `now`.
+ */
+export function activeMilliseconds(intervals: ActiveInterval[], now: number): number {
+    return intervals.reduce((total, { start, end }) => total + Math.max(0, (end ?? now) - start), 0);
+}
+
+export function activeMinutes(intervals: ActiveInterval[], now: number): number {
+    return activeMilliseconds(intervals, now) / 1000 / 60;
+}
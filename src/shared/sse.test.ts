@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest';
+import { encodeSSE, readSSE } from './sse';
+
+// A byte stream of `chunks` that records whether it was cancelled; stays open after them unless `close`
+function sseStream(chunks: string[], close = true) {
+    const encoder = new TextEncoder();
+    const cancel = vi.fn();
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+            if (close) {
+                controller.close();
+            }
+        },
+        cancel,
+    });
+
+    return { stream, cancel };
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<string[]> {
+    const events: string[] = [];
+    for await (const data of readSSE(stream)) {
+        events.push(data);
+    }
+    return events;
+}
+
+describe('readSSE', () => {
+    it('yields each event, however the bytes are split', async () => {
+        const { stream, cancel } = sseStream([
+            encodeSSE({ response: 'Hel' }),
+            'data: {"response":',
+            '"lo"}\r\n\r\n: a comment\n\nevent: ping\ndata: line one\ndata: line two\n\n',
+            'data: [DONE]',
+        ]);
+
+        expect(await collect(stream)).toEqual([
+            '{"response":"Hel"}',
+            '{"response":"lo"}',
+            'line one\nline two',
+            '[DONE]',
+        ]);
+        expect(cancel).not.toHaveBeenCalled();
+    });
+
+    it('cancels the stream when the reader stops early', async () => {
+        const { stream, cancel } = sseStream([encodeSSE('first'), encodeSSE('second')], false);
+        const events = readSSE(stream);
+
+        expect((await events.next()).value).toBe('"first"');
+        await events.return(undefined);
+
+        expect(cancel).toHaveBeenCalledTimes(1);
+        // The lock is released, so nothing is left holding the stream
+        expect(stream.locked).toBe(false);
+    });
+
+    it('cancels the stream when the consumer throws', async () => {
+        const { stream, cancel } = sseStream([encodeSSE('first')], false);
+
+        await expect((async () => {
+            for await (const data of readSSE(stream)) {
+                throw new Error(`Bad event ${data}`);
+            }
+        })()).rejects.toThrow('Bad event "first"');
+
+        expect(cancel).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * Server-Sent Events framing shared by the worker (which both consumes Workers
+ * AI streams and produces its own) and the frontend. Only standard web
+ * streams are used here.
+ */
+
+/**
+ * Frame a JSON payload as a single SSE `data:` event
+ */
+export function encodeSSE(data: unknown): string {
+    return `data: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Yield the `data:` payload of each event in an SSE byte stream. Multi-line
+ * data fields are joined with newlines; comments and other fields are ignored.
+ * Stopping early (`break`, `return()` or a throw) cancels the stream, so its
+ * producer stops too.
+ */
+export async function* readSSE(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let finished = false;
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                finished = true;
+                break;
+            }
+
+            buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+            let boundary = buffer.indexOf('\n\n');
+            while (boundary !== -1) {
+                const data = parseEvent(buffer.slice(0, boundary));
+                buffer = buffer.slice(boundary + 2);
+
+                if (data !== null) {
+                    yield data;
+                }
+
+                boundary = buffer.indexOf('\n\n');
+            }
+        }
+
+        const trailing = parseEvent(buffer + decoder.decode());
+        if (trailing !== null) {
+            yield trailing;
+        }
+    } finally {
+        if (!finished) {
+            // Already errored streams reject the cancel; there is nothing left to stop
+            await reader.cancel().catch(() => {});
+        }
+        reader.releaseLock();
+    }
+}
+
+function parseEvent(block: string): string | null {
+    const lines = block
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).replace(/^ /, ''));
+
+    return lines.length > 0 ? lines.join('\n') : null;
+}
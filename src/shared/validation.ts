@@ -0,0 +1,211 @@
+/**
+ * Minimal runtime validators for the shared API contract.
+ *
+ * A Validator reads an untrusted value, records any problems against the
+ * field path it was given and returns the cleaned value. `object<T>()` takes
+ * the target interface as a type argument and requires a validator for
+ * every one of its keys, so a field added to a model without updating its
+ * validator is a compile error.
+ */
+
+export interface FieldError {
+    field: string;
+    message: string;
+}
+
+export type ValidationResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; errors: FieldError[] };
+
+export type Validator<T> = (input: unknown, path: string, errors: FieldError[]) => T;
+
+export function validate<T>(validator: Validator<T>, input: unknown): ValidationResult<T> {
+    const errors: FieldError[] = [];
+    const value = validator(input, '', errors);
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
+
+function fieldName(path: string): string {
+    return path || 'body';
+}
+
+function joinPath(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
+
+export function string(options: { min?: number; max?: number; trim?: boolean; message?: string } = {}): Validator<string> {
+    return (input, path, errors) => {
+        if (typeof input !== 'string') {
+            errors.push({ field: fieldName(path), message: options.message || `${fieldName(path)} must be a string` });
+            return '';
+        }
+
+        const value = options.trim ? input.trim() : input;
+
+        if (options.min !== undefined && value.length < options.min) {
+            errors.push({
+                field: fieldName(path),
+                message: options.message || (options.min === 1
+                    ? `${fieldName(path)} is required`
+                    : `${fieldName(path)} must be at least ${options.min} characters`),
+            });
+        } else if (options.max !== undefined && value.length > options.max) {
+            errors.push({ field: fieldName(path), message: options.message || `${fieldName(path)} must be at most ${options.max} characters` });
+        }
+
+        return value;
+    };
+}
+
+export function number(options: { min?: number; max?: number; integer?: boolean; message?: string } = {}): Validator<number> {
+    return (input, path, errors) => {
+        if (typeof input !== 'number' || !Number.isFinite(input)) {
+            errors.push({ field: fieldName(path), message: options.message || `${fieldName(path)} must be a number` });
+            return 0;
+        }
+
+        const outOfRange =
+            (options.integer && !Number.isInteger(input)) ||
+            (options.min !== undefined && input < options.min) ||
+            (options.max !== undefined && input > options.max);
+
+        if (outOfRange) {
+            const bounds = [
+                options.min !== undefined ? `>= ${options.min}` : '',
+                options.max !== undefined ? `<= ${options.max}` : '',
+            ].filter(Boolean).join(' and ');
+
+            errors.push({
+                field: fieldName(path),
+                message: options.message || `${fieldName(path)} must be ${options.integer ? 'an integer ' : ''}${bounds}`.trim(),
+            });
+        }
+
+        return input;
+    };
+}
+
+/**
+ * A number written as a string, as query parameters are
+ */
+export function numericString(options: { min?: number; max?: number; integer?: boolean; message?: string } = {}): Validator<number> {
+    const check = number(options);
+    return (input, path, errors) => {
+        const value = typeof input === 'string' && input.trim() !== '' ? Number(input) : NaN;
+        return check(value, path, errors);
+    };
+}
+
+export function boolean(): Validator<boolean> {
+    return (input, path, errors) => {
+        if (typeof input !== 'boolean') {
+            errors.push({ field: fieldName(path), message: `${fieldName(path)} must be a boolean` });
+            return false;
+        }
+        return input;
+    };
+}
+
+export function literal<T extends string | number | boolean>(expected: T, message?: string): Validator<T> {
+    return (input, path, errors) => {
+        if (input !== expected) {
+            errors.push({ field: fieldName(path), message: message || `${fieldName(path)} must be ${JSON.stringify(expected)}` });
+        }
+        return expected;
+    };
+}
+
+export function oneOf<T extends string>(values: readonly T[], message?: string): Validator<T> {
+    return (input, path, errors) => {
+        if (typeof input !== 'string' || !values.includes(input as T)) {
+            errors.push({ field: fieldName(path), message: message || `${fieldName(path)} must be one of: ${values.join(', ')}` });
+            return values[0];
+        }
+        return input as T;
+    };
+}
+
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+    return (input, path, errors) => (input === undefined ? undefined : validator(input, path, errors));
+}
+
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+    return (input, path, errors) => (input === null ? null : validator(input, path, errors));
+}
+
+export function unknown(): Validator<unknown> {
+    return input => input;
+}
+
+export function array<T>(item: Validator<T>, options: { max?: number } = {}): Validator<T[]> {
+    return (input, path, errors) => {
+        if (!Array.isArray(input)) {
+            errors.push({ field: fieldName(path), message: `${fieldName(path)} must be an array` });
+            return [];
+        }
+
+        if (options.max !== undefined && input.length > options.max) {
+            errors.push({ field: fieldName(path), message: `${fieldName(path)} must have at most ${options.max} items` });
+            return [];
+        }
+
+        return input.map((entry, index) => item(entry, `${path}[${index}]`, errors));
+    };
+}
+
+export function record<T>(value: Validator<T>): Validator<Record<string, T>> {
+    return (input, path, errors) => {
+        if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+            errors.push({ field: fieldName(path), message: `${fieldName(path)} must be an object` });
+            return {};
+        }
+
+        const result: Record<string, T> = {};
+        for (const [key, entry] of Object.entries(input)) {
+            result[key] = value(entry, joinPath(path, key), errors);
+        }
+        return result;
+    };
+}
+
+/**
+ * Validate an object against a validator for each key of T. Unknown keys are
+ * dropped, and optional keys that are absent stay absent.
+ */
+export function object<T>(shape: { [K in keyof Required<T>]: Validator<T[K]> }): Validator<T> {
+    return (input, path, errors) => {
+        if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+            errors.push({ field: fieldName(path), message: `${fieldName(path)} must be an object` });
+            return {} as T;
+        }
+
+        const source = input as Record<string, unknown>;
+        const result: Record<string, unknown> = {};
+
+        for (const key of Object.keys(shape) as Array<keyof T & string>) {
+            const value = shape[key](source[key], joinPath(path, key), errors);
+            if (value !== undefined) {
+                result[key] = value;
+            }
+        }
+
+        return result as T;
+    };
+}
+
+/**
+ * Add a cross-field check that runs once the value itself is well-formed
+ */
+export function refine<T>(validator: Validator<T>, check: (value: T, path: string) => FieldError[]): Validator<T> {
+    return (input, path, errors) => {
+        const before = errors.length;
+        const value = validator(input, path, errors);
+
+        if (errors.length === before) {
+            errors.push(...check(value, path));
+        }
+
+        return value;
+    };
+}
@@ -1,3 +1,19 @@
+import {
+    ChatMessage,
+    Difficulty,
+    StudySession,
+    TutorMode,
+    Quiz,
+    QuizResult,
+    PublicQuiz,
+    ProgressData,
+    SpacedRepetitionItem,
+    UserSettings,
+} from './shared/models';
+
+// API-facing models are shared with the frontend
+export * from './shared/models';
+
 // Environment bindings
 export interface Env {
     AI: Ai;
@@ -5,8 +21,11 @@ export interface Env {
     STUDY_WORKFLOW: WorkflowBinding;
     QUIZ_WORKFLOW: WorkflowBinding;
     CACHE: KVNamespace;
+    ACCOUNTS: DurableObjectNamespace;
+    AUTH_SECRET: string; // HMAC key for session tokens; set with `wrangler secret put`
     ENVIRONMENT: string;
-    MAX_SESSION_DURATION: string;
+    MAX_SESSION_DURATION: string; // seconds a session may stay open, pauses included
+    SESSION_IDLE_TIMEOUT: string; // seconds without chat before an active session ends
     MAX_QUIZ_QUESTIONS: string;
 }
 
@@ -19,44 +38,43 @@ export interface WorkflowBinding {
 export interface WorkflowInstance {
     id: string;
     status(): Promise<WorkflowStatus>;
+    sendEvent(event: { type: string; payload: unknown }): Promise<void>;
 }
 
+// Raw instance states reported by the Workflows runtime
 export interface WorkflowStatus {
-    status: 'running' | 'completed' | 'failed';
+    status: 'queued' | 'running' | 'paused' | 'waiting' | 'waitingForPause' | 'errored' | 'terminated' | 'complete' | 'unknown';
     output?: any;
     error?: string;
 }
 
 // Chat types
-export interface ChatMessage {
-    role: 'user' | 'assistant' | 'system';
-    content: string;
-    timestamp: number;
-}
-
 export interface ChatHistory {
     sessionId: string;
     messages: ChatMessage[];
 }
 
-export interface ChatHistoryResponse {
-    success: boolean;
-    data: ChatHistory;
+// A chat turn for StudyState to store (/chat/save)
+export interface ChatTurn {
+    sessionId: string;
+    userMessage?: string; // omitted when regenerating: the reply answers the message at parentId
+    aiResponse: string;
+    interrupted?: boolean;
+    mode?: TutorMode;
+    // The message the turn follows: the end of the shown branch when omitted,
+    // null to start the conversation over
+    parentId?: number | null;
 }
 
-// Study session types
-export interface StudySession {
-    id: string;
-    topic: string;
-    duration: number;
-    difficulty: 'beginner' | 'intermediate' | 'advanced';
-    startTime: number;
-    endTime?: number;
-    status: 'active' | 'completed' | 'paused';
-    messagesCount?: number;
-    summary?: string;
-}
+// Running summary of a branch's oldest chat turns
+export type ChatSummary = {
+    content: string;
+    messageCount: number; // how many of the branch's first messages it covers
+    lastMessageId: number | null; // the last of them, so other branches can tell it isn't theirs
+    updatedAt: number;
+};
 
+// Study session types
 export interface StudySessionParams {
     sessionId: string;
     topic: string;
@@ -65,81 +83,83 @@ export interface StudySessionParams {
     userId: string;
 }
 
-// Quiz types
-export interface QuizAnswer {
-    questionId: string;
-    answer: string;
-    isCorrect?: boolean;
-    pointsEarned?: number;
-}
+// How the workflow plans to teach a session's topic
+export type LearningPath = {
+    approach: string; // introduction, reinforcement or advanced
+    focusAreas: string[];
+};
 
-export interface Quiz {
-    id: string;
-    topic: string;
-    difficulty: 'beginner' | 'intermediate' | 'advanced';
-    questions: QuizQuestion[];
-    createdAt: number;
-}
-
-export interface QuizQuestion {
-    id: string;
+// A quiz question the student recently got wrong on the session's topic
+export interface MissedQuestion {
     question: string;
-    type: 'multiple-choice' | 'short-answer' | 'true-false';
-    options?: string[];
     correctAnswer: string;
-    explanation: string;
-    points: number;
+    studentAnswer: string;
 }
 
-export interface QuizResult {
+// A wrong answer flashcards can be drawn from
+export interface QuizMistake extends MissedQuestion {
     quizId: string;
-    score: number;
-    maxScore: number;
-    percentage: number;
-    completedAt: number;
-    timeSpent: number;
-    answers: QuizAnswer[];
+    questionId: string;
+    topic: string;
+    explanation: string;
 }
 
-export interface QuizGenerationParams {
-    topic: string;
-    questionCount: number;
-    difficulty: string;
-    userId: string;
+// A card as the model drafts it; `excerpt` is the index of the material it came from
+export interface DraftFlashcard {
+    front: string;
+    back: string;
+    excerpt: number;
 }
 
-// Progress types
-export interface ProgressData {
-    userId: string;
-    totalStudyTime: number;
-    totalSessions: number;
-    totalQuizzes: number;
-    averageScore: number;
-    currentStreak: number;
-    longestStreak: number;
-    topicsStudied: TopicProgress[];
-    recentActivity: ActivityRecord[];
+// A row read from an imported card file, before topic mapping
+export interface CardFileRow {
+    line: number;
+    front: string;
+    back: string;
+    topic?: string; // from a topic or deck column, or a topic:: tag
 }
 
-export interface TopicProgress {
+// Everything the tutor's system prompt knows about the session being chatted in
+export interface TutorContext {
     topic: string;
-    masteryLevel: number; // 0-100
-    timeSpent: number;
-    sessionsCount: number;
-    quizAverage: number;
-    lastStudied: number;
-    nextReview?: number;
+    difficulty: Difficulty;
+    mode: TutorMode;
+    masteryLevel: number; // 0-100 on the topic before this session
+    learningPath: LearningPath | null; // null until the workflow has planned it
+    missedQuestions: MissedQuestion[];
+    memory: ChatSummary | null; // summary of turns too old to send verbatim
 }
 
-export interface ActivityRecord {
-    type: 'session' | 'quiz';
+// What StudyState tells a running StudySessionWorkflow about its session
+export type SessionEventKind = 'completed' | 'abandoned' | 'extended';
+
+// How a session ended, as far as progress is concerned
+export type SessionOutcome = Exclude<SessionEventKind, 'extended'>;
+
+export type SessionEvent = {
+    kind: SessionEventKind;
+    duration?: number; // the new planned duration in minutes, for 'extended'
+};
+
+// Output of the QuizGenerationWorkflow 'finalize-quiz' step
+export interface QuizWorkflowOutput {
+    success: boolean;
+    quizId: string;
+    userId: string; // owner; only they may read the generated quiz
+    quiz: PublicQuiz & { estimatedTime: number };
+    keyConcepts: string[];
+}
+
+export interface QuizGenerationParams {
     topic: string;
-    timestamp: number;
-    duration?: number;
-    score?: number;
+    questionCount: number;
+    difficulty: Difficulty;
+    userId: string;
+    sessionId?: string;
 }
 
-// State management types
+// Shape of the single JSON blob StudyState stored before it moved to SQLite;
+// only read when importing old data
 export interface UserState {
     userId: string;
     sessions: Record<string, StudySession>;
@@ -148,14 +168,15 @@ export interface UserState {
     quizResults: QuizResult[];
     progress: ProgressData;
     spacedRepetitionQueue: SpacedRepetitionItem[];
+    settings: UserSettings;
 }
 
-export interface SpacedRepetitionItem {
-    topic: string;
-    nextReview: number;
-    interval: number; // days
-    easeFactor: number;
-    repetitions: number;
+// Credentials stored in AccountState, never sent to the client
+export interface Account {
+    id: string;
+    email: string;
+    passwordHash: string;
+    createdAt: number;
 }
 
 // AI Service types
@@ -167,8 +188,3 @@ export interface AIResponse {
         totalTokens: number;
     };
 }
-
-export interface AIStreamChunk {
-    content: string;
-    done: boolean;
-}
\ No newline at end of file
@@ -1,5 +1,8 @@
 import { WorkflowEntrypoint, WorkflowStep, WorkflowEvent } from 'cloudflare:workers';
-import { QuizGenerationParams, Quiz, QuizQuestion, TopicProgress } from '../types';
+import { QuizGenerationParams, QuizWorkflowOutput, Quiz, QuizQuestion, TopicProgress } from '../types';
+import { AIService } from '../llm/aiService';
+import { toPublicQuestions } from '../quiz/redaction';
+import { validateGeneratedQuestions } from '../quiz/questions';
 
 type QuizGenEnv = {
     STUDY_STATE: DurableObjectNamespace;
@@ -14,10 +17,10 @@ interface AiTextGenerationOutput {
 
 export class QuizGenerationWorkflow extends WorkflowEntrypoint<QuizGenEnv, QuizGenerationParams> {
     async run(event: WorkflowEvent<QuizGenerationParams>, step: WorkflowStep) {
-        const { topic, questionCount, difficulty, userId } = event.payload;
+        const { topic, questionCount, difficulty, userId, sessionId } = event.payload;
 
         // Step 1: Analyze study session content
-        const contentAnalysis = await step.do('analyze-content', async () => {
+        await step.do('analyze-content', async () => {
             const id = this.env.STUDY_STATE.idFromName(userId);
             const stub = this.env.STUDY_STATE.get(id);
 
@@ -128,44 +131,25 @@ Requirements:
         });
 
         // Step 4: Validate question quality
-        const validatedQuestions = await step.do('validate-questions', async () => {
-            const validated: QuizQuestion[] = [];
+        const validatedQuestions = await step.do('validate-questions', async () =>
+            validateGeneratedQuestions(generatedQuestions, questionCount)
+        );
 
-            for (const q of generatedQuestions) {
-                // Ensure required fields
-                if (!q.question || !q.correctAnswer || !q.explanation) {
-                    continue;
-                }
-
-                // Ensure proper structure
-                const validatedQ: QuizQuestion = {
-                    id: q.id || `q${validated.length + 1}`,
-                    question: q.question,
-                    type: q.type || 'short-answer',
-                    options: q.options,
-                    correctAnswer: q.correctAnswer,
-                    explanation: q.explanation,
-                    points: q.points || 10,
-                };
-
-                validated.push(validatedQ);
-            }
-
-            return validated.slice(0, questionCount);
-        });
+        // Step 5: Draft grading rubrics for short-answer questions
+        const gradedQuestions = await step.do('generate-rubrics', async () => {
+            const aiService = new AIService(this.env.AI);
 
-        // Step 5: Create answer key
-        const answerKey = await step.do('create-answer-key', async () => {
-            const key: Record<string, string> = {};
-
-            validatedQuestions.forEach(q => {
-                key[q.id] = q.correctAnswer;
-            });
+            return Promise.all(validatedQuestions.map(async (q): Promise<QuizQuestion> => {
+                if (q.type !== 'short-answer') {
+                    return q;
+                }
 
-            return key;
+                const rubric = await aiService.generateRubric(q.question, q.correctAnswer, q.points);
+                return { ...q, rubric };
+            }));
         });
 
-        // Step 6: Store quiz in Durable Object
+        // Step 6: Store quiz (with its answer key) in Durable Object
         const quizId = await step.do('store-quiz', async () => {
             const id = this.env.STUDY_STATE.idFromName(userId);
             const stub = this.env.STUDY_STATE.get(id);
@@ -173,33 +157,38 @@ Requirements:
             const quiz: Quiz = {
                 id: `quiz_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
                 topic,
-                difficulty: difficulty as any,
-                questions: validatedQuestions,
+                difficulty,
+                questions: gradedQuestions,
                 createdAt: Date.now(),
+                sessionId,
             };
 
-            await stub.fetch('http://internal/quiz/save', {
+            const response = await stub.fetch('http://internal/quiz/save', {
                 method: 'POST',
                 body: JSON.stringify(quiz),
             });
 
+            if (!response.ok) {
+                throw new Error(`Failed to save quiz ${quiz.id}: ${response.status}`);
+            }
+
             return quiz.id;
         });
 
-        // Step 7: Return quiz to user
-        return await step.do('finalize-quiz', async () => {
+        // Step 7: Return the student view of the quiz; answers stay in the Durable Object
+        return await step.do('finalize-quiz', async (): Promise<QuizWorkflowOutput> => {
             return {
                 success: true,
                 quizId,
+                userId,
                 quiz: {
-                    id: quizId,
+                    quizId,
                     topic,
                     difficulty,
-                    questions: validatedQuestions,
+                    questions: toPublicQuestions(validatedQuestions),
                     totalPoints: validatedQuestions.reduce((sum, q) => sum + q.points, 0),
                     estimatedTime: validatedQuestions.length * 2, // 2 min per question
                 },
-                answerKey,
                 keyConcepts,
             };
         });
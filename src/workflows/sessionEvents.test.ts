@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { SESSION_ABANDONED_QUALITY, SESSION_COMPLETION_QUALITY } from '../review/spacedRepetition';
+import { SESSION_EVENT_GRACE_MS, eventWaitTimeout, outcomeQuality, sessionOutcome } from './sessionEvents';
+
+const NOW = Date.UTC(2026, 5, 10, 9, 0);
+
+describe('sessionOutcome', () => {
+    it('completes sessions that were finished or ran out of time', () => {
+        expect(sessionOutcome('manual')).toBe('completed');
+        expect(sessionOutcome('timeout')).toBe('completed');
+    });
+
+    it('abandons sessions that went idle', () => {
+        expect(sessionOutcome('idle')).toBe('abandoned');
+    });
+});
+
+describe('outcomeQuality', () => {
+    it('reviews an abandoned session as a weaker recall', () => {
+        expect(outcomeQuality('completed')).toBe(SESSION_COMPLETION_QUALITY);
+        expect(outcomeQuality('abandoned')).toBe(SESSION_ABANDONED_QUALITY);
+        expect(SESSION_ABANDONED_QUALITY).toBeLessThan(SESSION_COMPLETION_QUALITY);
+    });
+});
+
+describe('eventWaitTimeout', () => {
+    it('waits until the deadline', () => {
+        expect(eventWaitTimeout(NOW + 60 * 60 * 1000, NOW)).toBe(60 * 60 * 1000);
+    });
+
+    it('never waits less than the grace period', () => {
+        expect(eventWaitTimeout(NOW + 1000, NOW)).toBe(SESSION_EVENT_GRACE_MS);
+        // A workflow that resumes after its deadline still waits out the grace period
+        expect(eventWaitTimeout(NOW - 60 * 60 * 1000, NOW)).toBe(SESSION_EVENT_GRACE_MS);
+    });
+});
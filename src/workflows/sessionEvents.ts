@@ -0,0 +1,26 @@
+import { SessionEndReason, SessionOutcome } from '../types';
+import { SESSION_ABANDONED_QUALITY, SESSION_COMPLETION_QUALITY } from '../review/spacedRepetition';
+
+// Event type StudyState sends to a session's workflow instance
+export const SESSION_EVENT_TYPE = 'session-update';
+
+// How long past the session cap the workflow keeps waiting for the alarm to end it
+export const SESSION_EVENT_GRACE_MS = 5 * 60 * 1000;
+
+/**
+ * Sessions the student finished, or that ran their planned time, are
+ * completed; one that ended because nobody was chatting was abandoned.
+ */
+export function sessionOutcome(endReason: SessionEndReason): SessionOutcome {
+    return endReason === 'idle' ? 'abandoned' : 'completed';
+}
+
+// SM-2 recall quality for a topic after a session with this outcome
+export function outcomeQuality(outcome: SessionOutcome): number {
+    return outcome === 'completed' ? SESSION_COMPLETION_QUALITY : SESSION_ABANDONED_QUALITY;
+}
+
+// How long the next wait for a session event may last; never less than the grace period
+export function eventWaitTimeout(waitUntil: number, now: number): number {
+    return Math.max(waitUntil - now, SESSION_EVENT_GRACE_MS);
+}
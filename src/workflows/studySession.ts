@@ -1,38 +1,42 @@
 import { WorkflowEntrypoint, WorkflowStep, WorkflowEvent } from 'cloudflare:workers';
-import { StudySessionParams, ChatHistoryResponse, TopicProgress } from '../types';
+import { NonRetryableError } from 'cloudflare:workflows';
+import { SessionEvent, SessionOutcome, StudySessionParams, StudySession, TopicProgress } from '../types';
+import { parseSessionLimits } from '../durableObjects/sessionTimeouts';
+import { SESSION_EVENT_GRACE_MS, SESSION_EVENT_TYPE, eventWaitTimeout, sessionOutcome } from './sessionEvents';
 
 type StudySessionEnv = {
     STUDY_STATE: DurableObjectNamespace;
     AI: Ai;
+    MAX_SESSION_DURATION: string;
 };
 
-// Workers AI response type
-interface AiTextGenerationOutput {
-    response?: string;
-}
-
 export class StudySessionWorkflow extends WorkflowEntrypoint<StudySessionEnv, StudySessionParams> {
     async run(event: WorkflowEvent<StudySessionParams>, step: WorkflowStep) {
-        const { sessionId, topic, duration, difficulty, userId } = event.payload;
+        const { sessionId, topic, duration, userId } = event.payload;
 
-        // Step 1: Initialize session
+        // Step 1: Register this instance with the session so StudyState sends it
+        // session events, and work out how long to wait for them
         const initResult = await step.do('initialize-session', async () => {
             console.log(`Initializing study session ${sessionId} for ${topic}`);
 
+            const response = await this.studyState(userId).fetch('http://internal/session/workflow', {
+                method: 'POST',
+                body: JSON.stringify({ sessionId, workflowId: event.instanceId }),
+            });
+            const { session } = await this.readSession<{ session: StudySession }>(response, sessionId);
+            const { maxDuration } = parseSessionLimits(this.env.MAX_SESSION_DURATION);
+
             return {
-                sessionId,
-                topic,
-                startTime: Date.now(),
-                status: 'initialized',
+                // Set when the session ended before this instance registered
+                outcome: session.status === 'completed' ? sessionOutcome(session.endReason ?? 'manual') : null,
+                // StudyState's alarm ends the session by its cap at the latest
+                waitUntil: session.startTime + maxDuration + SESSION_EVENT_GRACE_MS,
             };
         });
 
         // Step 2: Load user's previous progress on this topic
         const previousProgress = await step.do('load-progress', async () => {
-            const id = this.env.STUDY_STATE.idFromName(userId);
-            const stub = this.env.STUDY_STATE.get(id);
-
-            const response = await stub.fetch('http://internal/progress/topics');
+            const response = await this.studyState(userId).fetch('http://internal/progress/topics');
             const topics = await response.json() as TopicProgress[];
 
             const topicProgress = topics.find((t) => t.topic === topic);
@@ -44,7 +48,7 @@ export class StudySessionWorkflow extends WorkflowEntrypoint<StudySessionEnv, St
             };
         });
 
-        // Step 3: Generate personalized learning path
+        // Step 3: Generate personalized learning path and hand it to the tutor
         const learningPath = await step.do('generate-learning-path', async () => {
             const isNewTopic = previousProgress.sessionsCount === 0;
             const needsReview = previousProgress.masteryLevel < 50;
@@ -65,104 +69,117 @@ export class StudySessionWorkflow extends WorkflowEntrypoint<StudySessionEnv, St
             };
         });
 
-        // Step 4: Monitor session (in real workflow, this would be more complex)
-        await step.sleep('monitor-duration', duration * 60 * 1000); // Convert minutes to ms
-
-        // Step 5: Generate session summary
-        const summary = await step.do('generate-summary', async () => {
-            const id = this.env.STUDY_STATE.idFromName(userId);
-            const stub = this.env.STUDY_STATE.get(id);
-
-            // Get chat history for this session
-            const historyResponse = await stub.fetch('http://internal/chat/history', {
+        await step.do('store-learning-path', async () => {
+            const { approach, focusAreas } = learningPath;
+            const response = await this.studyState(userId).fetch('http://internal/session/learning-path', {
                 method: 'POST',
-                body: JSON.stringify({ sessionId }),
+                body: JSON.stringify({ sessionId, learningPath: { approach, focusAreas } }),
             });
-            const historyData = await historyResponse.json() as ChatHistoryResponse;
+            await this.readSession(response, sessionId);
+        });
 
-            if (!historyData.success || !historyData.data) {
-                throw new Error('Failed to fetch chat history');
-            }
+        // Step 4: Wait for the session to end. StudyState reports completion,
+        // abandonment (it went idle) and extensions of the planned duration.
+        let ended = initResult.outcome !== null;
+        let extensions = 0;
 
-            const { messages } = historyData.data;
-            // Use AI to generate summary
-            const prompt = `Summarize this study session on ${topic}. 
-                Session approach: ${learningPath.approach}
-                Number of interactions: ${messages.length}
-                Duration: ${duration} minutes
-                
-                Provide a brief summary of what was covered and recommendations for next steps.`;
+        for (let round = 0; !ended; round++) {
+            // Read the clock inside a step so a replay waits exactly as long as the first run
+            const timeout = await step.do(`event-timeout-${round}`, async () =>
+                eventWaitTimeout(initResult.waitUntil, Date.now())
+            );
 
             try {
-                const aiResponse = await this.env.AI.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', {
-                    messages: [
-                        { role: 'system', content: 'You are a study session summarizer.' },
-                        { role: 'user', content: prompt },
-                    ],
-                    max_tokens: 300,
+                const { payload } = await step.waitForEvent<SessionEvent>(`session-event-${round}`, {
+                    type: SESSION_EVENT_TYPE,
+                    timeout,
                 });
 
-                return aiResponse || 'Session completed successfully.';
+                if (payload.kind === 'extended') {
+                    extensions++;
+                } else {
+                    ended = true;
+                }
             } catch (error) {
-                return `Completed ${duration}-minute study session on ${topic}.`;
+                // Nothing heard by the session cap; recording the outcome ends it as timed out
+                console.warn(`No end event for session ${sessionId}:`, error);
+                ended = true;
             }
-        });
-
-        // Step 6: Update mastery level
-        const masteryUpdate = await step.do('update-mastery', async () => {
-            const id = this.env.STUDY_STATE.idFromName(userId);
-            const stub = this.env.STUDY_STATE.get(id);
+        }
 
-            // Calculate new mastery level (simplified algorithm)
-            const sessionBonus = 5;
-            const timeBonus = Math.min(10, Math.floor(duration / 10));
-            const newMasteryLevel = Math.min(100, previousProgress.masteryLevel + sessionBonus + timeBonus);
+        // Step 5: Write the outcome back to topic progress and the review
+        // schedule. StudyState derives it from how the session ended.
+        const { outcome, progress } = await step.do('record-outcome', async () => {
+            const response = await this.studyState(userId).fetch('http://internal/session/outcome', {
+                method: 'POST',
+                body: JSON.stringify({ sessionId }),
+            });
 
-            return {
-                previousLevel: previousProgress.masteryLevel,
-                newLevel: newMasteryLevel,
-                increase: newMasteryLevel - previousProgress.masteryLevel,
-            };
+            return await this.readSession<{ outcome: SessionOutcome; progress: TopicProgress | null }>(response, sessionId);
         });
 
-        // Step 7: Schedule spaced repetition
-        const repetitionSchedule = await step.do('schedule-repetition', async () => {
-            const id = this.env.STUDY_STATE.idFromName(userId);
-            const stub = this.env.STUDY_STATE.get(id);
-
-            // Calculate next review date based on mastery level
-            let intervalDays = 1;
-            if (masteryUpdate.newLevel >= 80) {
-                intervalDays = 7;
-            } else if (masteryUpdate.newLevel >= 60) {
-                intervalDays = 3;
-            } else if (masteryUpdate.newLevel >= 40) {
-                intervalDays = 2;
-            }
+        // Step 6: Pick up the summary StudyState writes from the transcript
+        // when the session completes (null until it has been written)
+        const summary = await step.do('load-summary', async () => {
+            const response = await this.studyState(userId).fetch('http://internal/session/get', {
+                method: 'POST',
+                body: JSON.stringify({ sessionId }),
+            });
 
-            const nextReview = Date.now() + (intervalDays * 24 * 60 * 60 * 1000);
+            if (!response.ok) {
+                return null;
+            }
 
-            return {
-                topic,
-                nextReview,
-                intervalDays,
-                masteryLevel: masteryUpdate.newLevel,
-            };
+            const { session } = await response.json() as { session: StudySession };
+            return session.summary ?? null;
         });
 
-        // Step 8: Return workflow result
+        // Step 7: Return workflow result
         return await step.do('finalize-workflow', async () => {
+            const newLevel = progress?.masteryLevel ?? previousProgress.masteryLevel;
+
             return {
                 success: true,
                 sessionId,
+                outcome,
+                extensions,
                 summary,
-                masteryUpdate,
-                repetitionSchedule,
+                masteryUpdate: {
+                    previousLevel: previousProgress.masteryLevel,
+                    newLevel,
+                    increase: newLevel - previousProgress.masteryLevel,
+                },
+                repetitionSchedule: {
+                    topic,
+                    nextReview: progress?.nextReview ?? null,
+                    masteryLevel: newLevel,
+                },
                 learningPath,
             };
         });
     }
 
+    private studyState(userId: string): DurableObjectStub {
+        return this.env.STUDY_STATE.get(this.env.STUDY_STATE.idFromName(userId));
+    }
+
+    /**
+     * Read a StudyState response about this instance's session. A session
+     * that is gone stays gone, so that fails the workflow without retrying;
+     * any other error is retried by the step.
+     */
+    private async readSession<T>(response: Response, sessionId: string): Promise<T> {
+        if (response.status === 404) {
+            throw new NonRetryableError(`Session ${sessionId} no longer exists`);
+        }
+
+        if (!response.ok) {
+            throw new Error(`StudyState failed for session ${sessionId}: ${response.status}`);
+        }
+
+        return await response.json() as T;
+    }
+
     private getFocusAreas(approach: string, topic: string): string[] {
         switch (approach) {
             case 'introduction':